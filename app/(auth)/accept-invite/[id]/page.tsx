@@ -0,0 +1,154 @@
+import Link from "next/link";
+import { AcceptInviteActions } from "@/components/auth/accept-invite-actions";
+import { buttonVariants } from "@/components/ui/button";
+import { getInvitationDetails, type InvitationState } from "@/lib/auth/invitations";
+import { isLegalRole, RoleDescriptions } from "@/lib/auth/roles";
+import { getCurrentUser } from "@/lib/auth/server";
+
+/**
+ * Accept Invitation Page
+ *
+ * Landing page for the link in invitation emails
+ * (`${BETTER_AUTH_URL}/accept-invite/${id}`).
+ *
+ * - Signed out: shows the invite and routes through signup/login,
+ *   coming back here afterwards via callbackUrl
+ * - Signed in as the recipient: accept or decline
+ * - Expired, cancelled or already used: explains what happened
+ */
+const closedStates: Record<
+  Exclude<InvitationState, "pending">,
+  { title: string; description: string }
+> = {
+  expired: {
+    title: "Invitation expired",
+    description: "This invitation is no longer valid. Ask the person who invited you to send a new one.",
+  },
+  canceled: {
+    title: "Invitation cancelled",
+    description: "This invitation was cancelled by the organization.",
+  },
+  accepted: {
+    title: "Already accepted",
+    description: "This invitation has already been used. Sign in to continue.",
+  },
+  rejected: {
+    title: "Invitation declined",
+    description: "This invitation was declined. Ask for a new one if that was a mistake.",
+  },
+};
+
+export default async function AcceptInvitePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const [invitation, user] = await Promise.all([
+    getInvitationDetails(id),
+    getCurrentUser(),
+  ]);
+
+  if (!invitation) {
+    return (
+      <InviteMessage
+        title="Invitation not found"
+        description="Check the link in your email, or ask for a new invitation."
+      />
+    );
+  }
+
+  if (invitation.state !== "pending") {
+    const { title, description } = closedStates[invitation.state];
+    return (
+      <InviteMessage
+        title={title}
+        description={description}
+        action={
+          invitation.state === "accepted" && !user
+            ? { label: "Sign in", href: "/login" }
+            : { label: "Go to home", href: "/" }
+        }
+      />
+    );
+  }
+
+  const callbackUrl = `/accept-invite/${invitation.id}`;
+  const roleDescription = isLegalRole(invitation.role)
+    ? RoleDescriptions[invitation.role]
+    : null;
+  const isRecipient = user?.email.toLowerCase() === invitation.email.toLowerCase();
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          Join {invitation.organizationName}
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          {invitation.inviterName ?? "Someone"} invited {invitation.email} to join as{" "}
+          <span className="font-medium text-foreground">{invitation.role}</span>
+        </p>
+        {roleDescription && (
+          <p className="text-sm text-muted-foreground">{roleDescription}</p>
+        )}
+      </div>
+
+      {!user && (
+        <div className="flex flex-col gap-2">
+          <Link
+            href={`/signup?callbackUrl=${encodeURIComponent(callbackUrl)}&email=${encodeURIComponent(invitation.email)}`}
+            className={buttonVariants()}
+          >
+            Create account to accept
+          </Link>
+          <Link
+            href={`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`}
+            className={buttonVariants({ variant: "ghost" })}
+          >
+            I already have an account
+          </Link>
+        </div>
+      )}
+
+      {user && isRecipient && <AcceptInviteActions invitationId={invitation.id} />}
+
+      {user && !isRecipient && (
+        <div className="space-y-4 text-center">
+          <p className="text-sm text-muted-foreground">
+            You&apos;re signed in as {user.email}, but this invitation was sent to{" "}
+            {invitation.email}.
+          </p>
+          <Link
+            href={`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`}
+            className={buttonVariants({ variant: "outline" })}
+          >
+            Sign in as {invitation.email}
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InviteMessage({
+  title,
+  description,
+  action = { label: "Go to home", href: "/" },
+}: {
+  title: string;
+  description: string;
+  action?: { label: string; href: string };
+}) {
+  return (
+    <div className="space-y-6 text-center">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">{title}</h1>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      <Link href={action.href} className={buttonVariants({ variant: "outline" })}>
+        {action.label}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import Link from "next/link";
+import { buttonVariants } from "@/components/ui/button";
+
+/**
+ * Forbidden Page
+ *
+ * Shown by the middleware (as a 403 rewrite) when a signed-in user lacks
+ * the role or permission a route requires in `auth.config.ts`.
+ */
+export default function ForbiddenPage() {
+  return (
+    <div className="space-y-6 text-center">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Access denied</h1>
+        <p className="text-sm text-muted-foreground">
+          Your role in this organization doesn&apos;t allow access to this page.
+          Ask an owner or partner if you need access.
+        </p>
+      </div>
+
+      <Link href="/" className={buttonVariants({ variant: "outline" })}>
+        Back to home
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import Link from "next/link";
+import { ForgotPasswordForm } from "@/components/auth/forgot-password-form";
+
+/**
+ * Forgot Password Page
+ *
+ * Requests a reset link by email. The link lands on /reset-password.
+ *
+ * @see skills/auth/SKILL.md for the password reset flow
+ */
+export default function ForgotPasswordPage() {
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          Forgot your password?
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Enter your email and we&apos;ll send you a reset link
+        </p>
+      </div>
+
+      <ForgotPasswordForm />
+
+      <p className="text-center text-sm text-muted-foreground">
+        Remembered it?{" "}
+        <Link
+          href="/login"
+          className="font-medium text-primary underline-offset-4 hover:underline"
+        >
+          Sign in
+        </Link>
+      </p>
+    </div>
+  );
+}
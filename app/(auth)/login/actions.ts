@@ -0,0 +1,13 @@
+"use server";
+
+import { lookupSsoForEmail, type SsoLoginRoute } from "@/lib/auth/sso";
+
+/**
+ * Domain routing for LoginForm - whether an email signs in with SSO
+ * Only says whether SSO is offered or required; which connection is used
+ * is decided server-side when sign-in starts from the email.
+ */
+export async function lookupSsoAction(email: string): Promise<SsoLoginRoute | null> {
+  const route = await lookupSsoForEmail(email);
+  return route ? { enforced: route.enforced } : null;
+}
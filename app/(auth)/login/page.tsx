@@ -1,5 +1,9 @@
 import Link from "next/link";
+import { OAuthButtons } from "@/components/auth/oauth-buttons";
 import { LoginForm } from "@/components/auth/login-form";
+import { PasswordlessLoginForm } from "@/components/auth/passwordless-login-form";
+import { getPasswordlessMode } from "@/lib/auth/passwordless";
+import { lookupSsoAction } from "./actions";
 
 /**
  * Login Page
@@ -13,6 +17,9 @@ import { LoginForm } from "@/components/auth/login-form";
  * - OAuth Only (add OAuth buttons below)
  * - With 2FA (handled automatically by LoginForm)
  *
+ * With AUTH_PASSWORDLESS_MODE set, the email-only form is shown first and
+ * `?method=password` switches to the password form.
+ *
  * @see skills/auth/SKILL.md for customization options
  */
 function getSafeCallbackUrl(value?: string | string[]) {
@@ -27,10 +34,21 @@ function getSafeCallbackUrl(value?: string | string[]) {
 export default async function LoginPage({
   searchParams,
 }: {
-  searchParams: Promise<{ callbackUrl?: string | string[] }>;
+  searchParams: Promise<{
+    callbackUrl?: string | string[];
+    reason?: string | string[];
+    error?: string | string[];
+    method?: string | string[];
+  }>;
 }) {
-  const { callbackUrl } = await searchParams;
+  const { callbackUrl, reason, error, method } = await searchParams;
   const safeCallbackUrl = getSafeCallbackUrl(callbackUrl);
+  const passwordlessMode = getPasswordlessMode();
+  const showPasswordless = passwordlessMode !== null && method !== "password";
+  const switchParams = new URLSearchParams(
+    safeCallbackUrl === "/" ? {} : { callbackUrl: safeCallbackUrl }
+  );
+  if (showPasswordless) switchParams.set("method", "password");
   return (
     <div className="space-y-6">
       <div className="text-center space-y-2">
@@ -40,27 +58,56 @@ export default async function LoginPage({
         </p>
       </div>
 
-      <LoginForm callbackUrl={safeCallbackUrl} />
+      {/* Set by the middleware when a session expired or was revoked */}
+      {reason === "expired" && (
+        <p className="rounded-md border px-3 py-2 text-center text-sm text-muted-foreground">
+          Your session has expired. Please sign in again.
+        </p>
+      )}
 
-      {/* OAuth providers can be added here for OAuth-enabled templates */}
-      {/* Example:
-      <div className="relative">
-        <div className="absolute inset-0 flex items-center">
-          <span className="w-full border-t" />
-        </div>
-        <div className="relative flex justify-center text-xs uppercase">
-          <span className="bg-background px-2 text-muted-foreground">
-            Or continue with
-          </span>
-        </div>
-      </div>
-      <OAuthButtons />
-      */}
+      {/* Set by Better Auth when an OAuth or magic link sign-in fails */}
+      {error && (
+        <p className="rounded-md border border-destructive/50 px-3 py-2 text-center text-sm text-destructive" role="alert">
+          {error === "account_not_linked"
+            ? "An account with this email already exists. Sign in with your password instead."
+            : error === "INVALID_TOKEN" || error === "EXPIRED_TOKEN"
+              ? "That sign-in link has expired or was already used. Request a new one."
+              : "Sign-in with that provider failed. Please try again."}
+        </p>
+      )}
+
+      {showPasswordless ? (
+        <PasswordlessLoginForm mode={passwordlessMode} callbackUrl={safeCallbackUrl} />
+      ) : (
+        <LoginForm callbackUrl={safeCallbackUrl} lookupSso={lookupSsoAction} />
+      )}
+
+      {passwordlessMode && (
+        <p className="text-center text-sm">
+          <Link
+            href={`/login${switchParams.size > 0 ? `?${switchParams}` : ""}`}
+            className="text-muted-foreground underline-offset-4 hover:underline"
+          >
+            {showPasswordless
+              ? "Sign in with a password instead"
+              : passwordlessMode === "magic-link"
+                ? "Email me a sign-in link instead"
+                : "Email me a sign-in code instead"}
+          </Link>
+        </p>
+      )}
+
+      {/* Only shows providers with credentials in env (lib/auth/oauth.ts) */}
+      <OAuthButtons callbackUrl={safeCallbackUrl} />
 
       <p className="text-center text-sm text-muted-foreground">
         Don&apos;t have an account?{" "}
         <Link
-          href="/signup"
+          href={
+            safeCallbackUrl === "/"
+              ? "/signup"
+              : `/signup?callbackUrl=${encodeURIComponent(safeCallbackUrl)}`
+          }
           className="font-medium text-primary underline-offset-4 hover:underline"
         >
           Sign up
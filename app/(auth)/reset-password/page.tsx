@@ -0,0 +1,58 @@
+import Link from "next/link";
+import { ResetPasswordForm } from "@/components/auth/reset-password-form";
+import { buttonVariants } from "@/components/ui/button";
+
+/**
+ * Reset Password Page
+ *
+ * Better Auth checks the emailed token at /api/auth/reset-password/:token
+ * and redirects here with `?token=...`, or `?error=INVALID_TOKEN` when the
+ * link is expired or already used.
+ *
+ * @see skills/auth/SKILL.md for the password reset flow
+ */
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{
+    token?: string | string[];
+    error?: string | string[];
+  }>;
+}) {
+  const { token, error } = await searchParams;
+  const resolvedToken = Array.isArray(token) ? token[0] : token;
+
+  if (!resolvedToken || error) {
+    return (
+      <div className="space-y-6 text-center">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-semibold tracking-tight">
+            Link expired
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            This reset link is invalid or has already been used. Reset links
+            expire after one hour.
+          </p>
+        </div>
+        <Link href="/forgot-password" className={buttonVariants()}>
+          Request a new link
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          Choose a new password
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          You&apos;ll be signed out of all devices afterwards
+        </p>
+      </div>
+
+      <ResetPasswordForm token={resolvedToken} />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import Link from "next/link";
+import { OAuthButtons } from "@/components/auth/oauth-buttons";
 import { SignupForm } from "@/components/auth/signup-form";
 
 /**
@@ -27,10 +28,14 @@ function getSafeCallbackUrl(value?: string | string[]) {
 export default async function SignupPage({
   searchParams,
 }: {
-  searchParams: Promise<{ callbackUrl?: string | string[] }>;
+  searchParams: Promise<{
+    callbackUrl?: string | string[];
+    email?: string | string[];
+  }>;
 }) {
-  const { callbackUrl } = await searchParams;
+  const { callbackUrl, email } = await searchParams;
   const safeCallbackUrl = getSafeCallbackUrl(callbackUrl);
+  const defaultEmail = Array.isArray(email) ? email[0] : email;
   return (
     <div className="space-y-6">
       <div className="text-center space-y-2">
@@ -42,27 +47,19 @@ export default async function SignupPage({
         </p>
       </div>
 
-      <SignupForm callbackUrl={safeCallbackUrl} />
+      <SignupForm callbackUrl={safeCallbackUrl} defaultEmail={defaultEmail} />
 
-      {/* OAuth providers can be added here for OAuth-enabled templates */}
-      {/* Example:
-      <div className="relative">
-        <div className="absolute inset-0 flex items-center">
-          <span className="w-full border-t" />
-        </div>
-        <div className="relative flex justify-center text-xs uppercase">
-          <span className="bg-background px-2 text-muted-foreground">
-            Or continue with
-          </span>
-        </div>
-      </div>
-      <OAuthButtons />
-      */}
+      {/* Only shows providers with credentials in env (lib/auth/oauth.ts) */}
+      <OAuthButtons callbackUrl={safeCallbackUrl} />
 
       <p className="text-center text-sm text-muted-foreground">
         Already have an account?{" "}
         <Link
-          href="/login"
+          href={
+            safeCallbackUrl === "/"
+              ? "/login"
+              : `/login?callbackUrl=${encodeURIComponent(safeCallbackUrl)}`
+          }
           className="font-medium text-primary underline-offset-4 hover:underline"
         >
           Sign in
@@ -0,0 +1,52 @@
+import Link from "next/link";
+import { TwoFactorVerifyForm } from "@/components/auth/two-factor-verify-form";
+
+/**
+ * Verify 2FA Page
+ *
+ * Second sign-in step for users with two-factor enabled. LoginForm and
+ * twoFactorClient's onTwoFactorRedirect send users here; the pending
+ * sign-in lives in Better Auth's two-factor cookie until a code is verified.
+ *
+ * @see skills/auth/SKILL.md for 2FA configuration
+ */
+function getSafeCallbackUrl(value?: string | string[]) {
+  if (!value) return "/";
+  const resolved = Array.isArray(value) ? value[0] : value;
+  if (!resolved) return "/";
+  if (!resolved.startsWith("/")) return "/";
+  if (resolved.startsWith("//")) return "/";
+  return resolved;
+}
+
+export default async function VerifyTwoFactorPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ callbackUrl?: string | string[] }>;
+}) {
+  const { callbackUrl } = await searchParams;
+  const safeCallbackUrl = getSafeCallbackUrl(callbackUrl);
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          Two-factor verification
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Confirm it&apos;s you to finish signing in
+        </p>
+      </div>
+
+      <TwoFactorVerifyForm callbackUrl={safeCallbackUrl} />
+
+      <p className="text-center text-sm text-muted-foreground">
+        <Link
+          href="/login"
+          className="font-medium text-primary underline-offset-4 hover:underline"
+        >
+          Back to sign in
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import Link from "next/link";
+import { ResendVerificationButton } from "@/components/auth/resend-verification-button";
+import { buttonVariants } from "@/components/ui/button";
+import { getCurrentUser } from "@/lib/auth/server";
+
+/**
+ * Verify Email Page
+ *
+ * - After sign-up (or from the middleware): "check your inbox" + resend
+ * - After clicking the link: Better Auth verifies the token at
+ *   /api/auth/verify-email and redirects here with `?verified=true`, or
+ *   with `?error=token_expired|invalid_token|...`
+ *
+ * @see skills/auth/SKILL.md for email verification
+ */
+function getSafeCallbackUrl(value?: string | string[]) {
+  if (!value) return "/";
+  const resolved = Array.isArray(value) ? value[0] : value;
+  if (!resolved) return "/";
+  if (!resolved.startsWith("/")) return "/";
+  if (resolved.startsWith("//")) return "/";
+  return resolved;
+}
+
+const errorMessages: Record<string, { title: string; description: string }> = {
+  token_expired: {
+    title: "Link expired",
+    description: "Verification links expire after 24 hours. Send yourself a new one.",
+  },
+  unauthorized: {
+    title: "Wrong account",
+    description: "This link is for a different account than the one you're signed in to.",
+  },
+};
+
+const invalidLink = {
+  title: "Invalid link",
+  description: "This verification link is invalid or has already been used.",
+};
+
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<{
+    verified?: string | string[];
+    error?: string | string[];
+    email?: string | string[];
+    callbackUrl?: string | string[];
+  }>;
+}) {
+  const { verified, error, email, callbackUrl } = await searchParams;
+  const safeCallbackUrl = getSafeCallbackUrl(callbackUrl);
+  const user = await getCurrentUser();
+  const resolvedError = Array.isArray(error) ? error[0] : error;
+  const resendEmail = user?.email ?? (Array.isArray(email) ? email[0] : email);
+
+  if (resolvedError) {
+    const { title, description } = errorMessages[resolvedError] ?? invalidLink;
+    return (
+      <div className="space-y-6 text-center">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-semibold tracking-tight">{title}</h1>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+        <ResendVerificationButton email={resendEmail} callbackUrl={safeCallbackUrl} />
+      </div>
+    );
+  }
+
+  if (verified === "true" || user?.emailVerified) {
+    return (
+      <div className="space-y-6 text-center">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-semibold tracking-tight">Email verified</h1>
+          <p className="text-sm text-muted-foreground">
+            {user ? "You're all set." : "You can now sign in."}
+          </p>
+        </div>
+        <Link
+          href={
+            user ? safeCallbackUrl : `/login?callbackUrl=${encodeURIComponent(safeCallbackUrl)}`
+          }
+          className={buttonVariants({ className: "w-full" })}
+        >
+          {user ? "Continue" : "Sign in"}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 text-center">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Check your inbox</h1>
+        <p className="text-sm text-muted-foreground">
+          {resendEmail ? (
+            <>
+              We sent a verification link to{" "}
+              <span className="font-medium text-foreground">{resendEmail}</span>.
+            </>
+          ) : (
+            "We sent you a verification link."
+          )}{" "}
+          Click it to finish setting up your account.
+        </p>
+      </div>
+
+      <ResendVerificationButton email={resendEmail} callbackUrl={safeCallbackUrl} />
+
+      <p className="text-sm text-muted-foreground">
+        <Link
+          href="/login"
+          className="font-medium text-primary underline-offset-4 hover:underline"
+        >
+          Back to sign in
+        </Link>
+      </p>
+    </div>
+  );
+}
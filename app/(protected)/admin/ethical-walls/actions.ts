@@ -0,0 +1,180 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { getEthicalWallStore, type WallSubject, type WallTarget } from "@/lib/auth/ethical-walls";
+import { getMatterAccessStore } from "@/lib/auth/matter-access";
+import { AuthError, requirePermission } from "@/lib/auth/server";
+
+/**
+ * Ethical Wall Actions
+ *
+ * Only roles with `organization: ["update"]` (owners by default) can
+ * create or lift walls, and manage the screening groups walls can name.
+ * Walls can only name this organization's members, groups and matters.
+ */
+
+export interface WallFormState {
+  error?: string;
+  success?: boolean;
+}
+
+export interface ScreeningGroupFormState {
+  error?: string;
+  saved?: boolean;
+}
+
+function field(formData: FormData, name: string): string {
+  return String(formData.get(name) ?? "").trim();
+}
+
+export async function createWallAction(
+  _previous: WallFormState,
+  formData: FormData
+): Promise<WallFormState> {
+  try {
+    const { organizationId, user } = await requirePermission({ organization: ["update"] });
+
+    const subjectType = field(formData, "subjectType");
+    const subjectId = field(formData, "subjectId");
+    const targetType = field(formData, "targetType");
+    const targetId = field(formData, "targetId");
+    const reason = field(formData, "reason");
+
+    if (!subjectId || !targetId) {
+      return { error: "Choose who to screen and what to screen them from" };
+    }
+    if (!reason) {
+      return { error: "A reason is required for every ethical wall" };
+    }
+
+    const subject: WallSubject =
+      subjectType === "group"
+        ? { type: "group", groupId: subjectId }
+        : { type: "user", userId: subjectId };
+    const target: WallTarget =
+      targetType === "client"
+        ? { type: "client", clientId: targetId }
+        : { type: "matter", matterId: targetId };
+
+    const store = getEthicalWallStore();
+    if (subject.type === "group") {
+      const groups = await store.listGroups(organizationId);
+      if (!groups.some((group) => group.id === subject.groupId)) {
+        return { error: "Screening group not found" };
+      }
+    } else {
+      const { adapter } = await auth.$context;
+      const member = await adapter.findOne({
+        model: "member",
+        where: [
+          { field: "organizationId", value: organizationId },
+          { field: "userId", value: subject.userId },
+        ],
+      });
+      if (!member) {
+        return { error: "Only members of this organization can be screened" };
+      }
+    }
+    if (target.type === "matter") {
+      const matter = await getMatterAccessStore().getMatter(target.matterId);
+      if (matter?.organizationId !== organizationId) {
+        return { error: "Matter not found" };
+      }
+    }
+
+    await store.createWall({
+      organizationId,
+      subject,
+      target,
+      reason,
+      createdBy: user.id,
+    });
+
+    revalidatePath("/admin/ethical-walls");
+    return { success: true };
+  } catch (error) {
+    if (error instanceof AuthError) return { error: error.message };
+    throw error;
+  }
+}
+
+export async function removeWallAction(formData: FormData): Promise<void> {
+  const { organizationId } = await requirePermission({ organization: ["update"] });
+  const wallId = field(formData, "wallId");
+  if (wallId) {
+    await getEthicalWallStore().removeWall(organizationId, wallId);
+  }
+  revalidatePath("/admin/ethical-walls");
+}
+
+export async function saveScreeningGroupAction(
+  _previous: ScreeningGroupFormState,
+  formData: FormData
+): Promise<ScreeningGroupFormState> {
+  try {
+    const { organizationId } = await requirePermission({ organization: ["update"] });
+    const store = getEthicalWallStore();
+
+    const groupId = field(formData, "groupId");
+    const name = field(formData, "name");
+    const memberIds = [...new Set(formData.getAll("memberId").map(String))];
+
+    if (!name) {
+      return { error: "Give the group a name" };
+    }
+    if (memberIds.length === 0) {
+      return { error: "Choose at least one member" };
+    }
+
+    const { adapter } = await auth.$context;
+    const members = await adapter.findMany<{ userId: string }>({
+      model: "member",
+      where: [{ field: "organizationId", value: organizationId }],
+    });
+    const memberUserIds = new Set(members.map((member) => member.userId));
+    if (!memberIds.every((userId) => memberUserIds.has(userId))) {
+      return { error: "Only members of this organization can be in a screening group" };
+    }
+
+    if (groupId) {
+      const groups = await store.listGroups(organizationId);
+      if (!groups.some((group) => group.id === groupId)) {
+        return { error: "Screening group not found" };
+      }
+    }
+
+    await store.saveGroup({
+      id: groupId || crypto.randomUUID(),
+      organizationId,
+      name,
+      memberIds,
+    });
+
+    revalidatePath("/admin/ethical-walls");
+    return { saved: true };
+  } catch (error) {
+    if (error instanceof AuthError) return { error: error.message };
+    throw error;
+  }
+}
+
+export async function removeScreeningGroupAction(formData: FormData): Promise<void> {
+  const { organizationId } = await requirePermission({ organization: ["update"] });
+  const store = getEthicalWallStore();
+  const groupId = field(formData, "groupId");
+
+  // Removing the group would silently lift its walls
+  const walls = await store.listWalls(organizationId);
+  if (walls.some((wall) => wall.subject.type === "group" && wall.subject.groupId === groupId)) {
+    redirect(
+      `/admin/ethical-walls?error=${encodeURIComponent("Lift this group's walls before removing it")}`
+    );
+  }
+
+  if (groupId) {
+    await store.removeGroup(organizationId, groupId);
+  }
+  revalidatePath("/admin/ethical-walls");
+}
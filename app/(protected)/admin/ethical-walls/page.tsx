@@ -0,0 +1,185 @@
+import { headers } from "next/headers";
+import { EthicalWallForm } from "@/components/admin/ethical-wall-form";
+import { ScreeningGroupForm } from "@/components/admin/screening-group-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { getEthicalWallStore } from "@/lib/auth/ethical-walls";
+import { redirectOnAuthError, requirePermission } from "@/lib/auth/server";
+import {
+  createWallAction,
+  removeScreeningGroupAction,
+  removeWallAction,
+  saveScreeningGroupAction,
+} from "./actions";
+
+/**
+ * Ethical Walls Page
+ *
+ * Lists the organization's conflict screens and lets owners create or
+ * lift them, and manage the screening groups walls can name. Walls
+ * override every role grant in matter-level checks.
+ */
+export default async function EthicalWallsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string | string[] }>;
+}) {
+  const { organizationId } = await redirectOnAuthError(
+    () => requirePermission({ organization: ["update"] }),
+    "/admin/ethical-walls"
+  );
+  const { error } = await searchParams;
+
+  const store = getEthicalWallStore();
+  const [walls, groups, { members }] = await Promise.all([
+    store.listWalls(organizationId),
+    store.listGroups(organizationId),
+    auth.api.listMembers({
+      headers: await headers(),
+      query: { organizationId },
+    }),
+  ]);
+
+  const memberOptions = members.map((member) => ({
+    userId: member.userId,
+    name: member.user.name,
+    email: member.user.email,
+  }));
+  const userNames = new Map(memberOptions.map((member) => [member.userId, member.name]));
+  const groupNames = new Map(groups.map((group) => [group.id, group.name]));
+  const groupWallCounts = new Map(
+    groups.map((group) => [
+      group.id,
+      walls.filter((wall) => wall.subject.type === "group" && wall.subject.groupId === group.id)
+        .length,
+    ])
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Ethical walls</h1>
+        <p className="text-sm text-muted-foreground">
+          Screen members off matters or clients they must not work on.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {Array.isArray(error) ? error[0] : error}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New wall</CardTitle>
+          <CardDescription>
+            Screened members lose access to the matter and its documents immediately.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EthicalWallForm members={memberOptions} groups={groups} action={createWallAction} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active walls</CardTitle>
+          <CardDescription>
+            {walls.length === 0 ? "No walls yet." : `${walls.length} active`}
+          </CardDescription>
+        </CardHeader>
+        {walls.length > 0 && (
+          <CardContent>
+            <ul className="divide-y">
+              {walls.map((wall) => (
+                <li key={wall.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {wall.subject.type === "user"
+                        ? userNames.get(wall.subject.userId) ?? wall.subject.userId
+                        : groupNames.get(wall.subject.groupId) ?? wall.subject.groupId}
+                      {" "}
+                      <span className="text-muted-foreground">screened from</span>{" "}
+                      {wall.target.type === "matter"
+                        ? `matter ${wall.target.matterId}`
+                        : `client ${wall.target.clientId}`}
+                    </p>
+                    <p className="text-muted-foreground">{wall.reason}</p>
+                    <div className="flex gap-2">
+                      <Badge variant="outline">{wall.subject.type}</Badge>
+                      <Badge variant="outline">
+                        {wall.createdAt.toLocaleDateString()}
+                      </Badge>
+                    </div>
+                  </div>
+                  <form action={removeWallAction}>
+                    <input type="hidden" name="wallId" value={wall.id} />
+                    <Button type="submit" variant="destructive" size="sm">
+                      Lift wall
+                    </Button>
+                  </form>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New screening group</CardTitle>
+          <CardDescription>
+            Screen several members together, then pick the group when creating a wall.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScreeningGroupForm members={memberOptions} action={saveScreeningGroupAction} />
+        </CardContent>
+      </Card>
+
+      {groups.map((group) => {
+        const wallCount = groupWallCounts.get(group.id) ?? 0;
+
+        return (
+          <Card key={group.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {group.name}
+                <Badge variant="outline">
+                  {wallCount === 1 ? "1 wall" : `${wallCount} walls`}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                {group.memberIds.length === 1
+                  ? "1 member"
+                  : `${group.memberIds.length} members`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ScreeningGroupForm
+                group={group}
+                members={memberOptions}
+                action={saveScreeningGroupAction}
+              />
+              <form action={removeScreeningGroupAction}>
+                <input type="hidden" name="groupId" value={group.id} />
+                <Button type="submit" variant="destructive" size="sm" disabled={wallCount > 0}>
+                  Remove Group
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
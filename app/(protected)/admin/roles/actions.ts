@@ -0,0 +1,105 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { parsePermissionMatrix, validateCustomRoleName } from "@/lib/auth/custom-roles";
+import { AuthError, requirePermission } from "@/lib/auth/server";
+
+/**
+ * Custom Role Actions
+ *
+ * Each action needs the matching `ac` permission (owners by default).
+ * Better Auth also refuses a role granting anything the caller doesn't
+ * hold, and lib/auth/index.ts refuses deleting a role members still have.
+ */
+
+export interface RoleFormState {
+  error?: string;
+  saved?: boolean;
+}
+
+function field(formData: FormData, name: string): string {
+  return String(formData.get(name) ?? "").trim();
+}
+
+function permissionFrom(formData: FormData) {
+  return parsePermissionMatrix(formData.getAll("permission").map(String));
+}
+
+function errorMessage(error: unknown, fallback: string): string | null {
+  if (error instanceof AuthError) return error.message;
+  if (error instanceof Error && "body" in error) return error.message || fallback;
+  return null;
+}
+
+export async function createRoleAction(
+  _previous: RoleFormState,
+  formData: FormData
+): Promise<RoleFormState> {
+  try {
+    const { organizationId } = await requirePermission({ ac: ["create"] });
+
+    const role = field(formData, "role").toLowerCase();
+    const nameError = validateCustomRoleName(role);
+    if (nameError) return { error: nameError };
+
+    const permission = permissionFrom(formData);
+    if (Object.keys(permission).length === 0) {
+      return { error: "Choose at least one permission" };
+    }
+
+    await auth.api.createOrgRole({
+      headers: await headers(),
+      body: { role, permission, organizationId },
+    });
+    revalidatePath("/admin/roles");
+    return { saved: true };
+  } catch (error) {
+    const message = errorMessage(error, "Failed to create role");
+    if (message === null) throw error;
+    return { error: message };
+  }
+}
+
+export async function updateRoleAction(
+  _previous: RoleFormState,
+  formData: FormData
+): Promise<RoleFormState> {
+  try {
+    const { organizationId } = await requirePermission({ ac: ["update"] });
+
+    const permission = permissionFrom(formData);
+    if (Object.keys(permission).length === 0) {
+      return { error: "Choose at least one permission" };
+    }
+
+    await auth.api.updateOrgRole({
+      headers: await headers(),
+      body: { roleId: field(formData, "roleId"), data: { permission }, organizationId },
+    });
+    revalidatePath("/admin/roles");
+    return { saved: true };
+  } catch (error) {
+    const message = errorMessage(error, "Failed to save role");
+    if (message === null) throw error;
+    return { error: message };
+  }
+}
+
+export async function deleteRoleAction(formData: FormData): Promise<void> {
+  let message: string | null = null;
+  try {
+    const { organizationId } = await requirePermission({ ac: ["delete"] });
+    await auth.api.deleteOrgRole({
+      headers: await headers(),
+      body: { roleId: field(formData, "roleId"), organizationId },
+    });
+  } catch (error) {
+    message = errorMessage(error, "Failed to delete role");
+    if (message === null) throw error;
+  }
+  revalidatePath("/admin/roles");
+  if (message) redirect(`/admin/roles?error=${encodeURIComponent(message)}`);
+}
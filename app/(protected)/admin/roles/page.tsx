@@ -0,0 +1,145 @@
+import { RolePermissionsForm } from "@/components/admin/role-permissions-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import {
+  countMembersWithRole,
+  getGrantedPermissions,
+  listCustomRoles,
+  MAX_CUSTOM_ROLES_PER_ORGANIZATION,
+  rolesHavePermission,
+} from "@/lib/auth/custom-roles";
+import { RoleDescriptions, RoleHierarchy } from "@/lib/auth/roles";
+import { redirectOnAuthError, requirePermission } from "@/lib/auth/server";
+import { createRoleAction, deleteRoleAction, updateRoleAction } from "./actions";
+
+/**
+ * Roles Page
+ *
+ * Lists the built-in legal roles and the organization's custom roles,
+ * with a permissions matrix for creating and editing custom ones.
+ * Reading needs `ac: ["read"]`; each change needs its own `ac` action.
+ */
+export default async function RolesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string | string[] }>;
+}) {
+  const caller = await redirectOnAuthError(
+    () => requirePermission({ ac: ["read"] }),
+    "/admin/roles"
+  );
+  const { organizationId } = caller;
+  const { error } = await searchParams;
+
+  const canCreate = rolesHavePermission(caller, { ac: ["create"] });
+  const canUpdate = rolesHavePermission(caller, { ac: ["update"] });
+  const canDelete = rolesHavePermission(caller, { ac: ["delete"] });
+  const grantable = getGrantedPermissions(caller);
+
+  const { adapter } = await auth.$context;
+  const customRoles = await listCustomRoles(adapter, organizationId);
+  const memberCounts = await Promise.all(
+    customRoles.map((customRole) =>
+      countMembersWithRole(adapter, organizationId, customRole.role)
+    )
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Roles</h1>
+        <p className="text-sm text-muted-foreground">
+          Define roles for positions the built-in ones don&apos;t cover, such as of
+          counsel or IT admin.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {Array.isArray(error) ? error[0] : error}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Built-in roles</CardTitle>
+          <CardDescription>These can&apos;t be changed.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y">
+            {[...RoleHierarchy].reverse().map((role) => (
+              <li key={role} className="flex items-center justify-between gap-4 py-2">
+                <span className="text-sm font-medium capitalize">{role}</span>
+                <span className="text-sm text-muted-foreground">{RoleDescriptions[role]}</span>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      {canCreate && customRoles.length < MAX_CUSTOM_ROLES_PER_ORGANIZATION && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New role</CardTitle>
+            <CardDescription>
+              Assign it on the members page once it&apos;s created. You can only grant
+              permissions you hold yourself.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RolePermissionsForm grantable={grantable} action={createRoleAction} />
+          </CardContent>
+        </Card>
+      )}
+
+      {customRoles.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No custom roles yet.</p>
+      ) : (
+        customRoles.map((customRole, index) => (
+          <Card key={customRole.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {customRole.role}
+                <Badge variant="outline">
+                  {memberCounts[index] === 1 ? "1 member" : `${memberCounts[index]} members`}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                Created {customRole.createdAt.toLocaleDateString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <RolePermissionsForm
+                role={customRole}
+                grantable={grantable}
+                readOnly={!canUpdate}
+                action={updateRoleAction}
+              />
+              {canDelete && (
+                <form action={deleteRoleAction}>
+                  <input type="hidden" name="roleId" value={customRole.id} />
+                  <Button
+                    type="submit"
+                    variant="destructive"
+                    size="sm"
+                    disabled={memberCounts[index] > 0}
+                  >
+                    Delete Role
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { AuthError, requirePermission, requireRecentAuthentication } from "@/lib/auth/server";
+import { createScimToken, getScimStore } from "@/lib/auth/scim";
+
+/**
+ * SCIM Token Actions
+ *
+ * Only roles with `organization: ["update"]` (owners by default) can
+ * create or revoke the bearer tokens the firm's IdP provisions with.
+ * Creating one needs a recently confirmed password.
+ */
+
+export interface ScimTokenFormState {
+  error?: string;
+  /** The new token - shown once, never stored in plain text */
+  token?: string;
+}
+
+export async function createScimTokenAction(): Promise<ScimTokenFormState> {
+  try {
+    const { organizationId, user } = await requirePermission({ organization: ["update"] });
+    await requireRecentAuthentication();
+    const { token } = await createScimToken(organizationId, user.id);
+
+    revalidatePath("/admin/scim");
+    return { token };
+  } catch (error) {
+    if (error instanceof AuthError) return { error: error.message };
+    throw error;
+  }
+}
+
+export async function revokeScimTokenAction(formData: FormData): Promise<void> {
+  const { organizationId } = await requirePermission({ organization: ["update"] });
+  const tokenId = String(formData.get("tokenId") ?? "");
+  if (tokenId) {
+    await getScimStore().removeToken(organizationId, tokenId);
+  }
+  revalidatePath("/admin/scim");
+}
@@ -0,0 +1,121 @@
+import { ScimTokenForm } from "@/components/admin/scim-token-form";
+import { ReauthenticationGate } from "@/components/auth/reauthentication-gate";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { DEFAULT_SCIM_ROLE, getScimStore, ScimGroupNames, ScimGroupRoles } from "@/lib/auth/scim";
+import {
+  getReauthenticationStatus,
+  redirectOnAuthError,
+  requirePermission,
+} from "@/lib/auth/server";
+import { reauthenticateAction } from "../../settings/security/actions";
+import { createScimTokenAction, revokeScimTokenAction } from "./actions";
+
+/**
+ * SCIM Provisioning Page
+ *
+ * Gives owners the endpoint and bearer tokens for provisioning members
+ * from the firm's identity provider, and the group names that map to roles.
+ */
+export default async function ScimPage() {
+  const { organizationId } = await redirectOnAuthError(
+    () => requirePermission({ organization: ["update"] }),
+    "/admin/scim"
+  );
+
+  const [tokens, reauthentication] = await Promise.all([
+    getScimStore().listTokens(organizationId),
+    getReauthenticationStatus(),
+  ]);
+  const baseUrl = `${process.env.BETTER_AUTH_URL || "http://localhost:3000"}/api/scim/v2`;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">SCIM provisioning</h1>
+        <p className="text-sm text-muted-foreground">
+          Add and remove members from your identity provider instead of sending invitations.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Connection</CardTitle>
+          <CardDescription>Enter these in your identity provider&apos;s SCIM settings.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <p className="text-muted-foreground">SCIM base URL</p>
+            <code className="block break-all rounded bg-muted px-2 py-1">{baseUrl}</code>
+          </div>
+          <div className="space-y-1">
+            <p className="text-muted-foreground">
+              Push groups with these names to set roles. Users in no group
+              join as {ScimGroupNames[DEFAULT_SCIM_ROLE]}.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {ScimGroupRoles.map((role) => (
+                <Badge key={role} variant="outline">
+                  {ScimGroupNames[role]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <p className="text-muted-foreground">
+            Deactivating a user removes them from the firm and signs them out
+            everywhere. Owners are never changed by SCIM.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bearer tokens</CardTitle>
+          <CardDescription>
+            {tokens.length === 0 ? "No tokens yet." : `${tokens.length} active`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tokens.length > 0 && (
+            <ul className="divide-y">
+              {tokens.map((token) => (
+                <li key={token.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="space-y-1">
+                    <p className="font-mono text-sm">{token.prefix}...</p>
+                    <p className="text-muted-foreground">
+                      Created {token.createdAt.toLocaleDateString()}
+                      {" - "}
+                      {token.lastUsedAt
+                        ? `last used ${token.lastUsedAt.toLocaleString()}`
+                        : "never used"}
+                    </p>
+                  </div>
+                  <form action={revokeScimTokenAction}>
+                    <input type="hidden" name="tokenId" value={token.id} />
+                    <Button type="submit" variant="destructive" size="sm">
+                      Revoke
+                    </Button>
+                  </form>
+                </li>
+              ))}
+            </ul>
+          )}
+          <ReauthenticationGate
+            until={reauthentication.until.toISOString()}
+            hasPassword={reauthentication.hasPassword}
+            action={reauthenticateAction}
+          >
+            <ScimTokenForm action={createScimTokenAction} />
+          </ReauthenticationGate>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import {
+  isTwoFactorRequirement,
+  MAX_TWO_FACTOR_GRACE_DAYS,
+  updateOrganizationSecuritySettings,
+} from "@/lib/auth/organization-security";
+import { RoleHierarchy } from "@/lib/auth/roles";
+import { AuthError, requirePermission, requireRecentAuthentication } from "@/lib/auth/server";
+import {
+  type SessionLifetime,
+  type SessionPolicy,
+  SessionPolicyError,
+  validateSessionPolicy,
+} from "@/lib/auth/session-policy";
+
+/**
+ * Organization Security Actions
+ *
+ * Only roles with `organization: ["update"]` (owners by default) can
+ * change the firm's sign-in settings, and only with a recently confirmed
+ * password.
+ */
+
+/**
+ * Blank means no limit (or, for a role, the firm default)
+ */
+function numberField(formData: FormData, name: string): number | null {
+  const value = String(formData.get(name) ?? "").trim();
+  return value === "" ? null : Number(value);
+}
+
+/**
+ * Run an action, sending refusals back to the page as `?error=`
+ */
+async function runSecurityAction(fn: () => Promise<unknown>): Promise<void> {
+  let message: string | null = null;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SessionPolicyError) {
+      message = error.message;
+    } else {
+      throw error;
+    }
+  }
+  revalidatePath("/admin/security");
+  if (message) redirect(`/admin/security?error=${encodeURIComponent(message)}`);
+}
+
+export async function updateSecuritySettingsAction(formData: FormData): Promise<void> {
+  await runSecurityAction(async () => {
+    const { organizationId } = await requirePermission({ organization: ["update"] });
+    await requireRecentAuthentication();
+    await updateOrganizationSecuritySettings(organizationId, {
+      passkeysSatisfyTwoFactor: formData.get("passkeysSatisfyTwoFactor") === "on",
+    });
+  });
+}
+
+export async function updateTwoFactorPolicyAction(formData: FormData): Promise<void> {
+  await runSecurityAction(async () => {
+    const { organizationId } = await requirePermission({ organization: ["update"] });
+    await requireRecentAuthentication();
+    const requirement = String(formData.get("twoFactorRequirement") ?? "");
+    const graceDays = Number.parseInt(String(formData.get("twoFactorGraceDays") ?? ""), 10);
+    if (!isTwoFactorRequirement(requirement) || !Number.isFinite(graceDays)) return;
+
+    await updateOrganizationSecuritySettings(organizationId, {
+      twoFactorRequirement: requirement,
+      twoFactorGraceDays: Math.min(Math.max(graceDays, 0), MAX_TWO_FACTOR_GRACE_DAYS),
+    });
+  });
+}
+
+export async function updateSessionPolicyAction(formData: FormData): Promise<void> {
+  await runSecurityAction(async () => {
+    const { organizationId } = await requirePermission({ organization: ["update"] });
+    await requireRecentAuthentication();
+
+    const roles: SessionPolicy["roles"] = {};
+    for (const role of RoleHierarchy) {
+      const lifetime: Partial<SessionLifetime> = {};
+      const idleTimeoutMinutes = numberField(formData, `${role}IdleTimeoutMinutes`);
+      const maxLifetimeHours = numberField(formData, `${role}MaxLifetimeHours`);
+      if (idleTimeoutMinutes !== null) lifetime.idleTimeoutMinutes = idleTimeoutMinutes;
+      if (maxLifetimeHours !== null) lifetime.maxLifetimeHours = maxLifetimeHours;
+      if (Object.keys(lifetime).length > 0) roles[role] = lifetime;
+    }
+
+    const sessionPolicy = validateSessionPolicy({
+      default: {
+        idleTimeoutMinutes: numberField(formData, "defaultIdleTimeoutMinutes"),
+        maxLifetimeHours: numberField(formData, "defaultMaxLifetimeHours"),
+      },
+      roles,
+      reauthenticationMinutes: numberField(formData, "reauthenticationMinutes") ?? Number.NaN,
+    });
+    await updateOrganizationSecuritySettings(organizationId, { sessionPolicy });
+  });
+}
@@ -0,0 +1,341 @@
+import { ReauthenticationGate } from "@/components/auth/reauthentication-gate";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getOrganizationSecuritySettings,
+  listMembersMissingTwoFactor,
+  listSignInMethodsSkippingTwoFactor,
+  MAX_TWO_FACTOR_GRACE_DAYS,
+  type TwoFactorRequirement,
+} from "@/lib/auth/organization-security";
+import { RoleDescriptions, RoleHierarchy } from "@/lib/auth/roles";
+import {
+  getReauthenticationStatus,
+  redirectOnAuthError,
+  requirePermission,
+} from "@/lib/auth/server";
+import {
+  MAX_IDLE_TIMEOUT_MINUTES,
+  MAX_REAUTHENTICATION_MINUTES,
+  MAX_SESSION_LIFETIME_HOURS,
+  MIN_IDLE_TIMEOUT_MINUTES,
+  MIN_REAUTHENTICATION_MINUTES,
+} from "@/lib/auth/session-policy";
+import { reauthenticateAction } from "../../settings/security/actions";
+import {
+  updateSecuritySettingsAction,
+  updateSessionPolicyAction,
+  updateTwoFactorPolicyAction,
+} from "./actions";
+
+const requirementOptions: { label: string; value: TwoFactorRequirement }[] = [
+  { label: "Optional", value: "off" },
+  { label: "Associates and above", value: "associate-and-above" },
+  { label: "Everyone", value: "everyone" },
+];
+
+/**
+ * "of_counsel" -> "Of counsel"
+ */
+function roleLabel(role: string): string {
+  const words = role.replaceAll("_", " ");
+  return `${words.charAt(0).toUpperCase()}${words.slice(1)}`;
+}
+
+/**
+ * Organization Security Page
+ *
+ * Firm-wide sign-in settings for owners: the 2FA requirement with a
+ * report of members who still need to enroll, passkeys, and how long
+ * sessions last per role. Saving asks for the password again once the
+ * re-authentication window has passed.
+ */
+export default async function OrganizationSecurityPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string | string[] }>;
+}) {
+  const { organizationId } = await redirectOnAuthError(
+    () => requirePermission({ organization: ["update"] }),
+    "/admin/security"
+  );
+  const { error } = await searchParams;
+  const [settings, missing, reauthentication] = await Promise.all([
+    getOrganizationSecuritySettings(organizationId),
+    listMembersMissingTwoFactor(organizationId),
+    getReauthenticationStatus(),
+  ]);
+  const { sessionPolicy } = settings;
+  const singleFactorMethods = listSignInMethodsSkippingTwoFactor(settings);
+  const gate = {
+    until: reauthentication.until.toISOString(),
+    hasPassword: reauthentication.hasPassword,
+    action: reauthenticateAction,
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Security</h1>
+        <p className="text-sm text-muted-foreground">
+          Sign-in requirements for everyone in your firm.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {Array.isArray(error) ? error[0] : error}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-factor authentication</CardTitle>
+          <CardDescription>
+            Members the requirement applies to have a grace period to enroll,
+            counted from when it was turned on or they joined. After that they
+            can only reach their security settings until they enroll.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ReauthenticationGate {...gate}>
+            <form action={updateTwoFactorPolicyAction} className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="twoFactorRequirement">Required for</Label>
+                <Select
+                  name="twoFactorRequirement"
+                  items={requirementOptions}
+                  defaultValue={settings.twoFactorRequirement}
+                >
+                  <SelectTrigger id="twoFactorRequirement" className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {requirementOptions.map((item) => (
+                        <SelectItem key={item.value} value={item.value}>
+                          {item.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="twoFactorGraceDays">Grace period (days)</Label>
+                <Input
+                  id="twoFactorGraceDays"
+                  name="twoFactorGraceDays"
+                  type="number"
+                  min={0}
+                  max={MAX_TWO_FACTOR_GRACE_DAYS}
+                  defaultValue={settings.twoFactorGraceDays}
+                  className="w-28"
+                  required
+                />
+              </div>
+              <Button type="submit" variant="outline" size="sm">
+                Save
+              </Button>
+            </form>
+          </ReauthenticationGate>
+
+          {singleFactorMethods.length > 0 && (
+            <p className="text-sm text-muted-foreground" role="note">
+              Signing in with {singleFactorMethods.join(", ")} never asks for a
+              code. The requirement makes members enroll, but those sign-ins
+              stay single-factor - turn the methods off for strict 2FA.
+            </p>
+          )}
+
+          {settings.twoFactorRequirement !== "off" && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-medium">Not yet enrolled</h2>
+              {missing.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Everyone the requirement applies to has enrolled.
+                </p>
+              ) : (
+                <ul className="divide-y">
+                  {missing.map((member) => (
+                    <li key={member.userId} className="flex items-center justify-between gap-4 py-3">
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium">{member.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {member.email} - {member.roles.join(", ")}
+                        </p>
+                      </div>
+                      <Badge variant={member.overdue ? "destructive" : "outline"}>
+                        {member.overdue
+                          ? "Overdue"
+                          : `Due ${member.deadline?.toLocaleDateString()}`}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Passkeys</CardTitle>
+          <CardDescription>
+            A passkey combines the member&apos;s device with their fingerprint,
+            face or PIN, so it can stand in for an authenticator app.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReauthenticationGate {...gate}>
+            <form action={updateSecuritySettingsAction} className="flex flex-wrap items-center gap-4">
+              <Label className="font-normal">
+                <input
+                  type="checkbox"
+                  name="passkeysSatisfyTwoFactor"
+                  defaultChecked={settings.passkeysSatisfyTwoFactor}
+                />
+                Accept a passkey as two-factor authentication
+              </Label>
+              <Button type="submit" variant="outline" size="sm">
+                Save
+              </Button>
+            </form>
+          </ReauthenticationGate>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sessions</CardTitle>
+          <CardDescription>
+            Sign members out after a stretch without activity or a set time
+            after signing in - useful on shared workstations. Leave a field
+            blank for no limit; a blank role field uses the firm default. A
+            member with several roles gets the strictest limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReauthenticationGate {...gate}>
+            <form action={updateSessionPolicyAction} className="space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-muted-foreground">
+                    <tr className="border-b">
+                      <th className="py-2 pr-4 font-medium">Applies to</th>
+                      <th className="py-2 pr-4 font-medium">Idle timeout (minutes)</th>
+                      <th className="py-2 font-medium">Max lifetime (hours)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    <tr>
+                      <td className="py-3 pr-4">
+                        <p className="font-medium">Firm default</p>
+                        <p className="text-muted-foreground">Every role without its own limit</p>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <Input
+                          name="defaultIdleTimeoutMinutes"
+                          type="number"
+                          min={MIN_IDLE_TIMEOUT_MINUTES}
+                          max={MAX_IDLE_TIMEOUT_MINUTES}
+                          defaultValue={sessionPolicy.default.idleTimeoutMinutes ?? ""}
+                          placeholder="No limit"
+                          aria-label="Firm default idle timeout"
+                          className="w-32"
+                        />
+                      </td>
+                      <td className="py-3">
+                        <Input
+                          name="defaultMaxLifetimeHours"
+                          type="number"
+                          min={1}
+                          max={MAX_SESSION_LIFETIME_HOURS}
+                          defaultValue={sessionPolicy.default.maxLifetimeHours ?? ""}
+                          placeholder="No limit"
+                          aria-label="Firm default max lifetime"
+                          className="w-32"
+                        />
+                      </td>
+                    </tr>
+                    {RoleHierarchy.map((role) => (
+                      <tr key={role}>
+                        <td className="py-3 pr-4">
+                          <p className="font-medium">{roleLabel(role)}</p>
+                          <p className="text-muted-foreground">{RoleDescriptions[role]}</p>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <Input
+                            name={`${role}IdleTimeoutMinutes`}
+                            type="number"
+                            min={MIN_IDLE_TIMEOUT_MINUTES}
+                            max={MAX_IDLE_TIMEOUT_MINUTES}
+                            defaultValue={sessionPolicy.roles[role]?.idleTimeoutMinutes ?? ""}
+                            placeholder="Default"
+                            aria-label={`${roleLabel(role)} idle timeout`}
+                            className="w-32"
+                          />
+                        </td>
+                        <td className="py-3">
+                          <Input
+                            name={`${role}MaxLifetimeHours`}
+                            type="number"
+                            min={1}
+                            max={MAX_SESSION_LIFETIME_HOURS}
+                            defaultValue={sessionPolicy.roles[role]?.maxLifetimeHours ?? ""}
+                            placeholder="Default"
+                            aria-label={`${roleLabel(role)} max lifetime`}
+                            className="w-32"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reauthenticationMinutes">
+                    Confirm password for sensitive actions after (minutes)
+                  </Label>
+                  <Input
+                    id="reauthenticationMinutes"
+                    name="reauthenticationMinutes"
+                    type="number"
+                    min={MIN_REAUTHENTICATION_MINUTES}
+                    max={MAX_REAUTHENTICATION_MINUTES}
+                    defaultValue={sessionPolicy.reauthenticationMinutes}
+                    className="w-28"
+                    required
+                  />
+                </div>
+                <Button type="submit" variant="outline" size="sm">
+                  Save
+                </Button>
+              </div>
+            </form>
+          </ReauthenticationGate>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
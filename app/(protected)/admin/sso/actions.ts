@@ -0,0 +1,159 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { isLegalRole } from "@/lib/auth/roles";
+import { AuthError, requirePermission } from "@/lib/auth/server";
+import {
+  createSsoConnectionSettings,
+  findVerifiedSsoConnection,
+  getSsoSettingsStore,
+  normalizeDomain,
+  verifySsoDomain,
+} from "@/lib/auth/sso";
+
+/**
+ * SSO Connection Actions
+ *
+ * Only roles with `organization: ["update"]` (owners by default) can
+ * manage their organization's SSO connections. `/sso/register` is disabled
+ * over HTTP, so this is the only way connections get created.
+ */
+
+export interface SsoFormState {
+  error?: string;
+  success?: boolean;
+}
+
+function field(formData: FormData, name: string): string {
+  return String(formData.get(name) ?? "").trim();
+}
+
+/**
+ * Load one of the organization's connections, or throw if it isn't theirs
+ */
+async function requireOwnConnection(formData: FormData) {
+  const { organizationId } = await requirePermission({ organization: ["update"] });
+  const providerId = field(formData, "providerId");
+  const settings = await getSsoSettingsStore().get(providerId);
+  if (!settings || settings.organizationId !== organizationId) {
+    throw new Error("SSO connection not found");
+  }
+  return settings;
+}
+
+export async function createSsoConnectionAction(
+  _previous: SsoFormState,
+  formData: FormData
+): Promise<SsoFormState> {
+  try {
+    const { organizationId } = await requirePermission({ organization: ["update"] });
+
+    const type = field(formData, "type") === "saml" ? "saml" : "oidc";
+    const domain = normalizeDomain(field(formData, "domain"));
+    const issuer = field(formData, "issuer");
+    const defaultRole = field(formData, "defaultRole");
+
+    if (!domain.includes(".")) {
+      return { error: "Enter your firm's email domain, e.g. smithlaw.com" };
+    }
+    if (!issuer) {
+      return { error: "The issuer URL is required" };
+    }
+    if (!isLegalRole(defaultRole) || defaultRole === "owner") {
+      return { error: "Choose a default role for new members" };
+    }
+
+    // Unverified claims by other organizations don't block the domain
+    const store = getSsoSettingsStore();
+    const claims = await store.listByDomain(domain);
+    if (claims.some((settings) => settings.organizationId === organizationId)) {
+      return { error: `You already have an SSO connection for ${domain}` };
+    }
+    if (await findVerifiedSsoConnection(domain)) {
+      return { error: `${domain} already has an SSO connection` };
+    }
+
+    // Several organizations can claim a domain until one verifies it
+    const providerId = `${domain.replace(/[^a-z0-9]+/g, "-")}-${type}-${crypto.randomUUID().slice(0, 8)}`;
+    const baseUrl = process.env.BETTER_AUTH_URL || "http://localhost:3000";
+
+    if (type === "oidc") {
+      const clientId = field(formData, "clientId");
+      const clientSecret = field(formData, "clientSecret");
+      if (!clientId || !clientSecret) {
+        return { error: "Client ID and client secret are required for OIDC" };
+      }
+      await auth.api.registerSSOProvider({
+        headers: await headers(),
+        body: { providerId, issuer, domain, organizationId, oidcConfig: { clientId, clientSecret } },
+      });
+    } else {
+      const entryPoint = field(formData, "entryPoint");
+      const cert = field(formData, "cert");
+      if (!entryPoint || !cert) {
+        return { error: "SSO URL and signing certificate are required for SAML" };
+      }
+      await auth.api.registerSSOProvider({
+        headers: await headers(),
+        body: {
+          providerId,
+          issuer,
+          domain,
+          organizationId,
+          samlConfig: {
+            entryPoint,
+            cert,
+            callbackUrl: `${baseUrl}/api/auth/sso/saml2/callback/${providerId}`,
+            spMetadata: {},
+          },
+        },
+      });
+    }
+
+    await store.save(
+      createSsoConnectionSettings({ providerId, organizationId, domain, defaultRole })
+    );
+
+    revalidatePath("/admin/sso");
+    return { success: true };
+  } catch (error) {
+    if (error instanceof AuthError) return { error: error.message };
+    if (error instanceof Error && "body" in error) {
+      return { error: error.message || "The identity provider configuration was rejected" };
+    }
+    throw error;
+  }
+}
+
+export async function updateSsoSettingsAction(formData: FormData): Promise<void> {
+  const settings = await requireOwnConnection(formData);
+  const defaultRole = field(formData, "defaultRole");
+
+  await getSsoSettingsStore().save({
+    ...settings,
+    defaultRole: isLegalRole(defaultRole) && defaultRole !== "owner" ? defaultRole : settings.defaultRole,
+    // Enforcement only takes effect once the domain is verified
+    enforceSso: formData.get("enforceSso") === "on",
+  });
+  revalidatePath("/admin/sso");
+}
+
+export async function verifySsoDomainAction(formData: FormData): Promise<void> {
+  const settings = await requireOwnConnection(formData);
+  await verifySsoDomain(settings.providerId);
+  revalidatePath("/admin/sso");
+}
+
+export async function removeSsoConnectionAction(formData: FormData): Promise<void> {
+  const settings = await requireOwnConnection(formData);
+  // The settings store finds the organization through the ssoProvider row
+  await getSsoSettingsStore().remove(settings.providerId);
+  const { adapter } = await auth.$context;
+  await adapter.delete({
+    model: "ssoProvider",
+    where: [{ field: "providerId", value: settings.providerId }],
+  });
+  revalidatePath("/admin/sso");
+}
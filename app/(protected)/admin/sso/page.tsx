@@ -0,0 +1,194 @@
+import { SsoConnectionForm } from "@/components/admin/sso-connection-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { auth } from "@/lib/auth";
+import { RoleHierarchy } from "@/lib/auth/roles";
+import { redirectOnAuthError, requirePermission } from "@/lib/auth/server";
+import { DEFAULT_SSO_ROLE, getSsoSettingsStore, SSO_VERIFICATION_PREFIX } from "@/lib/auth/sso";
+import {
+  createSsoConnectionAction,
+  removeSsoConnectionAction,
+  updateSsoSettingsAction,
+  verifySsoDomainAction,
+} from "./actions";
+
+const roleOptions = RoleHierarchy.filter((role) => role !== "owner").map((role) => ({
+  label: `${role.charAt(0).toUpperCase()}${role.slice(1)}`,
+  value: role,
+}));
+
+/**
+ * Single Sign-On Page
+ *
+ * Lets owners connect the firm's identity provider (OIDC or SAML), prove
+ * they own the email domain, and make SSO the only way to sign in.
+ */
+export default async function SsoPage() {
+  const { organizationId } = await redirectOnAuthError(
+    () => requirePermission({ organization: ["update"] }),
+    "/admin/sso"
+  );
+
+  const { adapter } = await auth.$context;
+  const [connections, providers] = await Promise.all([
+    getSsoSettingsStore().listForOrganization(organizationId),
+    adapter.findMany<{ providerId: string; issuer: string; samlConfig?: string | null }>({
+      model: "ssoProvider",
+      where: [{ field: "organizationId", value: organizationId }],
+    }),
+  ]);
+  const providerById = new Map(providers.map((provider) => [provider.providerId, provider]));
+  const baseUrl = process.env.BETTER_AUTH_URL || "http://localhost:3000";
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Single sign-on</h1>
+        <p className="text-sm text-muted-foreground">
+          Let members sign in with your firm&apos;s identity provider.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New connection</CardTitle>
+          <CardDescription>
+            Emails at the domain are routed to this provider from the sign-in page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SsoConnectionForm defaultRole={DEFAULT_SSO_ROLE} action={createSsoConnectionAction} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Connections</CardTitle>
+          <CardDescription>
+            {connections.length === 0 ? "No connections yet." : `${connections.length} configured`}
+          </CardDescription>
+        </CardHeader>
+        {connections.length > 0 && (
+          <CardContent>
+            <ul className="divide-y">
+              {connections.map((connection) => {
+                const provider = providerById.get(connection.providerId);
+                const isSaml = Boolean(provider?.samlConfig);
+                const callbackUrl = isSaml
+                  ? `${baseUrl}/api/auth/sso/saml2/callback/${connection.providerId}`
+                  : `${baseUrl}/api/auth/sso/callback/${connection.providerId}`;
+                const verified = connection.domainVerifiedAt !== null;
+
+                return (
+                  <li key={connection.providerId} className="space-y-3 py-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <p className="font-medium">{connection.domain}</p>
+                        <p className="text-muted-foreground">{provider?.issuer}</p>
+                        <div className="flex gap-2">
+                          <Badge variant="outline">{isSaml ? "SAML" : "OIDC"}</Badge>
+                          <Badge variant={verified ? "secondary" : "outline"}>
+                            {verified ? "Domain verified" : "Domain not verified"}
+                          </Badge>
+                          {connection.enforceSso && verified && <Badge>SSO required</Badge>}
+                        </div>
+                      </div>
+                      <form action={removeSsoConnectionAction}>
+                        <input type="hidden" name="providerId" value={connection.providerId} />
+                        <Button type="submit" variant="destructive" size="sm">
+                          Remove
+                        </Button>
+                      </form>
+                    </div>
+
+                    <div className="space-y-1 text-sm">
+                      <p className="text-muted-foreground">
+                        {isSaml ? "ACS URL" : "Redirect URI"} for your identity provider:
+                      </p>
+                      <code className="block break-all rounded bg-muted px-2 py-1">
+                        {callbackUrl}
+                      </code>
+                      {isSaml && (
+                        <>
+                          <p className="text-muted-foreground">SP metadata:</p>
+                          <code className="block break-all rounded bg-muted px-2 py-1">
+                            {`${baseUrl}/api/auth/sso/saml2/sp/metadata?providerId=${connection.providerId}`}
+                          </code>
+                        </>
+                      )}
+                    </div>
+
+                    {!verified && (
+                      <form action={verifySsoDomainAction} className="space-y-2 text-sm">
+                        <input type="hidden" name="providerId" value={connection.providerId} />
+                        <p className="text-muted-foreground">
+                          Add this TXT record to {connection.domain}, then verify:
+                        </p>
+                        <code className="block break-all rounded bg-muted px-2 py-1">
+                          {`${SSO_VERIFICATION_PREFIX}=${connection.verificationToken}`}
+                        </code>
+                        <Button type="submit" variant="outline" size="sm">
+                          Verify domain
+                        </Button>
+                      </form>
+                    )}
+
+                    <form action={updateSsoSettingsAction} className="flex flex-wrap items-center gap-4">
+                      <input type="hidden" name="providerId" value={connection.providerId} />
+                      <Select
+                        name="defaultRole"
+                        items={roleOptions}
+                        defaultValue={connection.defaultRole}
+                      >
+                        <SelectTrigger aria-label="Default role" className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            {roleOptions.map((item) => (
+                              <SelectItem key={item.value} value={item.value}>
+                                {item.label}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                      <Label className="font-normal">
+                        <input
+                          type="checkbox"
+                          name="enforceSso"
+                          defaultChecked={connection.enforceSso}
+                          disabled={!verified}
+                        />
+                        Require SSO for {connection.domain}
+                      </Label>
+                      <Button type="submit" variant="outline" size="sm">
+                        Save
+                      </Button>
+                    </form>
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { OrganizationSwitcher } from "@/components/auth/organization-switcher";
+import { SessionTimeoutDialog } from "@/components/auth/session-timeout-dialog";
+import { PATHNAME_HEADER } from "@/lib/auth/middleware-session";
+import { TWO_FACTOR_ENROLLMENT_PATH } from "@/lib/auth/organization-security";
+import {
+  getActiveTwoFactorStatus,
+  getOrganizationRoles,
+  getSessionPolicyStatus,
+  redirectOnAuthError,
+  requireSession,
+} from "@/lib/auth/server";
+import { recordSessionActivityAction } from "./settings/security/actions";
+
+/**
+ * Protected Layout
+ *
+ * Wraps signed-in areas (settings, account, admin). The middleware already
+ * redirects signed-out users; this re-checks the session on the server in
+ * case the route isn't listed in auth.config.ts.
+ *
+ * The organization switcher sits above every page. During a firm's 2FA
+ * grace period, members who haven't enrolled see a reminder with their
+ * deadline; afterwards every page but enrollment redirects there.
+ *
+ * Under a firm session policy with an idle timeout or max lifetime, a
+ * dialog warns before the session ends.
+ */
+export default async function ProtectedLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  // Overdue members are redirected below, so enrollment itself renders
+  await redirectOnAuthError(() => requireSession({ allowTwoFactorOverdue: true }));
+  const [twoFactor, roles, sessionPolicy] = await Promise.all([
+    getActiveTwoFactorStatus(),
+    getOrganizationRoles(),
+    getSessionPolicyStatus(),
+  ]);
+
+  // The middleware sets the path on every page request (and overwrites
+  // any sent by the browser)
+  if (twoFactor?.overdue) {
+    const pathname = (await headers()).get(PATHNAME_HEADER);
+    if (pathname && pathname !== TWO_FACTOR_ENROLLMENT_PATH) {
+      redirect(`${TWO_FACTOR_ENROLLMENT_PATH}?callbackUrl=${encodeURIComponent(pathname)}`);
+    }
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-4xl px-4 py-10">
+      <OrganizationSwitcher roles={roles} className="mb-6 ml-auto w-fit" />
+      {twoFactor?.required && !twoFactor.enrolled && !twoFactor.overdue && (
+        <p className="mb-6 rounded-md border px-4 py-3 text-sm" role="status">
+          Your firm requires two-factor authentication. Set it up by{" "}
+          {twoFactor.deadline?.toLocaleDateString()} in{" "}
+          <Link href="/settings/security" className="font-medium underline underline-offset-4">
+            security settings
+          </Link>
+          .
+        </p>
+      )}
+      {children}
+      {(sessionPolicy?.idleExpiresAt || sessionPolicy?.absoluteExpiresAt) && (
+        <SessionTimeoutDialog
+          idleExpiresAt={sessionPolicy.idleExpiresAt?.toISOString() ?? null}
+          absoluteExpiresAt={sessionPolicy.absoluteExpiresAt?.toISOString() ?? null}
+          recordActivity={recordSessionActivityAction}
+        />
+      )}
+    </div>
+  );
+}
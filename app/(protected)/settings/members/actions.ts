@@ -0,0 +1,250 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import {
+  canAssignCustomRole,
+  findCustomRole,
+  type CustomRole,
+} from "@/lib/auth/custom-roles";
+import { canAssignRole, isLegalRole, type LegalRole } from "@/lib/auth/roles";
+import { AuthError, ForbiddenError, requirePermission } from "@/lib/auth/server";
+
+/**
+ * Member Management Actions
+ *
+ * Each action checks the caller's permission for that specific change
+ * (`invitation: ["create"]`, `member: ["update"]`, ...), and Better Auth
+ * checks it again along with its own owner rules. Nobody can hand out a
+ * role above their own, or a custom role granting more than they hold.
+ */
+
+export interface InviteMembersFormState {
+  error?: string;
+  invited?: string[];
+  failed?: { email: string; error: string }[];
+}
+
+/** Most invitations sent in one go */
+const MAX_INVITES_PER_BATCH = 50;
+
+const emailPattern = /[^\s<>,;"'()]+@[^\s<>,;"'()]+\.[^\s<>,;"'()]+/g;
+
+function field(formData: FormData, name: string): string {
+  return String(formData.get(name) ?? "").trim();
+}
+
+/**
+ * Pull addresses out of pasted text, e.g. one per line or an Outlook
+ * "Jane Doe <jane@example.com>; ..." list
+ */
+function parseEmails(text: string): string[] {
+  const matches = text.match(emailPattern) ?? [];
+  return [...new Set(matches.map((email) => email.toLowerCase()))];
+}
+
+function errorMessage(error: unknown, fallback: string): string | null {
+  if (error instanceof AuthError) return error.message;
+  if (error instanceof Error && "body" in error) return error.message || fallback;
+  return null;
+}
+
+/**
+ * Whether the caller may give `role`, legal or custom
+ */
+async function canGiveRole(
+  caller: { organizationId: string; roles: LegalRole[]; customRoles: CustomRole[] },
+  role: string
+): Promise<boolean> {
+  if (isLegalRole(role)) return canAssignRole(caller.roles, role);
+  const { adapter } = await auth.$context;
+  const customRole = await findCustomRole(adapter, caller.organizationId, { roleName: role });
+  return customRole !== null && canAssignCustomRole(caller, customRole);
+}
+
+/**
+ * Run a row action, sending Better Auth's refusals (e.g. removing the
+ * last owner) back to the page as `?error=`
+ */
+async function runMemberAction(fn: () => Promise<unknown>, fallback: string): Promise<void> {
+  let message: string | null = null;
+  try {
+    await fn();
+  } catch (error) {
+    message = errorMessage(error, fallback);
+    if (message === null) throw error;
+  }
+  revalidatePath("/settings/members");
+  if (message) redirect(`/settings/members?error=${encodeURIComponent(message)}`);
+}
+
+export async function inviteMembersAction(
+  _previous: InviteMembersFormState,
+  formData: FormData
+): Promise<InviteMembersFormState> {
+  try {
+    const caller = await requirePermission({ invitation: ["create"] });
+    const { organizationId } = caller;
+
+    const role = field(formData, "role");
+    if (!(await canGiveRole(caller, role))) {
+      return { error: "Choose a role you're allowed to give" };
+    }
+
+    const emails = parseEmails(field(formData, "emails"));
+    if (emails.length === 0) {
+      return { error: "Paste at least one email address" };
+    }
+    if (emails.length > MAX_INVITES_PER_BATCH) {
+      return { error: `Invite at most ${MAX_INVITES_PER_BATCH} people at a time` };
+    }
+
+    const requestHeaders = await headers();
+    const invited: string[] = [];
+    const failed: { email: string; error: string }[] = [];
+    for (const email of emails) {
+      try {
+        await auth.api.createInvitation({
+          headers: requestHeaders,
+          // Typed as the legal roles; Better Auth also accepts custom ones
+          body: { email, role: role as LegalRole, organizationId },
+        });
+        invited.push(email);
+      } catch (error) {
+        const message = errorMessage(error, "Invitation failed");
+        if (message === null) throw error;
+        failed.push({ email, error: message });
+      }
+    }
+
+    revalidatePath("/settings/members");
+    return { invited, failed };
+  } catch (error) {
+    if (error instanceof AuthError) return { error: error.message };
+    throw error;
+  }
+}
+
+export async function updateMemberRoleAction(formData: FormData): Promise<void> {
+  await runMemberAction(async () => {
+    const caller = await requirePermission({ member: ["update"] });
+    const { organizationId } = caller;
+    const role = field(formData, "role");
+    if (!(await canGiveRole(caller, role))) {
+      throw new ForbiddenError("You can't give that role", "ROLE_NOT_ASSIGNABLE");
+    }
+    await auth.api.updateMemberRole({
+      headers: await headers(),
+      body: { memberId: field(formData, "memberId"), role, organizationId },
+    });
+  }, "Failed to change role");
+}
+
+export async function removeMemberAction(formData: FormData): Promise<void> {
+  await runMemberAction(async () => {
+    const { organizationId } = await requirePermission({ member: ["delete"] });
+    await auth.api.removeMember({
+      headers: await headers(),
+      body: { memberIdOrEmail: field(formData, "memberId"), organizationId },
+    });
+  }, "Failed to remove member");
+}
+
+/**
+ * Sign a member out of this organization on every device
+ * Only sessions with this organization active are ended - their sessions
+ * in other organizations belong to those firms.
+ */
+export async function revokeMemberSessionsAction(formData: FormData): Promise<void> {
+  await runMemberAction(async () => {
+    const caller = await requirePermission({ session: ["revoke"] });
+    const { adapter, internalAdapter } = await auth.$context;
+    const member = await adapter.findOne<{
+      id: string;
+      userId: string;
+      role: string;
+      organizationId: string;
+    }>({
+      model: "member",
+      where: [{ field: "id", value: field(formData, "memberId") }],
+    });
+    if (!member || member.organizationId !== caller.organizationId) {
+      throw new ForbiddenError("Member not found", "MEMBER_NOT_FOUND");
+    }
+    if (member.userId === caller.user.id) {
+      throw new ForbiddenError(
+        "Sign out of your own devices on the security page",
+        "CANNOT_REVOKE_OWN_SESSIONS"
+      );
+    }
+    // Same rule as changing their role: only members below or beside you
+    const memberRoles = member.role.split(",").map((role) => role.trim()).filter(Boolean);
+    for (const role of memberRoles) {
+      if (!(await canGiveRole(caller, role))) {
+        throw new ForbiddenError("You can't sign out that member", "MEMBER_NOT_MANAGEABLE");
+      }
+    }
+    const sessions: { token: string; activeOrganizationId?: string | null }[] =
+      await internalAdapter.listSessions(member.userId);
+    for (const session of sessions) {
+      if (session.activeOrganizationId === caller.organizationId) {
+        await internalAdapter.deleteSession(session.token);
+      }
+    }
+  }, "Failed to sign out member");
+}
+
+export async function resendInvitationAction(formData: FormData): Promise<void> {
+  await runMemberAction(async () => {
+    const caller = await requirePermission({ invitation: ["create"] });
+    const { organizationId } = caller;
+    const { adapter } = await auth.$context;
+    const invitation = await adapter.findOne<{
+      id: string;
+      email: string;
+      role: string;
+      status: string;
+      expiresAt: Date;
+      organizationId: string;
+    }>({
+      model: "invitation",
+      where: [{ field: "id", value: field(formData, "invitationId") }],
+    });
+    if (
+      !invitation ||
+      invitation.organizationId !== organizationId ||
+      invitation.status !== "pending"
+    ) {
+      throw new ForbiddenError("Invitation not found", "INVITATION_NOT_FOUND");
+    }
+    const role = invitation.role;
+    if (!(await canGiveRole(caller, role))) {
+      throw new ForbiddenError("You can't give that role", "ROLE_NOT_ASSIGNABLE");
+    }
+    // Better Auth only extends invitations that haven't expired - an
+    // expired one is replaced by a fresh invitation instead
+    if (new Date(invitation.expiresAt) <= new Date()) {
+      await adapter.update({
+        model: "invitation",
+        where: [{ field: "id", value: invitation.id }],
+        update: { status: "canceled" },
+      });
+    }
+    await auth.api.createInvitation({
+      headers: await headers(),
+      body: { email: invitation.email, role: role as LegalRole, organizationId, resend: true },
+    });
+  }, "Failed to resend invitation");
+}
+
+export async function cancelInvitationAction(formData: FormData): Promise<void> {
+  await runMemberAction(async () => {
+    await requirePermission({ invitation: ["cancel"] });
+    await auth.api.cancelInvitation({
+      headers: await headers(),
+      body: { invitationId: field(formData, "invitationId") },
+    });
+  }, "Failed to cancel invitation");
+}
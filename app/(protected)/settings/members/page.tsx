@@ -0,0 +1,307 @@
+import { headers } from "next/headers";
+import { InviteMembersForm } from "@/components/admin/invite-members-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { auth } from "@/lib/auth";
+import {
+  canAssignCustomRole,
+  listCustomRoles,
+  rolesHavePermission,
+} from "@/lib/auth/custom-roles";
+import type { PermissionStatement } from "@/lib/auth/permissions";
+import {
+  canAssignRole,
+  isLegalRole,
+  RoleDescriptions,
+  RoleHierarchy,
+} from "@/lib/auth/roles";
+import { redirectOnAuthError, requirePermission } from "@/lib/auth/server";
+import {
+  cancelInvitationAction,
+  inviteMembersAction,
+  removeMemberAction,
+  resendInvitationAction,
+  revokeMemberSessionsAction,
+  updateMemberRoleAction,
+} from "./actions";
+
+function parseRoles(role: string): string[] {
+  return role
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * "of_counsel" -> "Of counsel"
+ */
+function roleLabel(role: string): string {
+  const words = role.replaceAll("_", " ");
+  return `${words.charAt(0).toUpperCase()}${words.slice(1)}`;
+}
+
+/**
+ * Members Page
+ *
+ * Lists the active organization's members and pending invitations. Every
+ * control only appears for roles holding the matching permission (the
+ * actions check again), and the role picker only offers roles up to the
+ * caller's own, plus custom roles granting nothing the caller lacks.
+ */
+export default async function MembersPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string | string[] }>;
+}) {
+  const caller = await redirectOnAuthError(
+    () => requirePermission({ member: ["read"] }),
+    "/settings/members"
+  );
+  const { user, organizationId, roles } = caller;
+  const { error } = await searchParams;
+
+  const can = (permission: PermissionStatement) => rolesHavePermission(caller, permission);
+  const canInvite = can({ invitation: ["create"] });
+  const canCancel = can({ invitation: ["cancel"] });
+  const canUpdate = can({ member: ["update"] });
+  const canRemove = can({ member: ["delete"] });
+  const canRevokeSessions = can({ session: ["revoke"] });
+
+  const requestHeaders = await headers();
+  const { adapter } = await auth.$context;
+  const [{ members }, invitations, customRoles] = await Promise.all([
+    auth.api.listMembers({ headers: requestHeaders, query: { organizationId } }),
+    auth.api.listInvitations({ headers: requestHeaders, query: { organizationId } }),
+    listCustomRoles(adapter, organizationId),
+  ]);
+  const pending = invitations.filter((invitation) => invitation.status === "pending");
+
+  const assignableRoles = [
+    ...RoleHierarchy.filter((role) => canAssignRole(roles, role)),
+    ...customRoles
+      .filter((customRole) => canAssignCustomRole(caller, customRole))
+      .map((customRole) => customRole.role),
+  ];
+  const canAssign = (role: string) => assignableRoles.includes(role);
+  const roleOptions = assignableRoles.map((role) => ({
+    label: isLegalRole(role)
+      ? `${roleLabel(role)} - ${RoleDescriptions[role]}`
+      : `${roleLabel(role)} - Custom role`,
+    value: role,
+  }));
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Members</h1>
+        <p className="text-sm text-muted-foreground">
+          People in your organization and the invitations waiting on them.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {Array.isArray(error) ? error[0] : error}
+        </p>
+      )}
+
+      {canInvite && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite members</CardTitle>
+            <CardDescription>
+              Each person gets an email with a link to join. Invitations expire
+              after 48 hours.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <InviteMembersForm
+              roles={roleOptions}
+              defaultRole={assignableRoles.includes("staff") ? "staff" : assignableRoles[0]}
+              action={inviteMembersAction}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>{members.length} in this organization</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr className="border-b">
+                <th className="py-2 pr-4 font-medium">Name</th>
+                <th className="py-2 pr-4 font-medium">Role</th>
+                <th className="py-2 pr-4 font-medium">Joined</th>
+                <th className="py-2 font-medium">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {members.map((member) => {
+                const memberRoles = parseRoles(member.role);
+                const isSelf = member.userId === user.id;
+                // Only members whose roles the caller could have given can be changed
+                const manageable = !isSelf && memberRoles.every(canAssign);
+
+                return (
+                  <tr key={member.id}>
+                    <td className="py-3 pr-4">
+                      <p className="font-medium">
+                        {member.user.name}
+                        {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      <p className="text-muted-foreground">{member.user.email}</p>
+                    </td>
+                    <td className="py-3 pr-4">
+                      {canUpdate && manageable ? (
+                        <form action={updateMemberRoleAction} className="flex items-center gap-2">
+                          <input type="hidden" name="memberId" value={member.id} />
+                          <Select
+                            name="role"
+                            items={roleOptions}
+                            defaultValue={memberRoles[memberRoles.length - 1]}
+                          >
+                            <SelectTrigger
+                              aria-label={`Role for ${member.user.name}`}
+                              className="w-36"
+                            >
+                              <SelectValue>
+                                {(value: string) => roleLabel(value)}
+                              </SelectValue>
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectGroup>
+                                {roleOptions.map((item) => (
+                                  <SelectItem key={item.value} value={item.value}>
+                                    {item.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                            </SelectContent>
+                          </Select>
+                          <Button type="submit" variant="outline" size="sm">
+                            Save
+                          </Button>
+                        </form>
+                      ) : (
+                        <div className="flex gap-1">
+                          {memberRoles.map((role) => (
+                            <Badge key={role} variant="outline">
+                              {roleLabel(role)}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-muted-foreground">
+                      {new Date(member.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="py-3">
+                      <div className="flex justify-end gap-2">
+                        {canRevokeSessions && manageable && (
+                          <form action={revokeMemberSessionsAction}>
+                            <input type="hidden" name="memberId" value={member.id} />
+                            <Button
+                              type="submit"
+                              variant="outline"
+                              size="sm"
+                              title="Sign out of this organization on every device"
+                            >
+                              Sign out
+                            </Button>
+                          </form>
+                        )}
+                        {canRemove && manageable && (
+                          <form action={removeMemberAction}>
+                            <input type="hidden" name="memberId" value={member.id} />
+                            <Button type="submit" variant="destructive" size="sm">
+                              Remove
+                            </Button>
+                          </form>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending invitations</CardTitle>
+          <CardDescription>
+            {pending.length === 0 ? "No pending invitations." : `${pending.length} waiting`}
+          </CardDescription>
+        </CardHeader>
+        {pending.length > 0 && (
+          <CardContent>
+            <ul className="divide-y">
+              {pending.map((invitation) => {
+                const expired = new Date(invitation.expiresAt) <= now;
+                const manageable = canAssign(invitation.role);
+
+                return (
+                  <li key={invitation.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">{invitation.email}</p>
+                      <div className="flex gap-2">
+                        <Badge variant="outline">{roleLabel(invitation.role)}</Badge>
+                        <Badge variant={expired ? "destructive" : "secondary"}>
+                          {expired
+                            ? "Expired"
+                            : `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                        </Badge>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {canInvite && manageable && (
+                        <form action={resendInvitationAction}>
+                          <input type="hidden" name="invitationId" value={invitation.id} />
+                          <Button type="submit" variant="outline" size="sm">
+                            Resend
+                          </Button>
+                        </form>
+                      )}
+                      {canCancel && (
+                        <form action={cancelInvitationAction}>
+                          <input type="hidden" name="invitationId" value={invitation.id} />
+                          <Button type="submit" variant="destructive" size="sm">
+                            Cancel
+                          </Button>
+                        </form>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import {
+  restoreOrganization,
+  scheduleOrganizationDeletion,
+} from "@/lib/auth/organization-deletion";
+import {
+  acceptOwnershipTransfer,
+  cancelOwnershipTransfer,
+  startOwnershipTransfer,
+} from "@/lib/auth/ownership";
+import { roleHasPermission } from "@/lib/auth/permissions";
+import {
+  AuthError,
+  ForbiddenError,
+  requireActiveOrganization,
+  requireRecentAuthentication,
+  requireSession,
+} from "@/lib/auth/server";
+import { sendEmail } from "@/lib/email/mailer";
+import { ownershipTransferEmail } from "@/lib/email/templates";
+
+/**
+ * Organization Lifecycle Actions
+ *
+ * Ownership transfers and deletion. Only owners (the roles holding
+ * `organization: ["delete"]`) can start a transfer, delete or restore;
+ * only the recipient can accept a transfer. Starting a transfer and
+ * deleting need a recent password confirmation.
+ */
+
+export interface DeleteOrganizationFormState {
+  error?: string;
+}
+
+function field(formData: FormData, name: string): string {
+  return String(formData.get(name) ?? "").trim();
+}
+
+/**
+ * The active organization, for owners only (deleted ones included)
+ */
+async function requireOwner() {
+  const context = await requireActiveOrganization({ includeDeleted: true });
+  if (!context.roles.some((role) => roleHasPermission(role, { organization: ["delete"] }))) {
+    throw new ForbiddenError("Only owners can do this", "NOT_AN_OWNER");
+  }
+  return context;
+}
+
+/**
+ * Run an action, sending refusals back to the page as `?error=`
+ */
+async function runOrganizationAction(fn: () => Promise<unknown>): Promise<void> {
+  let message: string | null = null;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof AuthError || (error instanceof Error && "body" in error)) {
+      message = error.message || "Something went wrong";
+    } else {
+      throw error;
+    }
+  }
+  revalidatePath("/settings/organization");
+  if (message) redirect(`/settings/organization?error=${encodeURIComponent(message)}`);
+}
+
+export async function startOwnershipTransferAction(formData: FormData): Promise<void> {
+  await runOrganizationAction(async () => {
+    const { user, organizationId } = await requireOwner();
+    await requireRecentAuthentication();
+    const { adapter } = await auth.$context;
+    const transfer = await startOwnershipTransfer(adapter, {
+      organizationId,
+      fromUserId: user.id,
+      toMemberId: field(formData, "memberId"),
+    });
+
+    const [recipient, organization] = await Promise.all([
+      adapter.findOne<{ email: string }>({
+        model: "user",
+        where: [{ field: "id", value: transfer.toUserId }],
+      }),
+      adapter.findOne<{ name: string }>({
+        model: "organization",
+        where: [{ field: "id", value: organizationId }],
+      }),
+    ]);
+    if (recipient && organization) {
+      await sendEmail({
+        to: recipient.email,
+        ...ownershipTransferEmail({
+          organizationName: organization.name,
+          fromName: user.name,
+          url: `${process.env.BETTER_AUTH_URL}/settings/organization`,
+        }),
+      });
+    }
+  });
+}
+
+export async function acceptOwnershipTransferAction(formData: FormData): Promise<void> {
+  await runOrganizationAction(async () => {
+    const { user } = await requireSession();
+    const { adapter } = await auth.$context;
+    const transfer = await acceptOwnershipTransfer(adapter, field(formData, "transferId"), user.id);
+    await auth.api.setActiveOrganization({
+      headers: await headers(),
+      body: { organizationId: transfer.organizationId },
+    });
+  });
+}
+
+export async function cancelOwnershipTransferAction(formData: FormData): Promise<void> {
+  await runOrganizationAction(async () => {
+    const { user } = await requireSession();
+    await cancelOwnershipTransfer(field(formData, "transferId"), user.id);
+  });
+}
+
+export async function deleteOrganizationAction(
+  _previous: DeleteOrganizationFormState,
+  formData: FormData
+): Promise<DeleteOrganizationFormState> {
+  try {
+    const { user, organizationId } = await requireOwner();
+    await requireRecentAuthentication();
+    const { adapter } = await auth.$context;
+    const organization = await adapter.findOne<{ slug: string }>({
+      model: "organization",
+      where: [{ field: "id", value: organizationId }],
+    });
+    if (!organization || field(formData, "confirm") !== organization.slug) {
+      return { error: "Type the organization's slug to confirm" };
+    }
+
+    await scheduleOrganizationDeletion(adapter, organizationId, user.id);
+    revalidatePath("/", "layout");
+    return {};
+  } catch (error) {
+    if (error instanceof AuthError) return { error: error.message };
+    throw error;
+  }
+}
+
+export async function restoreOrganizationAction(): Promise<void> {
+  await runOrganizationAction(async () => {
+    const { organizationId } = await requireOwner();
+    const { adapter } = await auth.$context;
+    await restoreOrganization(adapter, organizationId);
+  });
+}
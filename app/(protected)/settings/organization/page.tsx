@@ -0,0 +1,237 @@
+import { headers } from "next/headers";
+import { DeleteOrganizationForm } from "@/components/admin/delete-organization-form";
+import { ReauthenticationGate } from "@/components/auth/reauthentication-gate";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { auth } from "@/lib/auth";
+import { getOrganizationRetentionDays } from "@/lib/auth/organization-deletion";
+import {
+  getPendingOwnershipTransfer,
+  listOwnershipTransfersForUser,
+  PREVIOUS_OWNER_ROLE,
+} from "@/lib/auth/ownership";
+import { roleHasPermission } from "@/lib/auth/permissions";
+import { LegalRoles } from "@/lib/auth/roles";
+import {
+  getActiveOrganizationDeletion,
+  getReauthenticationStatus,
+  redirectOnAuthError,
+  requireActiveOrganization,
+} from "@/lib/auth/server";
+import { reauthenticateAction } from "../security/actions";
+import {
+  acceptOwnershipTransferAction,
+  cancelOwnershipTransferAction,
+  deleteOrganizationAction,
+  restoreOrganizationAction,
+  startOwnershipTransferAction,
+} from "./actions";
+
+/**
+ * Organization Settings Page
+ *
+ * Ownership transfers and deletion. Stays reachable while the
+ * organization is deleted so an owner can restore it. Starting a transfer
+ * and deleting ask for the owner's password first.
+ */
+export default async function OrganizationSettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string | string[] }>;
+}) {
+  const { user, organizationId, roles } = await redirectOnAuthError(
+    () => requireActiveOrganization({ includeDeleted: true }),
+    "/settings/organization"
+  );
+  const { error } = await searchParams;
+  const isOwner = roles.some((role) => roleHasPermission(role, { organization: ["delete"] }));
+
+  const { adapter } = await auth.$context;
+  const [organization, deletion, pendingTransfer, offers, { members }] = await Promise.all([
+    adapter.findOne<{ name: string; slug: string }>({
+      model: "organization",
+      where: [{ field: "id", value: organizationId }],
+    }),
+    getActiveOrganizationDeletion(),
+    getPendingOwnershipTransfer(organizationId),
+    listOwnershipTransfersForUser(user.id),
+    auth.api.listMembers({ headers: await headers(), query: { organizationId } }),
+  ]);
+  const reauthentication = await getReauthenticationStatus();
+  const gate = {
+    until: reauthentication.until.toISOString(),
+    hasPassword: reauthentication.hasPassword,
+    action: reauthenticateAction,
+  };
+  const offerOrganizations = await Promise.all(
+    offers.map((offer) =>
+      adapter.findOne<{ name: string }>({
+        model: "organization",
+        where: [{ field: "id", value: offer.organizationId }],
+      })
+    )
+  );
+
+  const candidates = members
+    .filter((member) => !member.role.split(",").some((role) => role.trim() === LegalRoles.OWNER))
+    .map((member) => ({ label: `${member.user.name} (${member.user.email})`, value: member.id }));
+  const recipient = pendingTransfer
+    ? members.find((member) => member.userId === pendingTransfer.toUserId)
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Organization</h1>
+        <p className="text-sm text-muted-foreground">
+          Ownership and deletion for {organization?.name ?? "your organization"}.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {Array.isArray(error) ? error[0] : error}
+        </p>
+      )}
+
+      {deletion && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle>This organization has been deleted</CardTitle>
+            <CardDescription>
+              Members can&apos;t access it. It will be permanently deleted on{" "}
+              {new Date(deletion.purgeAfter).toLocaleDateString()}
+              {isOwner ? " unless you restore it." : ". Ask an owner if this was a mistake."}
+            </CardDescription>
+          </CardHeader>
+          {isOwner && (
+            <CardContent>
+              <form action={restoreOrganizationAction}>
+                <Button type="submit">Restore Organization</Button>
+              </form>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {offers.map((offer, index) => (
+        <Card key={offer.id}>
+          <CardHeader>
+            <CardTitle>Ownership offered to you</CardTitle>
+            <CardDescription>
+              You&apos;ve been asked to become an owner of{" "}
+              {offerOrganizations[index]?.name ?? "an organization"}. The current owner will
+              become a {PREVIOUS_OWNER_ROLE}. This offer expires on{" "}
+              {offer.expiresAt.toLocaleDateString()}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <form action={acceptOwnershipTransferAction}>
+              <input type="hidden" name="transferId" value={offer.id} />
+              <Button type="submit">Accept</Button>
+            </form>
+            <form action={cancelOwnershipTransferAction}>
+              <input type="hidden" name="transferId" value={offer.id} />
+              <Button type="submit" variant="outline">
+                Decline
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ))}
+
+      {isOwner && !deletion && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Transfer ownership</CardTitle>
+            <CardDescription>
+              The member you choose becomes an owner once they accept, and you become a{" "}
+              {PREVIOUS_OWNER_ROLE}. Offers expire after 7 days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {pendingTransfer && (
+              <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <p className="text-sm">
+                  Waiting on {recipient?.user.name ?? "a member"} to accept (expires{" "}
+                  {pendingTransfer.expiresAt.toLocaleDateString()}).
+                </p>
+                {pendingTransfer.fromUserId === user.id && (
+                  <form action={cancelOwnershipTransferAction}>
+                    <input type="hidden" name="transferId" value={pendingTransfer.id} />
+                    <Button type="submit" variant="outline" size="sm">
+                      Cancel
+                    </Button>
+                  </form>
+                )}
+              </div>
+            )}
+
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Invite someone first - ownership can only go to an existing member.
+              </p>
+            ) : (
+              <ReauthenticationGate {...gate}>
+                <form action={startOwnershipTransferAction} className="flex items-center gap-2">
+                  <Select name="memberId" items={candidates} defaultValue={candidates[0].value}>
+                    <SelectTrigger aria-label="New owner" className="w-72">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        {candidates.map((item) => (
+                          <SelectItem key={item.value} value={item.value}>
+                            {item.label}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                  <Button type="submit" variant="outline">
+                    {pendingTransfer ? "Send New Offer" : "Send Offer"}
+                  </Button>
+                </form>
+              </ReauthenticationGate>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isOwner && !deletion && organization && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle>Delete organization</CardTitle>
+            <CardDescription>
+              Removes access for every member. Restorable for{" "}
+              {getOrganizationRetentionDays()} days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ReauthenticationGate {...gate}>
+              <DeleteOrganizationForm
+                slug={organization.slug}
+                retentionDays={getOrganizationRetentionDays()}
+                action={deleteOrganizationAction}
+              />
+            </ReauthenticationGate>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
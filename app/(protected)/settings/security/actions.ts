@@ -0,0 +1,117 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import {
+  AuthError,
+  ForbiddenError,
+  reauthenticate,
+  recordSessionActivity,
+  requireSession,
+  UnauthorizedError,
+} from "@/lib/auth/server";
+
+/**
+ * Session Actions
+ *
+ * Sign the current user out of their other devices, keep the session
+ * alive under the firm's idle timeout and confirm the password for
+ * sensitive actions. Signing out of this device is done on the client
+ * (SignOutButton) so the cookie is cleared.
+ */
+
+export interface SessionActivityState {
+  /** The session has ended - sign out on the client */
+  signedOut?: boolean;
+  /** ISO timestamps, null when the policy sets no limit */
+  idleExpiresAt?: string | null;
+  absoluteExpiresAt?: string | null;
+}
+
+export interface ReauthenticateFormState {
+  error?: string;
+  /** ISO timestamp the confirmation lasts until */
+  until?: string;
+  signedOut?: boolean;
+}
+
+function field(formData: FormData, name: string): string {
+  return String(formData.get(name) ?? "").trim();
+}
+
+function errorMessage(error: unknown, fallback: string): string | null {
+  if (error instanceof AuthError) return error.message;
+  if (error instanceof Error && "body" in error) return error.message || fallback;
+  return null;
+}
+
+/**
+ * Run a session action, sending refusals back to the page as `?error=`
+ */
+async function runSessionAction(fn: () => Promise<unknown>, fallback: string): Promise<void> {
+  let message: string | null = null;
+  try {
+    await fn();
+  } catch (error) {
+    message = errorMessage(error, fallback);
+    if (message === null) throw error;
+  }
+  revalidatePath("/settings/security");
+  if (message) redirect(`/settings/security?error=${encodeURIComponent(message)}`);
+}
+
+export async function revokeSessionAction(formData: FormData): Promise<void> {
+  await runSessionAction(async () => {
+    const { session } = await requireSession({ allowTwoFactorOverdue: true });
+    const requestHeaders = await headers();
+    // Sessions are looked up by id so their tokens never reach the page
+    const sessions = await auth.api.listSessions({ headers: requestHeaders });
+    const target = sessions.find((entry) => entry.id === field(formData, "sessionId"));
+    if (!target) {
+      throw new ForbiddenError("That session has already ended", "SESSION_NOT_FOUND");
+    }
+    if (target.id === session.id) {
+      throw new ForbiddenError("Use Sign out to end this session", "CURRENT_SESSION");
+    }
+    await auth.api.revokeSession({ headers: requestHeaders, body: { token: target.token } });
+  }, "Failed to sign out that device");
+}
+
+export async function revokeOtherSessionsAction(): Promise<void> {
+  await runSessionAction(async () => {
+    await requireSession({ allowTwoFactorOverdue: true });
+    await auth.api.revokeOtherSessions({ headers: await headers() });
+  }, "Failed to sign out your other devices");
+}
+
+/**
+ * Called by the idle timeout dialog while the user is active
+ */
+export async function recordSessionActivityAction(): Promise<SessionActivityState> {
+  try {
+    const { idleExpiresAt, absoluteExpiresAt } = await recordSessionActivity();
+    return {
+      idleExpiresAt: idleExpiresAt?.toISOString() ?? null,
+      absoluteExpiresAt: absoluteExpiresAt?.toISOString() ?? null,
+    };
+  } catch (error) {
+    if (error instanceof UnauthorizedError) return { signedOut: true };
+    throw error;
+  }
+}
+
+export async function reauthenticateAction(
+  _previous: ReauthenticateFormState,
+  formData: FormData
+): Promise<ReauthenticateFormState> {
+  try {
+    const until = await reauthenticate(String(formData.get("password") ?? ""));
+    return { until: until.toISOString() };
+  } catch (error) {
+    if (error instanceof UnauthorizedError) return { error: error.message, signedOut: true };
+    if (error instanceof AuthError) return { error: error.message };
+    throw error;
+  }
+}
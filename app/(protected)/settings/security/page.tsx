@@ -0,0 +1,186 @@
+import { headers } from "next/headers";
+import Link from "next/link";
+import { PasskeySettings } from "@/components/auth/passkey-settings";
+import { SignOutButton } from "@/components/auth/sign-out-button";
+import { TwoFactorSettings } from "@/components/auth/two-factor-settings";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import {
+  getActiveTwoFactorStatus,
+  redirectOnAuthError,
+  requireSession,
+} from "@/lib/auth/server";
+import { summarizeSessions } from "@/lib/auth/sessions";
+import { revokeOtherSessionsAction, revokeSessionAction } from "./actions";
+
+const deviceTypeLabels = {
+  desktop: "Computer",
+  mobile: "Phone",
+  tablet: "Tablet",
+  unknown: null,
+} as const;
+
+function getSafeCallbackUrl(value?: string | string[]) {
+  const resolved = Array.isArray(value) ? value[0] : value;
+  if (!resolved || !resolved.startsWith("/") || resolved.startsWith("//")) return null;
+  return resolved;
+}
+
+/**
+ * Security Settings Page
+ *
+ * Two-factor enrollment, backup codes, passkeys and signed-in devices for
+ * the signed-in user.
+ * Members who missed their firm's 2FA deadline are sent here until they
+ * enroll, then offered a link back to where they were going.
+ */
+export default async function SecuritySettingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ callbackUrl?: string | string[]; error?: string | string[] }>;
+}) {
+  const { user, session } = await redirectOnAuthError(
+    () => requireSession({ allowTwoFactorOverdue: true }),
+    "/settings/security"
+  );
+  const twoFactorEnabled = user.twoFactorEnabled ?? false;
+  const twoFactor = await getActiveTwoFactorStatus();
+  const { callbackUrl: callbackUrlParam, error } = await searchParams;
+  const callbackUrl = getSafeCallbackUrl(callbackUrlParam);
+  const sessions = await summarizeSessions(
+    await auth.api.listSessions({ headers: await headers() }),
+    session.id
+  );
+  const hasOtherSessions = sessions.some((entry) => !entry.current);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">Security</h1>
+        <p className="text-sm text-muted-foreground">
+          Protect your account with a second sign-in step.
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {Array.isArray(error) ? error[0] : error}
+        </p>
+      )}
+
+      {twoFactor?.overdue && (
+        <p className="rounded-md border border-destructive px-4 py-3 text-sm text-destructive" role="alert">
+          Your firm requires two-factor authentication. Set up an authenticator
+          app below to get back into your firm&apos;s workspace.
+        </p>
+      )}
+      {twoFactor?.required && twoFactor.enrolled && callbackUrl && (
+        <p className="rounded-md border px-4 py-3 text-sm" role="status">
+          You&apos;re all set.{" "}
+          <Link href={callbackUrl} className="font-medium underline underline-offset-4">
+            Continue
+          </Link>
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Two-factor authentication
+            <Badge variant={twoFactorEnabled ? "default" : "outline"}>
+              {twoFactorEnabled ? "On" : "Off"}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            {twoFactorEnabled
+              ? "You'll be asked for a code from your authenticator app when you sign in."
+              : "Use an authenticator app such as 1Password, Google Authenticator or Authy."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSettings enabled={twoFactorEnabled} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Passkeys</CardTitle>
+          <CardDescription>
+            Sign in with your fingerprint, face or device PIN instead of a password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PasskeySettings />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Where you&apos;re signed in</CardTitle>
+          <CardDescription>
+            Sign out of any device you don&apos;t recognize, then change your password.
+            Locations are approximate.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ul className="divide-y rounded-md border">
+            {sessions.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">
+                    {entry.deviceLabel}
+                    {entry.current && (
+                      <span className="text-muted-foreground"> (this device)</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {[entry.location, entry.ipAddress].filter(Boolean).join(" - ") ||
+                      "Unknown location"}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {deviceTypeLabels[entry.device.type] && (
+                      <Badge variant="outline">{deviceTypeLabels[entry.device.type]}</Badge>
+                    )}
+                    <Badge variant="outline">
+                      Signed in {entry.signedInAt.toLocaleDateString()}
+                    </Badge>
+                    {!entry.current && (
+                      <Badge variant="secondary">
+                        Last active {entry.lastActiveAt.toLocaleString()}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                {entry.current ? (
+                  <SignOutButton variant="outline" size="sm" />
+                ) : (
+                  <form action={revokeSessionAction}>
+                    <input type="hidden" name="sessionId" value={entry.id} />
+                    <Button type="submit" variant="destructive" size="sm">
+                      Sign out
+                    </Button>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+          {hasOtherSessions && (
+            <form action={revokeOtherSessionsAction}>
+              <Button type="submit" variant="outline">
+                Sign out everywhere else
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
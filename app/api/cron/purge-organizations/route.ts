@@ -0,0 +1,11 @@
+/**
+ * Scheduled Purge of Deleted Organizations
+ *
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ *
+ * @see lib/auth/organization-purge.ts
+ */
+
+import { handlePurgeOrganizations } from "@/lib/auth/organization-purge";
+
+export const GET = handlePurgeOrganizations;
@@ -0,0 +1,11 @@
+/**
+ * Mock OAuth - Authorization Endpoint
+ *
+ * Only active with AUTH_MOCK_OAUTH=true outside production.
+ *
+ * @see lib/auth/mock-oauth.ts
+ */
+
+import { handleAuthorize } from "@/lib/auth/mock-oauth";
+
+export const GET = handleAuthorize;
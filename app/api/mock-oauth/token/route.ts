@@ -0,0 +1,11 @@
+/**
+ * Mock OAuth - Token Endpoint
+ *
+ * Only active with AUTH_MOCK_OAUTH=true outside production.
+ *
+ * @see lib/auth/mock-oauth.ts
+ */
+
+import { handleToken } from "@/lib/auth/mock-oauth";
+
+export const POST = handleToken;
@@ -0,0 +1,11 @@
+/**
+ * Mock OAuth - UserInfo Endpoint
+ *
+ * Only active with AUTH_MOCK_OAUTH=true outside production.
+ *
+ * @see lib/auth/mock-oauth.ts
+ */
+
+import { handleUserInfo } from "@/lib/auth/mock-oauth";
+
+export const GET = handleUserInfo;
@@ -0,0 +1,19 @@
+/**
+ * SCIM 2.0 - Group
+ *
+ * The id is the role, e.g. /Groups/partner.
+ *
+ * @see lib/auth/scim-api.ts
+ */
+
+import {
+  handleDeleteGroup,
+  handleGetGroup,
+  handlePatchGroup,
+  handleReplaceGroup,
+} from "@/lib/auth/scim-api";
+
+export const GET = handleGetGroup;
+export const PUT = handleReplaceGroup;
+export const PATCH = handlePatchGroup;
+export const DELETE = handleDeleteGroup;
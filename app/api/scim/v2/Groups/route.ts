@@ -0,0 +1,12 @@
+/**
+ * SCIM 2.0 - Groups
+ *
+ * One group per LegalRole (except owner); membership sets the role.
+ *
+ * @see lib/auth/scim-api.ts
+ */
+
+import { handleCreateGroup, handleListGroups } from "@/lib/auth/scim-api";
+
+export const GET = handleListGroups;
+export const POST = handleCreateGroup;
@@ -0,0 +1,9 @@
+/**
+ * SCIM 2.0 - Service Provider Config
+ *
+ * @see lib/auth/scim-api.ts
+ */
+
+import { handleServiceProviderConfig } from "@/lib/auth/scim-api";
+
+export const GET = handleServiceProviderConfig;
@@ -0,0 +1,19 @@
+/**
+ * SCIM 2.0 - User
+ *
+ * `active: false` or DELETE removes the membership and revokes sessions.
+ *
+ * @see lib/auth/scim-api.ts
+ */
+
+import {
+  handleDeleteUser,
+  handleGetUser,
+  handlePatchUser,
+  handleReplaceUser,
+} from "@/lib/auth/scim-api";
+
+export const GET = handleGetUser;
+export const PUT = handleReplaceUser;
+export const PATCH = handlePatchUser;
+export const DELETE = handleDeleteUser;
@@ -0,0 +1,12 @@
+/**
+ * SCIM 2.0 - Users
+ *
+ * Bearer-token authenticated; the token's organization is the one managed.
+ *
+ * @see lib/auth/scim-api.ts
+ */
+
+import { handleCreateUser, handleListUsers } from "@/lib/auth/scim-api";
+
+export const GET = handleListUsers;
+export const POST = handleCreateUser;
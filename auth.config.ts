@@ -0,0 +1,96 @@
+/**
+ * Route Protection Config
+ *
+ * Read by `middleware.ts` to decide which routes require a session.
+ * Edit this file instead of the middleware to change protection.
+ *
+ * Environment variables override these values per deployment:
+ * - AUTH_MODE=private-by-default
+ * - AUTH_PROTECTED_ROUTES=/dashboard,/matters/:id
+ * - AUTH_PUBLIC_ROUTES=/,/login,/signup
+ * - AUTH_SESSION_VALIDATION=verified
+ *
+ * The config is validated on startup - overlapping or contradictory
+ * rules throw instead of silently shadowing each other.
+ *
+ * @see lib/auth/route-policy.ts for pattern syntax
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { defineAuthConfig } from "@/lib/auth/route-policy";
+
+export default defineAuthConfig({
+  /**
+   * Auth mode determines the overall protection strategy:
+   * - "disabled": No route protection (for MVPs, prototypes)
+   * - "public-by-default": Only protect routes in `protectedRoutes`
+   * - "private-by-default": Protect everything except `publicRoutes`
+   */
+  mode: "public-by-default",
+
+  /**
+   * How protected routes check the session:
+   * - "cookie": Cookie presence only (fastest, validity checked later)
+   * - "verified": Validate the session in the middleware; expired or
+   *   revoked sessions are cleared and sent to /login?reason=expired
+   */
+  sessionValidation: "cookie",
+
+  /**
+   * Routes that require authentication (used in "public-by-default" mode)
+   * Add routes that should only be accessible to logged-in users
+   */
+  protectedRoutes: [
+    "/dashboard",
+    "/settings",
+    "/account",
+    "/admin",
+  ],
+
+  /**
+   * Routes that don't require authentication (used in "private-by-default" mode)
+   * Add marketing pages, public content, etc.
+   */
+  publicRoutes: [
+    "/",
+    "/login",
+    "/signup",
+    "/forgot-password",
+    "/reset-password",
+    "/api/auth",      // Better Auth API routes (required)
+    "/verify-email",
+    "/verify-2fa",
+    "/accept-invite",
+  ],
+
+  /**
+   * Routes that should never require auth regardless of mode
+   * (e.g., health checks, webhooks with their own auth)
+   */
+  alwaysPublicRoutes: [
+    "/api/auth",      // Better Auth API (required)
+    "/api/health",
+    "/api/webhooks",
+    "/api/mock-oauth", // Test OAuth provider (404 unless AUTH_MOCK_OAUTH=true)
+    "/api/scim",      // SCIM provisioning (bearer token, checked per request)
+    "/api/cron",      // Scheduled jobs (CRON_SECRET bearer token)
+    "/forbidden",     // 403 page for under-privileged users
+  ],
+
+  /**
+   * Per-route overrides, applied before the lists above
+   * The most specific matching pattern wins.
+   *
+   * Protected overrides can require a minimum role or a permission in the
+   * user's active organization. Users who fall short see a 403 page.
+   *
+   * Example:
+   * { pattern: "/matters/:id/*", access: "protected" },
+   * { pattern: "/matters/:id/intake", access: "public" },
+   * { pattern: "/admin", access: "protected", role: "partner" },
+   * { pattern: "/billing", access: "protected", permission: { billing: ["approve"] } },
+   */
+  overrides: [
+    { pattern: "/admin", access: "protected", role: "partner" },
+  ],
+});
@@ -0,0 +1,70 @@
+"use client";
+
+import * as React from "react";
+import type { DeleteOrganizationFormState } from "@/app/(protected)/settings/organization/actions";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldGroup, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+
+interface DeleteOrganizationFormProps {
+  /** Slug the owner must type to confirm */
+  slug: string;
+  /** Days the organization can still be restored */
+  retentionDays: number;
+  /** Server action that schedules the deletion */
+  action: (
+    state: DeleteOrganizationFormState,
+    formData: FormData
+  ) => Promise<DeleteOrganizationFormState>;
+}
+
+/**
+ * Delete Organization Form Component
+ *
+ * Asks the owner to type the organization's slug before deleting it.
+ * Deletion locks everyone out straight away but can be undone until the
+ * retention window ends.
+ *
+ * @example
+ * <DeleteOrganizationForm slug="smith-law" retentionDays={30} action={deleteOrganizationAction} />
+ */
+export function DeleteOrganizationForm({ slug, retentionDays, action }: DeleteOrganizationFormProps) {
+  const [state, formAction, pending] = React.useActionState(action, {});
+  const [confirm, setConfirm] = React.useState("");
+
+  return (
+    <form action={formAction}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="delete-confirm">
+            Type <span className="font-mono">{slug}</span> to confirm
+          </FieldLabel>
+          <Input
+            id="delete-confirm"
+            name="confirm"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            autoComplete="off"
+            disabled={pending}
+          />
+          <FieldDescription>
+            Members lose access immediately. An owner can restore the organization
+            for {retentionDays} days; after that it and its data are deleted for good.
+          </FieldDescription>
+        </Field>
+
+        {state.error && (
+          <p className="text-sm text-destructive" role="alert">
+            {state.error}
+          </p>
+        )}
+
+        <Field orientation="horizontal">
+          <Button type="submit" variant="destructive" disabled={pending || confirm !== slug}>
+            {pending ? "Deleting..." : "Delete Organization"}
+          </Button>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
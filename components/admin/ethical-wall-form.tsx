@@ -0,0 +1,168 @@
+"use client";
+
+import * as React from "react";
+import type { WallFormState } from "@/app/(protected)/admin/ethical-walls/actions";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldGroup, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+interface EthicalWallFormProps {
+  /** Organization members who can be screened */
+  members: { userId: string; name: string; email: string }[];
+  /** Screening groups who can be screened together */
+  groups: { id: string; name: string }[];
+  /** Server action that creates the wall */
+  action: (state: WallFormState, formData: FormData) => Promise<WallFormState>;
+}
+
+const subjectTypes = [
+  { label: "Member", value: "user" },
+  { label: "Screening group", value: "group" },
+];
+
+const targetTypes = [
+  { label: "Matter", value: "matter" },
+  { label: "Client (all matters)", value: "client" },
+];
+
+/**
+ * Ethical Wall Form Component
+ *
+ * Screens a member or group off a matter or client. A reason is required
+ * so the wall can be explained in a conflicts audit.
+ *
+ * @example
+ * <EthicalWallForm members={members} groups={groups} action={createWallAction} />
+ */
+export function EthicalWallForm({ members, groups, action }: EthicalWallFormProps) {
+  const [state, formAction, pending] = React.useActionState(action, {});
+  const [subjectType, setSubjectType] = React.useState<string | null>("user");
+  const [targetType, setTargetType] = React.useState<string | null>("matter");
+  const formRef = React.useRef<HTMLFormElement>(null);
+
+  React.useEffect(() => {
+    if (state.success) formRef.current?.reset();
+  }, [state]);
+
+  const subjects =
+    subjectType === "group"
+      ? groups.map((group) => ({ label: group.name, value: group.id }))
+      : members.map((member) => ({
+          label: `${member.name} (${member.email})`,
+          value: member.userId,
+        }));
+
+  return (
+    <form ref={formRef} action={formAction}>
+      <FieldGroup>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field>
+            <FieldLabel htmlFor="wall-subject-type">Screen</FieldLabel>
+            <Select
+              name="subjectType"
+              items={subjectTypes}
+              value={subjectType}
+              onValueChange={setSubjectType}
+            >
+              <SelectTrigger id="wall-subject-type" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {subjectTypes.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="wall-subject">Who</FieldLabel>
+            <Select key={subjectType} name="subjectId" items={subjects} defaultValue={null}>
+              <SelectTrigger id="wall-subject" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {subjects.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="wall-target-type">From</FieldLabel>
+            <Select
+              name="targetType"
+              items={targetTypes}
+              value={targetType}
+              onValueChange={setTargetType}
+            >
+              <SelectTrigger id="wall-target-type" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {targetTypes.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="wall-target">
+              {targetType === "client" ? "Client ID" : "Matter ID"}
+            </FieldLabel>
+            <Input id="wall-target" name="targetId" required disabled={pending} />
+          </Field>
+        </div>
+
+        <Field>
+          <FieldLabel htmlFor="wall-reason">Reason</FieldLabel>
+          <Textarea
+            id="wall-reason"
+            name="reason"
+            placeholder="e.g. Lateral hire - previously represented the opposing party"
+            required
+            disabled={pending}
+          />
+          <FieldDescription>
+            Walls override every role, including owners and partners.
+          </FieldDescription>
+        </Field>
+
+        {state.error && (
+          <p className="text-sm text-destructive" role="alert">
+            {state.error}
+          </p>
+        )}
+
+        <Field orientation="horizontal">
+          <Button type="submit" disabled={pending}>
+            {pending ? "Creating wall..." : "Create Wall"}
+          </Button>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
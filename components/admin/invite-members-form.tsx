@@ -0,0 +1,116 @@
+"use client";
+
+import * as React from "react";
+import type { InviteMembersFormState } from "@/app/(protected)/settings/members/actions";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldGroup, FieldLabel } from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+interface InviteMembersFormProps {
+  /** Roles the current user is allowed to give (legal and custom), lowest first */
+  roles: { label: string; value: string }[];
+  /** Role preselected for new members */
+  defaultRole: string;
+  /** Server action that sends the invitations */
+  action: (
+    state: InviteMembersFormState,
+    formData: FormData
+  ) => Promise<InviteMembersFormState>;
+}
+
+/**
+ * Invite Members Form Component
+ *
+ * Invites everyone in a pasted list of email addresses (one per line, or
+ * copied from an email client) with the same role, then reports which
+ * invitations were sent and which failed.
+ *
+ * @example
+ * <InviteMembersForm
+ *   roles={[{ label: "Staff - Administrative access", value: "staff" }]}
+ *   defaultRole="staff"
+ *   action={inviteMembersAction}
+ * />
+ */
+export function InviteMembersForm({
+  roles: roleOptions,
+  defaultRole,
+  action,
+}: InviteMembersFormProps) {
+  const [state, formAction, pending] = React.useActionState(action, {});
+  const formRef = React.useRef<HTMLFormElement>(null);
+
+  React.useEffect(() => {
+    if (state.invited?.length && !state.failed?.length) formRef.current?.reset();
+  }, [state]);
+
+  return (
+    <form ref={formRef} action={formAction}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="invite-emails">Email addresses</FieldLabel>
+          <Textarea
+            id="invite-emails"
+            name="emails"
+            placeholder={"jane@smithlaw.com\nJohn Doe <john@smithlaw.com>"}
+            required
+            disabled={pending}
+          />
+          <FieldDescription>Paste one or more addresses, up to 50 at a time.</FieldDescription>
+        </Field>
+
+        <Field>
+          <FieldLabel htmlFor="invite-role">Role</FieldLabel>
+          <Select name="role" items={roleOptions} defaultValue={defaultRole}>
+            <SelectTrigger id="invite-role" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {roleOptions.map((item) => (
+                  <SelectItem key={item.value} value={item.value}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </Field>
+
+        {state.invited && state.invited.length > 0 && (
+          <p className="text-sm text-muted-foreground" role="status">
+            Invited {state.invited.join(", ")}.
+          </p>
+        )}
+        {state.failed && state.failed.length > 0 && (
+          <ul className="space-y-1 text-sm text-destructive" role="alert">
+            {state.failed.map((failure) => (
+              <li key={failure.email}>
+                {failure.email}: {failure.error}
+              </li>
+            ))}
+          </ul>
+        )}
+        {state.error && (
+          <p className="text-sm text-destructive" role="alert">
+            {state.error}
+          </p>
+        )}
+
+        <Field orientation="horizontal">
+          <Button type="submit" disabled={pending}>
+            {pending ? "Sending invitations..." : "Send Invitations"}
+          </Button>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import * as React from "react";
+import type { RoleFormState } from "@/app/(protected)/admin/roles/actions";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldGroup, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import type { PermissionResource } from "@/lib/auth/custom-roles";
+import { permissionResources, type PermissionStatement } from "@/lib/auth/permissions";
+
+/** Every action any resource has - the matrix columns */
+const actions = [...new Set(permissionResources.flatMap((definition) => [...definition.actions]))];
+
+function hasAction(permission: PermissionStatement, resource: PermissionResource, action: string) {
+  return ((permission[resource] ?? []) as readonly string[]).includes(action);
+}
+
+/**
+ * One matrix checkbox. A locked cell that is already granted still
+ * submits, so saving doesn't silently drop it.
+ */
+function PermissionCell({
+  value,
+  label,
+  checked,
+  locked,
+  disabled,
+}: {
+  value: string;
+  label: string;
+  checked: boolean;
+  locked: boolean;
+  disabled: boolean;
+}) {
+  return (
+    <>
+      <input
+        type="checkbox"
+        name={locked ? undefined : "permission"}
+        value={value}
+        aria-label={label}
+        defaultChecked={checked}
+        disabled={locked || disabled}
+      />
+      {locked && checked && <input type="hidden" name="permission" value={value} />}
+    </>
+  );
+}
+
+interface RolePermissionsFormProps {
+  /** The role being edited; omit to create one */
+  role?: { id: string; role: string; permission: PermissionStatement };
+  /** Permissions the current user holds - only these can be granted */
+  grantable: PermissionStatement;
+  /** Show the matrix without letting anyone change it */
+  readOnly?: boolean;
+  /** Server action that creates or saves the role */
+  action: (state: RoleFormState, formData: FormData) => Promise<RoleFormState>;
+}
+
+/**
+ * Role Permissions Form Component
+ *
+ * A resource-by-action matrix of checkboxes for a custom role, one row
+ * per registered resource (lib/auth/permissions.ts). Cells the
+ * current user doesn't hold are disabled, since nobody can grant more
+ * than they have.
+ *
+ * @example
+ * <RolePermissionsForm grantable={ownerPermissions} action={createRoleAction} />
+ */
+export function RolePermissionsForm({ role, grantable, readOnly, action }: RolePermissionsFormProps) {
+  const [state, formAction, pending] = React.useActionState(action, {});
+  const formRef = React.useRef<HTMLFormElement>(null);
+  const idPrefix = role ? `role-${role.id}` : "new-role";
+
+  React.useEffect(() => {
+    if (state.saved && !role) formRef.current?.reset();
+  }, [state, role]);
+
+  return (
+    <form ref={formRef} action={formAction}>
+      <FieldGroup>
+        {role ? (
+          <input type="hidden" name="roleId" value={role.id} />
+        ) : (
+          <Field>
+            <FieldLabel htmlFor={`${idPrefix}-name`}>Name</FieldLabel>
+            <Input
+              id={`${idPrefix}-name`}
+              name="role"
+              placeholder="of_counsel"
+              autoComplete="off"
+              required
+              disabled={pending}
+            />
+            <FieldDescription>
+              Lowercase letters, numbers and underscores. Names can&apos;t be changed later.
+            </FieldDescription>
+          </Field>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr className="border-b">
+                <th className="py-2 pr-4 font-medium">Resource</th>
+                {actions.map((action) => (
+                  <th key={action} className="px-2 py-2 text-center font-medium capitalize">
+                    {action}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {permissionResources.map(({ resource, label, actions: resourceActions }) => (
+                <tr key={resource}>
+                  <td className="py-2 pr-4 font-medium">{label}</td>
+                  {actions.map((action) => (
+                    <td key={action} className="px-2 py-2 text-center">
+                      {(resourceActions as readonly string[]).includes(action) ? (
+                        <PermissionCell
+                          value={`${resource}:${action}`}
+                          label={`${label}: ${action}`}
+                          checked={role ? hasAction(role.permission, resource, action) : false}
+                          locked={readOnly || !hasAction(grantable, resource, action)}
+                          disabled={pending}
+                        />
+                      ) : (
+                        <span className="text-muted-foreground" aria-hidden>
+                          -
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {state.saved && (
+          <p className="text-sm text-muted-foreground" role="status">
+            {role ? "Role saved." : "Role created."}
+          </p>
+        )}
+        {state.error && (
+          <p className="text-sm text-destructive" role="alert">
+            {state.error}
+          </p>
+        )}
+
+        {!readOnly && (
+          <Field orientation="horizontal">
+            <Button type="submit" variant={role ? "outline" : "default"} disabled={pending}>
+              {pending ? "Saving..." : role ? "Save Permissions" : "Create Role"}
+            </Button>
+          </Field>
+        )}
+      </FieldGroup>
+    </form>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import * as React from "react";
+import type { ScimTokenFormState } from "@/app/(protected)/admin/scim/actions";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldGroup } from "@/components/ui/field";
+
+interface ScimTokenFormProps {
+  /** Server action that creates the token */
+  action: (state: ScimTokenFormState, formData: FormData) => Promise<ScimTokenFormState>;
+}
+
+/**
+ * SCIM Token Form Component
+ *
+ * Creates a bearer token for the firm's identity provider and shows it
+ * once. Only a hash is kept, so a lost token has to be replaced.
+ *
+ * @example
+ * <ScimTokenForm action={createScimTokenAction} />
+ */
+export function ScimTokenForm({ action }: ScimTokenFormProps) {
+  const [state, formAction, pending] = React.useActionState(action, {});
+
+  return (
+    <form action={formAction}>
+      <FieldGroup>
+        {state.token && (
+          <Field>
+            <code className="block break-all rounded bg-muted px-2 py-1 text-sm">
+              {state.token}
+            </code>
+            <FieldDescription>
+              Copy this token into your identity provider now - it won&apos;t be shown again.
+            </FieldDescription>
+          </Field>
+        )}
+
+        {state.error && (
+          <p className="text-sm text-destructive" role="alert">
+            {state.error}
+          </p>
+        )}
+
+        <Field orientation="horizontal">
+          <Button type="submit" disabled={pending}>
+            {pending ? "Creating token..." : "Create Token"}
+          </Button>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import * as React from "react";
+import type { ScreeningGroupFormState } from "@/app/(protected)/admin/ethical-walls/actions";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldGroup, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ScreeningGroupFormProps {
+  /** The group being edited; omit to create one */
+  group?: { id: string; name: string; memberIds: string[] };
+  /** Organization members who can be in the group */
+  members: { userId: string; name: string; email: string }[];
+  /** Server action that creates or saves the group */
+  action: (
+    state: ScreeningGroupFormState,
+    formData: FormData
+  ) => Promise<ScreeningGroupFormState>;
+}
+
+/**
+ * Screening Group Form Component
+ *
+ * Names a set of members screened together, such as a lateral hire's
+ * former team. Walls naming the group follow its membership, so adding
+ * someone here screens them at once.
+ *
+ * @example
+ * <ScreeningGroupForm members={members} action={saveScreeningGroupAction} />
+ */
+export function ScreeningGroupForm({ group, members, action }: ScreeningGroupFormProps) {
+  const [state, formAction, pending] = React.useActionState(action, {});
+  const formRef = React.useRef<HTMLFormElement>(null);
+  const idPrefix = group ? `group-${group.id}` : "new-group";
+
+  React.useEffect(() => {
+    if (state.saved && !group) formRef.current?.reset();
+  }, [state, group]);
+
+  return (
+    <form ref={formRef} action={formAction}>
+      <FieldGroup>
+        {group && <input type="hidden" name="groupId" value={group.id} />}
+
+        <Field>
+          <FieldLabel htmlFor={`${idPrefix}-name`}>Name</FieldLabel>
+          <Input
+            id={`${idPrefix}-name`}
+            name="name"
+            defaultValue={group?.name}
+            placeholder="e.g. Jones & Co. laterals"
+            autoComplete="off"
+            required
+            disabled={pending}
+          />
+        </Field>
+
+        <Field>
+          <FieldLabel>Members</FieldLabel>
+          <ul className="grid gap-2 sm:grid-cols-2">
+            {members.map((member) => (
+              <li key={member.userId}>
+                <Label className="font-normal">
+                  <input
+                    type="checkbox"
+                    name="memberId"
+                    value={member.userId}
+                    defaultChecked={group?.memberIds.includes(member.userId)}
+                    disabled={pending}
+                  />
+                  {member.name}
+                  <span className="text-muted-foreground">{member.email}</span>
+                </Label>
+              </li>
+            ))}
+          </ul>
+          <FieldDescription>
+            Everyone in the group is screened by the group&apos;s walls.
+          </FieldDescription>
+        </Field>
+
+        {state.saved && (
+          <p className="text-sm text-muted-foreground" role="status">
+            {group ? "Group saved." : "Group created."}
+          </p>
+        )}
+        {state.error && (
+          <p className="text-sm text-destructive" role="alert">
+            {state.error}
+          </p>
+        )}
+
+        <Field orientation="horizontal">
+          <Button type="submit" variant={group ? "outline" : "default"} disabled={pending}>
+            {pending ? "Saving..." : group ? "Save Group" : "Create Group"}
+          </Button>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import * as React from "react";
+import type { SsoFormState } from "@/app/(protected)/admin/sso/actions";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldGroup, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { RoleDescriptions, RoleHierarchy, type LegalRole } from "@/lib/auth/roles";
+
+interface SsoConnectionFormProps {
+  /** Role preselected for new members */
+  defaultRole: LegalRole;
+  /** Server action that registers the connection */
+  action: (state: SsoFormState, formData: FormData) => Promise<SsoFormState>;
+}
+
+const connectionTypes = [
+  { label: "OpenID Connect (OIDC)", value: "oidc" },
+  { label: "SAML 2.0", value: "saml" },
+];
+
+/** Owners are never assigned automatically */
+const roleOptions = RoleHierarchy.filter((role) => role !== "owner").map((role) => ({
+  label: `${role.charAt(0).toUpperCase()}${role.slice(1)} - ${RoleDescriptions[role]}`,
+  value: role,
+}));
+
+/**
+ * SSO Connection Form Component
+ *
+ * Registers an OIDC or SAML identity provider for one email domain.
+ * The connection works immediately; enforcing SSO-only sign-in waits
+ * until the domain is verified.
+ *
+ * @example
+ * <SsoConnectionForm defaultRole={DEFAULT_SSO_ROLE} action={createSsoConnectionAction} />
+ */
+export function SsoConnectionForm({ defaultRole, action }: SsoConnectionFormProps) {
+  const [state, formAction, pending] = React.useActionState(action, {});
+  const [type, setType] = React.useState<string | null>("oidc");
+  const formRef = React.useRef<HTMLFormElement>(null);
+
+  React.useEffect(() => {
+    if (state.success) formRef.current?.reset();
+  }, [state]);
+
+  return (
+    <form ref={formRef} action={formAction}>
+      <FieldGroup>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Field>
+            <FieldLabel htmlFor="sso-type">Protocol</FieldLabel>
+            <Select name="type" items={connectionTypes} value={type} onValueChange={setType}>
+              <SelectTrigger id="sso-type" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {connectionTypes.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="sso-domain">Email domain</FieldLabel>
+            <Input
+              id="sso-domain"
+              name="domain"
+              placeholder="smithlaw.com"
+              required
+              disabled={pending}
+            />
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="sso-issuer">Issuer</FieldLabel>
+            <Input
+              id="sso-issuer"
+              name="issuer"
+              type="url"
+              placeholder="https://login.microsoftonline.com/<tenant>/v2.0"
+              required
+              disabled={pending}
+            />
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="sso-role">Default role</FieldLabel>
+            <Select name="defaultRole" items={roleOptions} defaultValue={defaultRole}>
+              <SelectTrigger id="sso-role" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {roleOptions.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </Field>
+        </div>
+
+        {type === "saml" ? (
+          <>
+            <Field>
+              <FieldLabel htmlFor="sso-entry-point">SSO URL</FieldLabel>
+              <Input
+                id="sso-entry-point"
+                name="entryPoint"
+                type="url"
+                placeholder="https://idp.example.com/saml/sso"
+                required
+                disabled={pending}
+              />
+            </Field>
+            <Field>
+              <FieldLabel htmlFor="sso-cert">Signing certificate</FieldLabel>
+              <Textarea
+                id="sso-cert"
+                name="cert"
+                placeholder="-----BEGIN CERTIFICATE-----"
+                required
+                disabled={pending}
+              />
+              <FieldDescription>The X.509 certificate from your IdP metadata.</FieldDescription>
+            </Field>
+          </>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <Field>
+              <FieldLabel htmlFor="sso-client-id">Client ID</FieldLabel>
+              <Input id="sso-client-id" name="clientId" required disabled={pending} />
+            </Field>
+            <Field>
+              <FieldLabel htmlFor="sso-client-secret">Client secret</FieldLabel>
+              <Input
+                id="sso-client-secret"
+                name="clientSecret"
+                type="password"
+                autoComplete="off"
+                required
+                disabled={pending}
+              />
+            </Field>
+          </div>
+        )}
+
+        <FieldDescription>
+          New users from this domain join the firm with the default role on their
+          first SSO sign-in. Existing members keep their role.
+        </FieldDescription>
+
+        {state.error && (
+          <p className="text-sm text-destructive" role="alert">
+            {state.error}
+          </p>
+        )}
+
+        <Field orientation="horizontal">
+          <Button type="submit" disabled={pending}>
+            {pending ? "Adding connection..." : "Add Connection"}
+          </Button>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
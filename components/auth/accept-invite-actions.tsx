@@ -0,0 +1,102 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { organization } from "@/lib/auth/client";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface AcceptInviteActionsProps {
+  /** Invitation to accept or decline */
+  invitationId: string;
+  /** URL to redirect to after accepting */
+  callbackUrl?: string;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Accept Invite Actions Component
+ *
+ * Accept or decline an organization invitation for the signed-in user.
+ * Accepting makes the organization active and redirects.
+ *
+ * @example
+ * <AcceptInviteActions invitationId={invitation.id} />
+ */
+export function AcceptInviteActions({
+  invitationId,
+  callbackUrl = "/",
+  className,
+}: AcceptInviteActionsProps) {
+  const router = useRouter();
+  const [error, setError] = React.useState<string | null>(null);
+  const [pending, setPending] = React.useState<"accept" | "decline" | null>(null);
+  const [declined, setDeclined] = React.useState(false);
+
+  const handleAccept = async () => {
+    setError(null);
+    setPending("accept");
+
+    const { data, error: acceptError } = await organization.acceptInvitation({
+      invitationId,
+    });
+
+    if (acceptError) {
+      setError(acceptError.message || "Failed to accept invitation");
+      setPending(null);
+      return;
+    }
+
+    if (data?.member) {
+      await organization.setActive({ organizationId: data.member.organizationId });
+    }
+    router.push(callbackUrl);
+    router.refresh();
+  };
+
+  const handleDecline = async () => {
+    setError(null);
+    setPending("decline");
+
+    const { error: rejectError } = await organization.rejectInvitation({
+      invitationId,
+    });
+
+    if (rejectError) {
+      setError(rejectError.message || "Failed to decline invitation");
+      setPending(null);
+      return;
+    }
+
+    setDeclined(true);
+    setPending(null);
+  };
+
+  if (declined) {
+    return (
+      <p className={cn("text-center text-sm text-muted-foreground", className)}>
+        Invitation declined. You can close this page.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <Button onClick={handleAccept} disabled={pending !== null}>
+          {pending === "accept" ? "Joining..." : "Accept Invitation"}
+        </Button>
+        <Button variant="ghost" onClick={handleDecline} disabled={pending !== null}>
+          {pending === "decline" ? "Declining..." : "Decline"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import * as React from "react";
+import { useMinimumRole, usePermission } from "@/lib/auth/hooks";
+import type { PermissionStatement } from "@/lib/auth/permissions";
+import type { LegalRole } from "@/lib/auth/roles";
+
+interface CanProps {
+  /** Permission the active role must grant */
+  permission?: PermissionStatement;
+  /** Minimum role required in the active organization */
+  role?: LegalRole;
+  /** Rendered while loading or when access is denied */
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Can Component
+ *
+ * Renders its children only when the current user's role in the active
+ * organization allows it. This only hides UI - enforce the same check
+ * on the server.
+ *
+ * @example
+ * <Can permission={{ document: ["share"] }} fallback={<span>View only</span>}>
+ *   <Button>Share</Button>
+ * </Can>
+ */
+export function Can({ permission, role, fallback = null, children }: CanProps) {
+  const byPermission = usePermission(permission ?? {});
+  const byRole = useMinimumRole(role ?? "client");
+
+  if (byPermission.isPending || byRole.isPending) {
+    return <>{fallback}</>;
+  }
+
+  const allowed =
+    (!permission || byPermission.allowed) && (!role || byRole.allowed);
+
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { organization } from "@/lib/auth/client";
+import {
+  ORGANIZATION_SLUG_MAX_LENGTH,
+  slugifyOrganizationName,
+  validateOrganizationSlug,
+} from "@/lib/auth/organization-slug";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface CreateOrganizationDialogProps {
+  /** Content of the button that opens the dialog */
+  children?: React.ReactNode;
+}
+
+/**
+ * Create Organization Dialog Component
+ *
+ * Asks for a name and a URL slug (suggested from the name until edited),
+ * checks the slug is valid and free, then creates the organization with
+ * the current user as owner and switches to it.
+ *
+ * @example
+ * <CreateOrganizationDialog>New organization</CreateOrganizationDialog>
+ */
+export function CreateOrganizationDialog({
+  children = "Create organization",
+}: CreateOrganizationDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [slug, setSlug] = React.useState("");
+  const [slugEdited, setSlugEdited] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setName("");
+      setSlug("");
+      setSlugEdited(false);
+      setError(null);
+    }
+  };
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!slugEdited) setSlug(slugifyOrganizationName(value));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const slugError = validateOrganizationSlug(slug);
+    if (slugError) {
+      setError(slugError);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: check } = await organization.checkSlug({ slug });
+      if (!check?.status) {
+        setError("That slug is already taken");
+        setLoading(false);
+        return;
+      }
+
+      const { error: authError } = await organization.create({ name: name.trim(), slug });
+      if (authError) {
+        setError(authError.message || "Failed to create organization");
+        setLoading(false);
+        return;
+      }
+      handleOpenChange(false);
+      router.refresh();
+    } catch {
+      setError("An unexpected error occurred");
+    }
+    setLoading(false);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger render={<Button type="button" variant="outline" size="sm" />}>
+        {children}
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Create organization</AlertDialogTitle>
+            <AlertDialogDescription>
+              You&apos;ll be its owner and can invite members afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="organization-name">Name</Label>
+            <Input
+              id="organization-name"
+              value={name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              placeholder="Smith & Jones LLP"
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="organization-slug">Slug</Label>
+            <Input
+              id="organization-slug"
+              value={slug}
+              onChange={(e) => {
+                setSlugEdited(true);
+                setSlug(e.target.value.toLowerCase());
+              }}
+              placeholder="smith-jones-llp"
+              maxLength={ORGANIZATION_SLUG_MAX_LENGTH}
+              required
+              disabled={loading}
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Creating..." : "Create"}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
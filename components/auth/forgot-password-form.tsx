@@ -0,0 +1,99 @@
+"use client";
+
+import * as React from "react";
+import { authClient } from "@/lib/auth/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface ForgotPasswordFormProps {
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Forgot Password Form Component
+ *
+ * Requests a password reset link. Always shows the same confirmation,
+ * whether or not the email has an account, so the form can't be used to
+ * find out who is registered.
+ *
+ * @example
+ * <ForgotPasswordForm />
+ */
+export function ForgotPasswordForm({ className }: ForgotPasswordFormProps) {
+  const [email, setEmail] = React.useState("");
+  const [submitted, setSubmitted] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const { error: authError } = await authClient.requestPasswordReset({
+        email,
+        redirectTo: "/reset-password",
+      });
+
+      // Rate limiting is the only error worth showing - anything else
+      // would hint at whether the account exists
+      if (authError?.status === 429) {
+        setError("Too many requests. Please wait a minute and try again.");
+        setLoading(false);
+        return;
+      }
+
+      setSubmitted(true);
+    } catch {
+      setError("An unexpected error occurred");
+    }
+    setLoading(false);
+  };
+
+  if (submitted) {
+    return (
+      <div className={cn("space-y-4 text-center", className)}>
+        <p className="text-sm text-muted-foreground" role="status">
+          If an account exists for <span className="font-medium text-foreground">{email}</span>,
+          you&apos;ll get an email with a link to reset your password. The link
+          expires in one hour.
+        </p>
+        <Button type="button" variant="ghost" onClick={() => setSubmitted(false)}>
+          Use a different email
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("space-y-4", className)}>
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          required
+          autoComplete="email"
+          disabled={loading}
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? "Sending..." : "Send reset link"}
+      </Button>
+    </form>
+  );
+}
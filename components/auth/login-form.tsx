@@ -1,8 +1,10 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { authClient } from "@/lib/auth/client";
+import type { SsoLoginRoute } from "@/lib/auth/sso";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -11,6 +13,8 @@ import { cn } from "@/lib/utils";
 interface LoginFormProps {
   /** URL to redirect to after successful login */
   callbackUrl?: string;
+  /** Finds the SSO connection for an email's domain (server action) */
+  lookupSso?: (email: string) => Promise<SsoLoginRoute | null>;
   /** Additional class names */
   className?: string;
 }
@@ -21,18 +25,84 @@ interface LoginFormProps {
  * Handles email/password authentication with Better Auth.
  * Automatically redirects to 2FA verification if enabled.
  *
+ * With `lookupSso`, the email's domain is checked when the field loses
+ * focus: firms with an SSO connection get a "Continue with SSO" button,
+ * and SSO-only firms don't see the password field at all.
+ *
+ * Browsers that support WebAuthn conditional UI offer saved passkeys in
+ * the email field's autofill; there's also a "Sign in with passkey" button.
+ *
  * @example
- * <LoginForm callbackUrl="/dashboard" />
+ * <LoginForm callbackUrl="/dashboard" lookupSso={lookupSsoAction} />
  */
-export function LoginForm({ callbackUrl = "/", className }: LoginFormProps) {
+export function LoginForm({ callbackUrl = "/", lookupSso, className }: LoginFormProps) {
   const router = useRouter();
   const [email, setEmail] = React.useState("");
   const [password, setPassword] = React.useState("");
+  const [sso, setSso] = React.useState<SsoLoginRoute | null>(null);
   const [error, setError] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(false);
+  const [passkeySupported, setPasskeySupported] = React.useState(false);
+
+  // Conditional UI: passkeys show up in the email field's autofill. The
+  // request stays pending until the user picks one (or leaves the page).
+  React.useEffect(() => {
+    if (typeof window.PublicKeyCredential === "undefined") return;
+    setPasskeySupported(true);
+
+    void PublicKeyCredential.isConditionalMediationAvailable?.().then(async (available) => {
+      if (!available) return;
+      const { data } = await authClient.signIn.passkey({ autoFill: true });
+      if (data) router.push(callbackUrl);
+    });
+  }, [callbackUrl, router]);
+
+  const checkSso = async () => {
+    if (!lookupSso || !email.includes("@")) return setSso(null);
+    setSso(await lookupSso(email).catch(() => null));
+  };
+
+  const handleSso = async () => {
+    if (!sso) return;
+    setError(null);
+    setLoading(true);
+
+    // The server picks the connection for the email's verified domain
+    const { error: authError } = await authClient.signIn.sso({
+      email,
+      loginHint: email,
+      callbackURL: callbackUrl,
+      errorCallbackURL: "/login",
+    });
+
+    // On success the browser is already navigating to the identity provider
+    if (authError) {
+      setError(authError.message || "Failed to start single sign-on");
+      setLoading(false);
+    }
+  };
+
+  const handlePasskey = async () => {
+    setError(null);
+    setLoading(true);
+
+    try {
+      const { error: authError } = await authClient.signIn.passkey();
+      if (authError) {
+        setError(authError.message || "Passkey sign-in was cancelled or failed");
+        setLoading(false);
+        return;
+      }
+      router.push(callbackUrl);
+    } catch {
+      setError("An unexpected error occurred");
+      setLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (sso?.enforced) return handleSso();
     setError(null);
     setLoading(true);
 
@@ -42,6 +112,21 @@ export function LoginForm({ callbackUrl = "/", className }: LoginFormProps) {
         password,
       });
 
+      // Email verification required - show "check your inbox" with resend
+      if (authError?.code === "EMAIL_NOT_VERIFIED") {
+        const params = new URLSearchParams({ email, callbackUrl });
+        router.push(`/verify-email?${params}`);
+        return;
+      }
+
+      // The firm only allows SSO for this domain
+      if (authError?.code === "SSO_REQUIRED") {
+        await checkSso();
+        setError(authError.message || "Your organization requires single sign-on");
+        setLoading(false);
+        return;
+      }
+
       if (authError) {
         setError(authError.message || "Failed to sign in");
         setLoading(false);
@@ -50,7 +135,7 @@ export function LoginForm({ callbackUrl = "/", className }: LoginFormProps) {
 
       // Check if 2FA verification is required
       if (data && "twoFactorRedirect" in data && data.twoFactorRedirect) {
-        router.push("/verify-2fa");
+        router.push(`/verify-2fa?callbackUrl=${encodeURIComponent(callbackUrl)}`);
         return;
       }
 
@@ -70,25 +155,55 @@ export function LoginForm({ callbackUrl = "/", className }: LoginFormProps) {
           type="email"
           value={email}
           onChange={(e) => setEmail(e.target.value)}
+          onBlur={checkSso}
           placeholder="you@example.com"
           required
-          autoComplete="email"
+          autoComplete="username webauthn"
           disabled={loading}
         />
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="password">Password</Label>
-        <Input
-          id="password"
-          type="password"
-          value={password}
-          onChange={(e) => setPassword(e.target.value)}
-          required
-          autoComplete="current-password"
-          disabled={loading}
-        />
-      </div>
+      {sso && (
+        <div className="space-y-2 rounded-md border px-3 py-3 text-sm">
+          <p className="text-muted-foreground">
+            {sso.enforced
+              ? "Your organization requires single sign-on."
+              : "Your organization supports single sign-on."}
+          </p>
+          <Button
+            type="button"
+            variant={sso.enforced ? "default" : "outline"}
+            className="w-full"
+            onClick={handleSso}
+            disabled={loading}
+          >
+            {loading && sso.enforced ? "Redirecting..." : "Continue with SSO"}
+          </Button>
+        </div>
+      )}
+
+      {!sso?.enforced && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="password">Password</Label>
+            <Link
+              href="/forgot-password"
+              className="text-xs text-muted-foreground underline-offset-4 hover:underline"
+            >
+              Forgot password?
+            </Link>
+          </div>
+          <Input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoComplete="current-password"
+            disabled={loading}
+          />
+        </div>
+      )}
 
       {error && (
         <p className="text-sm text-destructive" role="alert">
@@ -96,9 +211,23 @@ export function LoginForm({ callbackUrl = "/", className }: LoginFormProps) {
         </p>
       )}
 
-      <Button type="submit" className="w-full" disabled={loading}>
-        {loading ? "Signing in..." : "Sign In"}
-      </Button>
+      {!sso?.enforced && (
+        <Button type="submit" className="w-full" disabled={loading}>
+          {loading ? "Signing in..." : "Sign In"}
+        </Button>
+      )}
+
+      {passkeySupported && !sso?.enforced && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={handlePasskey}
+          disabled={loading}
+        >
+          Sign in with passkey
+        </Button>
+      )}
     </form>
   );
 }
@@ -0,0 +1,58 @@
+"use client";
+
+import * as React from "react";
+import { FlaskIcon, GoogleLogoIcon, WindowsLogoIcon } from "@phosphor-icons/react";
+import { authClient } from "@/lib/auth/client";
+import type { OAuthProviderOption } from "@/lib/auth/oauth";
+import { Button } from "@/components/ui/button";
+
+const providerIcons: Record<OAuthProviderOption["id"], React.ElementType> = {
+  google: GoogleLogoIcon,
+  microsoft: WindowsLogoIcon,
+  mock: FlaskIcon,
+};
+
+interface OAuthButtonProps {
+  provider: OAuthProviderOption;
+  /** URL to redirect to after successful sign in */
+  callbackUrl?: string;
+}
+
+/**
+ * OAuth Button Component
+ *
+ * Starts the redirect to one provider. Failures come back to /login
+ * with `?error=...`.
+ *
+ * @example
+ * <OAuthButton provider={{ id: "google", name: "Google", type: "social" }} />
+ */
+export function OAuthButton({ provider, callbackUrl = "/" }: OAuthButtonProps) {
+  const [loading, setLoading] = React.useState(false);
+  const Icon = providerIcons[provider.id];
+
+  const handleClick = async () => {
+    setLoading(true);
+    const options = { callbackURL: callbackUrl, errorCallbackURL: "/login" };
+    const { error } =
+      provider.type === "social"
+        ? await authClient.signIn.social({ provider: provider.id, ...options })
+        : await authClient.signIn.oauth2({ providerId: provider.id, ...options });
+
+    // On success the browser is already navigating away
+    if (error) setLoading(false);
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      className="w-full"
+      onClick={handleClick}
+      disabled={loading}
+    >
+      <Icon data-icon="inline-start" />
+      {loading ? "Redirecting..." : `Continue with ${provider.name}`}
+    </Button>
+  );
+}
@@ -0,0 +1,41 @@
+import { OAuthButton } from "@/components/auth/oauth-button";
+import { getOAuthProviderOptions } from "@/lib/auth/oauth";
+
+interface OAuthButtonsProps {
+  /** URL to redirect to after successful sign in */
+  callbackUrl?: string;
+}
+
+/**
+ * OAuth Buttons Component (server)
+ *
+ * One button per provider with credentials in env, under an
+ * "Or continue with" divider. Renders nothing when none are configured.
+ *
+ * @example
+ * <OAuthButtons callbackUrl="/dashboard" />
+ */
+export function OAuthButtons({ callbackUrl }: OAuthButtonsProps) {
+  const providers = getOAuthProviderOptions();
+  if (providers.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <span className="w-full border-t" />
+        </div>
+        <div className="relative flex justify-center text-xs uppercase">
+          <span className="bg-background px-2 text-muted-foreground">
+            Or continue with
+          </span>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {providers.map((provider) => (
+          <OAuthButton key={provider.id} provider={provider} callbackUrl={callbackUrl} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import {
+  organization,
+  useActiveOrganization,
+  useListOrganizations,
+} from "@/lib/auth/client";
+import type { LegalRole } from "@/lib/auth/roles";
+import { Badge } from "@/components/ui/badge";
+import {
+  Combobox,
+  ComboboxContent,
+  ComboboxEmpty,
+  ComboboxInput,
+  ComboboxItem,
+  ComboboxList,
+} from "@/components/ui/combobox";
+import { cn } from "@/lib/utils";
+import { CreateOrganizationDialog } from "./create-organization-dialog";
+
+interface OrganizationOption {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+interface OrganizationSwitcherProps {
+  /**
+   * The user's roles in each organization, keyed by organization ID
+   * (from `getOrganizationRoles()` in lib/auth/server.ts)
+   */
+  roles?: Record<string, LegalRole[]>;
+  /** Show the "create organization" button */
+  allowCreate?: boolean;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Organization Switcher Component
+ *
+ * Searchable list of the user's organizations with their role in each.
+ * Picking one makes it the session's active organization, which every
+ * server guard and permission check is scoped to.
+ *
+ * @example
+ * <OrganizationSwitcher roles={await getOrganizationRoles()} />
+ */
+export function OrganizationSwitcher({
+  roles = {},
+  allowCreate = true,
+  className,
+}: OrganizationSwitcherProps) {
+  const router = useRouter();
+  const { data: organizations, isPending } = useListOrganizations();
+  const { data: activeOrganization } = useActiveOrganization();
+  const [error, setError] = React.useState<string | null>(null);
+  const [switching, setSwitching] = React.useState(false);
+
+  const items: OrganizationOption[] = (organizations ?? []).map(({ id, name, slug }) => ({
+    id,
+    name,
+    slug,
+  }));
+  const selected = items.find((item) => item.id === activeOrganization?.id) ?? null;
+
+  const handleChange = async (next: OrganizationOption | null) => {
+    if (!next || next.id === activeOrganization?.id) return;
+    setError(null);
+    setSwitching(true);
+
+    const { error: authError } = await organization.setActive({ organizationId: next.id });
+    setSwitching(false);
+
+    if (authError) {
+      setError(authError.message || "Failed to switch organization");
+      return;
+    }
+    router.refresh();
+  };
+
+  if (isPending) return null;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2">
+        {items.length > 0 && (
+          <Combobox
+            items={items}
+            value={selected}
+            onValueChange={handleChange}
+            itemToStringLabel={(item: OrganizationOption) => item.name}
+            isItemEqualToValue={(item: OrganizationOption, value: OrganizationOption) =>
+              item.id === value.id
+            }
+            disabled={switching}
+          >
+            <ComboboxInput
+              aria-label="Organization"
+              placeholder="Select organization"
+              className="w-56"
+              disabled={switching}
+            />
+            <ComboboxContent>
+              <ComboboxEmpty>No organizations found.</ComboboxEmpty>
+              <ComboboxList>
+                {(item: OrganizationOption) => (
+                  <ComboboxItem key={item.id} value={item}>
+                    <span className="truncate">{item.name}</span>
+                    {roles[item.id]?.map((role) => (
+                      <Badge key={role} variant="outline" className="capitalize">
+                        {role}
+                      </Badge>
+                    ))}
+                  </ComboboxItem>
+                )}
+              </ComboboxList>
+            </ComboboxContent>
+          </Combobox>
+        )}
+        {allowCreate && (
+          <CreateOrganizationDialog>
+            {items.length > 0 ? "New" : "Create organization"}
+          </CreateOrganizationDialog>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { passkey, useListPasskeys } from "@/lib/auth/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface PasskeySettingsProps {
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Passkey Settings Component
+ *
+ * Lists the signed-in user's passkeys, registers new ones (the browser
+ * prompts for Touch ID, Windows Hello or a security key) and removes them.
+ *
+ * @example
+ * <PasskeySettings />
+ */
+export function PasskeySettings({ className }: PasskeySettingsProps) {
+  const router = useRouter();
+  const { data: passkeys, isPending } = useListPasskeys();
+  const [name, setName] = React.useState("");
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const { error: authError } = await passkey.addPasskey({
+        name: name.trim() || undefined,
+      });
+      if (authError) {
+        setError(authError.message || "Passkey registration was cancelled or failed");
+      } else {
+        setName("");
+        router.refresh();
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    }
+    setLoading(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    setLoading(true);
+
+    const { error: authError } = await passkey.deletePasskey({ id });
+    setLoading(false);
+
+    if (authError) {
+      setError(authError.message || "Failed to remove passkey");
+      return;
+    }
+    router.refresh();
+  };
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {isPending ? (
+        <p className="text-sm text-muted-foreground">Loading passkeys...</p>
+      ) : passkeys && passkeys.length > 0 ? (
+        <ul className="divide-y rounded-md border">
+          {passkeys.map((item) => (
+            <li key={item.id} className="flex items-center justify-between gap-4 px-3 py-2">
+              <div className="space-y-1">
+                <p className="text-sm font-medium">{item.name || "Unnamed passkey"}</p>
+                <div className="flex gap-2">
+                  <Badge variant="outline">
+                    {item.deviceType === "multiDevice" ? "Synced" : "This device"}
+                  </Badge>
+                  <Badge variant="outline">
+                    Added {new Date(item.createdAt).toLocaleDateString()}
+                  </Badge>
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="destructive"
+                size="sm"
+                onClick={() => handleDelete(item.id)}
+                disabled={loading}
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No passkeys yet.</p>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <Label htmlFor="passkey-name">Name (optional)</Label>
+        <div className="flex gap-2">
+          <Input
+            id="passkey-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Work laptop"
+            disabled={loading}
+          />
+          <Button type="submit" disabled={loading}>
+            {loading ? "Waiting..." : "Add passkey"}
+          </Button>
+        </div>
+      </form>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { CheckIcon, XIcon } from "@phosphor-icons/react";
+import { checkPassword } from "@/lib/auth/password";
+import { cn } from "@/lib/utils";
+
+interface PasswordRequirementsProps {
+  /** Password being typed */
+  password: string;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Password Requirements Component
+ *
+ * Live checklist of the rules in lib/auth/password.ts.
+ *
+ * @example
+ * <PasswordRequirements password={password} />
+ */
+export function PasswordRequirements({ password, className }: PasswordRequirementsProps) {
+  return (
+    <ul className={cn("space-y-1 text-xs", className)} aria-label="Password requirements">
+      {checkPassword(password).map((rule) => (
+        <li
+          key={rule.id}
+          className={cn(
+            "flex items-center gap-1.5",
+            rule.passed ? "text-foreground" : "text-muted-foreground"
+          )}
+        >
+          {rule.passed ? <CheckIcon className="size-3" /> : <XIcon className="size-3" />}
+          {rule.label}
+        </li>
+      ))}
+    </ul>
+  );
+}
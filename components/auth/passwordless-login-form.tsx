@@ -0,0 +1,192 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { authClient } from "@/lib/auth/client";
+import type { PasswordlessMode } from "@/lib/auth/passwordless";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface PasswordlessLoginFormProps {
+  /** "magic-link" emails a sign-in link, "email-otp" a 6-digit code */
+  mode: PasswordlessMode;
+  /** URL to redirect to after successful login */
+  callbackUrl?: string;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Passwordless Login Form Component
+ *
+ * The email-only variant of LoginForm, for client portals. Depending on
+ * the deployment's AUTH_PASSWORDLESS_MODE it either emails a sign-in link
+ * or emails a code and asks for it here. Links and codes work once and
+ * expire after 10 minutes.
+ *
+ * @example
+ * <PasswordlessLoginForm mode="magic-link" callbackUrl="/portal" />
+ */
+export function PasswordlessLoginForm({
+  mode,
+  callbackUrl = "/",
+  className,
+}: PasswordlessLoginFormProps) {
+  const router = useRouter();
+  const [email, setEmail] = React.useState("");
+  const [code, setCode] = React.useState("");
+  const [sent, setSent] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const sendErrorMessage = (authError: { status: number; code?: string; message?: string }) => {
+    if (authError.status === 429) return "Too many requests. Please wait a minute and try again.";
+    if (authError.code === "SSO_REQUIRED") return "Your organization requires single sign-on.";
+    return authError.message || "Failed to send the email";
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const { error: authError } =
+        mode === "magic-link"
+          ? await authClient.signIn.magicLink({
+              email,
+              callbackURL: callbackUrl,
+              errorCallbackURL: `/login?callbackUrl=${encodeURIComponent(callbackUrl)}`,
+            })
+          : await authClient.emailOtp.sendVerificationOtp({ email, type: "sign-in" });
+
+      if (authError) {
+        setError(sendErrorMessage(authError));
+      } else {
+        setSent(true);
+      }
+    } catch {
+      setError("An unexpected error occurred");
+    }
+    setLoading(false);
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const { error: authError } = await authClient.signIn.emailOtp({
+        email,
+        otp: code.trim(),
+      });
+
+      if (authError) {
+        setError(
+          authError.code === "TOO_MANY_ATTEMPTS" || authError.code === "OTP_EXPIRED"
+            ? "That code has expired. Request a new one."
+            : authError.code === "INVALID_OTP"
+              ? "That code isn't right. Check the email and try again."
+              : authError.message || "Failed to sign in"
+        );
+        setLoading(false);
+        return;
+      }
+      router.push(callbackUrl);
+    } catch {
+      setError("An unexpected error occurred");
+      setLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setSent(false);
+    setCode("");
+    setError(null);
+  };
+
+  if (sent && mode === "magic-link") {
+    return (
+      <div className={cn("space-y-4 text-center", className)}>
+        <p className="text-sm text-muted-foreground" role="status">
+          We sent a sign-in link to <span className="font-medium text-foreground">{email}</span>.
+          It works once and expires in 10 minutes.
+        </p>
+        <Button type="button" variant="outline" className="w-full" onClick={reset}>
+          Use a different email
+        </Button>
+      </div>
+    );
+  }
+
+  if (sent) {
+    return (
+      <form onSubmit={handleVerify} className={cn("space-y-4", className)}>
+        <p className="text-sm text-muted-foreground" role="status">
+          Enter the code we sent to <span className="font-medium text-foreground">{email}</span>.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="code">Code</Label>
+          <Input
+            id="code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            required
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            disabled={loading}
+          />
+        </div>
+
+        {error && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        <Button type="submit" className="w-full" disabled={loading}>
+          {loading ? "Signing in..." : "Sign In"}
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={reset} disabled={loading}>
+          Send a new code
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSend} className={cn("space-y-4", className)}>
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          required
+          autoComplete="email"
+          disabled={loading}
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading
+          ? "Sending..."
+          : mode === "magic-link"
+            ? "Email me a sign-in link"
+            : "Email me a sign-in code"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import * as React from "react";
+import type { ReauthenticateFormState } from "@/app/(protected)/settings/security/actions";
+import { authClient } from "@/lib/auth/client";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ReauthenticationGateProps {
+  /** Forms inside submit only once the password is confirmed */
+  children: React.ReactNode;
+  /** ISO timestamp the last confirmation (or sign-in) holds until */
+  until: string;
+  /** Whether the user has a password - everyone else signs in again */
+  hasPassword: boolean;
+  /** Server action confirming the password */
+  action: (
+    state: ReauthenticateFormState,
+    formData: FormData
+  ) => Promise<ReauthenticateFormState>;
+}
+
+/**
+ * Reauthentication Gate Component
+ *
+ * Wraps forms for sensitive actions. Submitting one after the firm's
+ * re-authentication window has passed asks for the password first, then
+ * submits the form as if nothing happened. Users without a password (SSO,
+ * magic link, passkeys) are sent to sign in again. The action itself
+ * still checks with requireRecentAuthentication().
+ *
+ * @example
+ * <ReauthenticationGate until={until} hasPassword={hasPassword} action={reauthenticateAction}>
+ *   <DeleteOrganizationForm ... />
+ * </ReauthenticationGate>
+ */
+export function ReauthenticationGate({
+  children,
+  until,
+  hasPassword,
+  action,
+}: ReauthenticationGateProps) {
+  const confirmedUntil = React.useRef(new Date(until).getTime());
+  const blocked = React.useRef<{ form: HTMLFormElement; submitter: HTMLElement | null } | null>(
+    null
+  );
+  const passwordForm = React.useRef<HTMLFormElement>(null);
+  const [open, setOpen] = React.useState(false);
+
+  const [state, formAction, pending] = React.useActionState(
+    async (previous: ReauthenticateFormState, formData: FormData) => {
+      const result = await action(previous, formData);
+      if (result.signedOut) {
+        window.location.href = "/login?reason=expired";
+      } else if (result.until) {
+        confirmedUntil.current = new Date(result.until).getTime();
+        setOpen(false);
+        // Submit the form that was held back, now that the gate lets it through
+        const held = blocked.current;
+        blocked.current = null;
+        if (held?.form.isConnected) {
+          setTimeout(() => held.form.requestSubmit(held.submitter ?? undefined));
+        }
+      }
+      return result;
+    },
+    {}
+  );
+
+  const handleSubmitCapture = (event: React.FormEvent<HTMLDivElement>) => {
+    const form = event.target;
+    // The dialog's own form bubbles through here too (React portals do)
+    if (!(form instanceof HTMLFormElement) || form === passwordForm.current) return;
+    if (Date.now() < confirmedUntil.current) return;
+    event.preventDefault();
+    event.stopPropagation();
+    blocked.current = { form, submitter: (event.nativeEvent as SubmitEvent).submitter };
+    setOpen(true);
+  };
+
+  const handleSignInAgain = async () => {
+    await authClient.signOut();
+    const callbackUrl = `${window.location.pathname}${window.location.search}`;
+    window.location.href = `/login?callbackUrl=${encodeURIComponent(callbackUrl)}`;
+  };
+
+  return (
+    <div onSubmitCapture={handleSubmitCapture}>
+      {children}
+      <AlertDialog open={open} onOpenChange={setOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirm it&apos;s you</AlertDialogTitle>
+            <AlertDialogDescription>
+              {hasPassword
+                ? "Enter your password to continue. You won't be asked again for a while."
+                : "Sign in again to continue. You'll come back to this page."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {hasPassword ? (
+            <form ref={passwordForm} action={formAction} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reauthenticate-password">Password</Label>
+                <Input
+                  id="reauthenticate-password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  autoFocus
+                  disabled={pending}
+                />
+              </div>
+              {state.error && (
+                <p className="text-sm text-destructive" role="alert">
+                  {state.error}
+                </p>
+              )}
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={pending}>Cancel</AlertDialogCancel>
+                <Button type="submit" disabled={pending}>
+                  {pending ? "Checking..." : "Confirm"}
+                </Button>
+              </AlertDialogFooter>
+            </form>
+          ) : (
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <Button onClick={handleSignInAgain}>Sign in again</Button>
+            </AlertDialogFooter>
+          )}
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
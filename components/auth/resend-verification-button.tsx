@@ -0,0 +1,120 @@
+"use client";
+
+import * as React from "react";
+import { authClient } from "@/lib/auth/client";
+import { getVerificationCallbackURL } from "@/lib/auth/email-verification";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+/** Seconds to wait between resends (the server also rate limits) */
+const RESEND_COOLDOWN = 60;
+
+interface ResendVerificationButtonProps {
+  /** Address to resend to - asks for one when omitted */
+  email?: string;
+  /** Where to go after verifying */
+  callbackUrl?: string;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Resend Verification Button Component
+ *
+ * Sends a fresh verification link, then waits out a cooldown before it
+ * can be used again. Server-side limits are in `rateLimit.customRules`.
+ *
+ * @example
+ * <ResendVerificationButton email={user.email} callbackUrl="/dashboard" />
+ */
+export function ResendVerificationButton({
+  email: defaultEmail,
+  callbackUrl = "/",
+  className,
+}: ResendVerificationButtonProps) {
+  const [email, setEmail] = React.useState(defaultEmail ?? "");
+  const [cooldown, setCooldown] = React.useState(0);
+  const [sent, setSent] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  React.useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const { error: authError } = await authClient.sendVerificationEmail({
+        email,
+        callbackURL: getVerificationCallbackURL(callbackUrl),
+      });
+
+      if (authError) {
+        setError(
+          authError.status === 429
+            ? "Too many requests. Please wait a minute and try again."
+            : authError.message || "Failed to send verification email"
+        );
+      } else {
+        setSent(true);
+      }
+      setCooldown(RESEND_COOLDOWN);
+    } catch {
+      setError("An unexpected error occurred");
+    }
+    setLoading(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("space-y-4", className)}>
+      {!defaultEmail && (
+        <div className="space-y-2 text-left">
+          <Label htmlFor="email">Email</Label>
+          <Input
+            id="email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+            required
+            autoComplete="email"
+            disabled={loading}
+          />
+        </div>
+      )}
+
+      {sent && !error && (
+        <p className="text-sm text-muted-foreground" role="status">
+          Sent. Check your inbox (and spam folder).
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Button
+        type="submit"
+        variant="outline"
+        className="w-full"
+        disabled={loading || cooldown > 0}
+      >
+        {loading
+          ? "Sending..."
+          : cooldown > 0
+            ? `Resend in ${cooldown}s`
+            : "Resend verification email"}
+      </Button>
+    </form>
+  );
+}
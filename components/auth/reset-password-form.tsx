@@ -0,0 +1,131 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { authClient } from "@/lib/auth/client";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PasswordRequirements } from "@/components/auth/password-requirements";
+import { PASSWORD_MIN_LENGTH, validatePassword } from "@/lib/auth/password";
+import { cn } from "@/lib/utils";
+
+interface ResetPasswordFormProps {
+  /** Token from the reset link (`/reset-password?token=...`) */
+  token: string;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Reset Password Form Component
+ *
+ * Sets a new password from a reset link. Uses the same strength rules as
+ * SignupForm. Every existing session is signed out on success, so the
+ * user signs in again with the new password.
+ *
+ * @example
+ * <ResetPasswordForm token={token} />
+ */
+export function ResetPasswordForm({ token, className }: ResetPasswordFormProps) {
+  const [password, setPassword] = React.useState("");
+  const [confirmPassword, setConfirmPassword] = React.useState("");
+  const [done, setDone] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error: authError } = await authClient.resetPassword({
+        newPassword: password,
+        token,
+      });
+
+      if (authError) {
+        setError(
+          authError.code === "INVALID_TOKEN"
+            ? "This reset link is invalid or has expired. Request a new one."
+            : authError.message || "Failed to reset password"
+        );
+        setLoading(false);
+        return;
+      }
+
+      setDone(true);
+    } catch {
+      setError("An unexpected error occurred");
+      setLoading(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className={cn("space-y-4 text-center", className)}>
+        <p className="text-sm text-muted-foreground" role="status">
+          Your password has been reset and you&apos;ve been signed out everywhere.
+        </p>
+        <Link href="/login" className={buttonVariants({ className: "w-full" })}>
+          Sign in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("space-y-4", className)}>
+      <div className="space-y-2">
+        <Label htmlFor="password">New Password</Label>
+        <Input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          autoComplete="new-password"
+          disabled={loading}
+          minLength={PASSWORD_MIN_LENGTH}
+        />
+        <PasswordRequirements password={password} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          autoComplete="new-password"
+          disabled={loading}
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? "Resetting..." : "Reset Password"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import * as React from "react";
+import type { SessionActivityState } from "@/app/(protected)/settings/security/actions";
+import { authClient } from "@/lib/auth/client";
+import { ACTIVITY_WRITE_INTERVAL_SECONDS, IDLE_WARNING_SECONDS } from "@/lib/auth/session-policy";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+/** Tabs share the idle deadline through this localStorage key */
+const ACTIVITY_STORAGE_KEY = "auth:idle-expires-at";
+
+const activityEvents = ["pointerdown", "keydown", "scroll", "touchstart"] as const;
+
+interface SessionTimeoutDialogProps {
+  /** ISO timestamp the session ends without activity - null for no idle timeout */
+  idleExpiresAt: string | null;
+  /** ISO timestamp the session ends regardless - null for no max lifetime */
+  absoluteExpiresAt: string | null;
+  /** Server action recording activity and returning the new deadlines */
+  recordActivity: () => Promise<SessionActivityState>;
+}
+
+function toTime(value: string | null | undefined): number | null {
+  return value ? new Date(value).getTime() : null;
+}
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
+}
+
+/**
+ * Sign out and say why on the login page
+ */
+async function signOutExpired() {
+  await authClient.signOut();
+  const callbackUrl = `${window.location.pathname}${window.location.search}`;
+  window.location.href = `/login?reason=expired&callbackUrl=${encodeURIComponent(callbackUrl)}`;
+}
+
+/**
+ * Session Timeout Dialog Component
+ *
+ * Enforces the firm's session policy in the browser. While the user is
+ * active it tells the server (at most once a minute), shares the idle
+ * deadline with other tabs, and a minute before either deadline asks
+ * whether to stay signed in. When time runs out it signs out. The server
+ * enforces the same deadlines on its own (requireSession).
+ *
+ * @example
+ * <SessionTimeoutDialog
+ *   idleExpiresAt={status.idleExpiresAt?.toISOString() ?? null}
+ *   absoluteExpiresAt={status.absoluteExpiresAt?.toISOString() ?? null}
+ *   recordActivity={recordSessionActivityAction}
+ * />
+ */
+export function SessionTimeoutDialog({
+  idleExpiresAt,
+  absoluteExpiresAt,
+  recordActivity,
+}: SessionTimeoutDialogProps) {
+  const [idleDeadline, setIdleDeadline] = React.useState(() => toTime(idleExpiresAt));
+  const [absoluteDeadline, setAbsoluteDeadline] = React.useState(() => toTime(absoluteExpiresAt));
+  const [now, setNow] = React.useState(() => Date.now());
+  const [lifetimeAcknowledged, setLifetimeAcknowledged] = React.useState(false);
+  const [pending, setPending] = React.useState(false);
+  const lastRecorded = React.useRef(0);
+
+  const deadline =
+    idleDeadline === null
+      ? absoluteDeadline
+      : absoluteDeadline === null
+        ? idleDeadline
+        : Math.min(idleDeadline, absoluteDeadline);
+  const reason = deadline === null ? null : deadline === absoluteDeadline ? "lifetime" : "idle";
+  const warning =
+    deadline !== null &&
+    now >= deadline - IDLE_WARNING_SECONDS * 1000 &&
+    !(reason === "lifetime" && lifetimeAcknowledged);
+
+  const record = React.useCallback(async () => {
+    lastRecorded.current = Date.now();
+    const result = await recordActivity();
+    if (result.signedOut) {
+      await signOutExpired();
+      return;
+    }
+    const nextIdle = toTime(result.idleExpiresAt);
+    setIdleDeadline(nextIdle);
+    setAbsoluteDeadline(toTime(result.absoluteExpiresAt));
+    setNow(Date.now());
+    if (nextIdle !== null) window.localStorage.setItem(ACTIVITY_STORAGE_KEY, String(nextIdle));
+  }, [recordActivity]);
+
+  // Loading the page was activity already - the first write can wait an
+  // interval
+  React.useEffect(() => {
+    lastRecorded.current = Date.now();
+  }, []);
+
+  // Count input as activity, at most once per interval and never while
+  // the warning is up (the user has to answer it). A failed write is
+  // retried after the next interval; the deadline check signs out if
+  // it never lands.
+  React.useEffect(() => {
+    if (idleDeadline === null || warning) return;
+    const handleActivity = () => {
+      if (Date.now() - lastRecorded.current < ACTIVITY_WRITE_INTERVAL_SECONDS * 1000) return;
+      record().catch(() => {});
+    };
+    for (const event of activityEvents) {
+      window.addEventListener(event, handleActivity, { passive: true });
+    }
+    return () => {
+      for (const event of activityEvents) window.removeEventListener(event, handleActivity);
+    };
+  }, [idleDeadline, warning, record]);
+
+  // Activity in another tab moves this tab's deadline too
+  React.useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== ACTIVITY_STORAGE_KEY || !event.newValue) return;
+      const next = Number(event.newValue);
+      if (Number.isFinite(next)) {
+        setIdleDeadline((current) => (current === null ? current : Math.max(current, next)));
+        setNow(Date.now());
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  // Wake up when the warning is due, then tick every second until the end
+  React.useEffect(() => {
+    if (deadline === null) return;
+    if (now >= deadline) {
+      void signOutExpired();
+      return;
+    }
+    const warnAt = deadline - IDLE_WARNING_SECONDS * 1000;
+    const wakeAt = warning ? now + 1000 : now < warnAt ? warnAt : deadline;
+    const timer = window.setTimeout(() => setNow(Date.now()), wakeAt - now);
+    return () => window.clearTimeout(timer);
+  }, [deadline, now, warning]);
+
+  const handleStay = async () => {
+    setPending(true);
+    try {
+      await record();
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setPending(true);
+    await signOutExpired();
+  };
+
+  if (deadline === null) return null;
+
+  return (
+    <AlertDialog open={warning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {reason === "idle" ? "Are you still there?" : "Your session is ending"}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {reason === "idle"
+              ? `You'll be signed out in ${formatRemaining(deadline - now)} because you've been inactive.`
+              : `Your firm signs you out after a set time. You'll be signed out in ${formatRemaining(deadline - now)} - save your work.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={handleSignOut} disabled={pending}>
+            Sign out now
+          </Button>
+          {reason === "idle" ? (
+            <Button onClick={handleStay} disabled={pending}>
+              {pending ? "Staying..." : "Stay signed in"}
+            </Button>
+          ) : (
+            <Button onClick={() => setLifetimeAcknowledged(true)} disabled={pending}>
+              OK
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import * as React from "react";
+import { signOut } from "@/lib/auth/client";
+import { Button } from "@/components/ui/button";
+
+interface SignOutButtonProps extends Omit<React.ComponentProps<typeof Button>, "onClick"> {
+  children?: React.ReactNode;
+}
+
+/**
+ * Sign Out Button Component
+ *
+ * Ends the current session and returns to /login. Takes the same props
+ * as Button.
+ *
+ * @example
+ * <SignOutButton variant="outline" size="sm">Sign out</SignOutButton>
+ */
+export function SignOutButton({ children = "Sign out", disabled, ...props }: SignOutButtonProps) {
+  const [pending, setPending] = React.useState(false);
+
+  const handleClick = async () => {
+    setPending(true);
+    try {
+      await signOut();
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <Button type="button" {...props} onClick={handleClick} disabled={disabled || pending}>
+      {pending ? "Signing out..." : children}
+    </Button>
+  );
+}
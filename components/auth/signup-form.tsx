@@ -6,11 +6,16 @@ import { authClient } from "@/lib/auth/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { PasswordRequirements } from "@/components/auth/password-requirements";
+import { getVerificationCallbackURL } from "@/lib/auth/email-verification";
+import { PASSWORD_MIN_LENGTH, validatePassword } from "@/lib/auth/password";
 import { cn } from "@/lib/utils";
 
 interface SignupFormProps {
   /** URL to redirect to after successful signup */
   callbackUrl?: string;
+  /** Prefilled email, e.g. from an invitation link */
+  defaultEmail?: string;
   /** Additional class names */
   className?: string;
 }
@@ -19,15 +24,20 @@ interface SignupFormProps {
  * Signup Form Component
  *
  * Handles user registration with Better Auth.
- * Creates a new account with email/password.
+ * Creates a new account with email/password. When email verification is
+ * required, sends the user to /verify-email instead of signing them in.
  *
  * @example
  * <SignupForm callbackUrl="/onboarding" />
  */
-export function SignupForm({ callbackUrl = "/", className }: SignupFormProps) {
+export function SignupForm({
+  callbackUrl = "/",
+  defaultEmail = "",
+  className,
+}: SignupFormProps) {
   const router = useRouter();
   const [name, setName] = React.useState("");
-  const [email, setEmail] = React.useState("");
+  const [email, setEmail] = React.useState(defaultEmail);
   const [password, setPassword] = React.useState("");
   const [confirmPassword, setConfirmPassword] = React.useState("");
   const [error, setError] = React.useState<string | null>(null);
@@ -43,9 +53,10 @@ export function SignupForm({ callbackUrl = "/", className }: SignupFormProps) {
       return;
     }
 
-    // Validate password strength (basic check)
-    if (password.length < 8) {
-      setError("Password must be at least 8 characters");
+    // Validate password strength (same rules as the server)
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      setError(passwordError);
       return;
     }
 
@@ -56,6 +67,8 @@ export function SignupForm({ callbackUrl = "/", className }: SignupFormProps) {
         email,
         password,
         name,
+        // Used when email verification is required
+        callbackURL: getVerificationCallbackURL(callbackUrl),
       });
 
       if (authError) {
@@ -64,6 +77,13 @@ export function SignupForm({ callbackUrl = "/", className }: SignupFormProps) {
         return;
       }
 
+      // No session yet - the account must be verified first
+      if (!data.token) {
+        const params = new URLSearchParams({ email, callbackUrl });
+        router.push(`/verify-email?${params}`);
+        return;
+      }
+
       router.push(callbackUrl);
     } catch (err) {
       setError("An unexpected error occurred");
@@ -111,8 +131,9 @@ export function SignupForm({ callbackUrl = "/", className }: SignupFormProps) {
           required
           autoComplete="new-password"
           disabled={loading}
-          minLength={8}
+          minLength={PASSWORD_MIN_LENGTH}
         />
+        <PasswordRequirements password={password} />
       </div>
 
       <div className="space-y-2">
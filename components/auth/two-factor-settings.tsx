@@ -0,0 +1,243 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import QRCode from "react-qr-code";
+import { twoFactor } from "@/lib/auth/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface TwoFactorSettingsProps {
+  /** Whether the user already has 2FA turned on */
+  enabled: boolean;
+  /** Additional class names */
+  className?: string;
+}
+
+type Enrollment = { totpURI: string; backupCodes: string[] };
+
+/**
+ * Two-Factor Settings Component
+ *
+ * Enrollment: confirm password -> scan QR code -> verify the first TOTP
+ * code -> save backup codes. 2FA only switches on once the first code
+ * verifies, so a half-finished setup can't lock anyone out.
+ *
+ * When enabled: regenerate backup codes or turn 2FA off (password required).
+ *
+ * @example
+ * <TwoFactorSettings enabled={user.twoFactorEnabled ?? false} />
+ */
+export function TwoFactorSettings({ enabled, className }: TwoFactorSettingsProps) {
+  const router = useRouter();
+  const [password, setPassword] = React.useState("");
+  const [code, setCode] = React.useState("");
+  const [enrollment, setEnrollment] = React.useState<Enrollment | null>(null);
+  const [backupCodes, setBackupCodes] = React.useState<string[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const finish = () => {
+    setPassword("");
+    setCode("");
+    setEnrollment(null);
+    setBackupCodes(null);
+    router.refresh();
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    const { data, error: authError } = await twoFactor.enable({ password });
+    setLoading(false);
+
+    if (authError || !data) {
+      setError(authError?.message || "Failed to start 2FA setup");
+      return;
+    }
+    setPassword("");
+    setEnrollment({ totpURI: data.totpURI, backupCodes: data.backupCodes });
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+    setError(null);
+    setLoading(true);
+
+    const { error: authError } = await twoFactor.verifyTotp({ code: code.trim() });
+    setLoading(false);
+
+    if (authError) {
+      setError(authError.message || "Invalid code");
+      return;
+    }
+    setBackupCodes(enrollment.backupCodes);
+    setEnrollment(null);
+  };
+
+  const handleRegenerate = async () => {
+    setError(null);
+    setLoading(true);
+
+    const { data, error: authError } = await twoFactor.generateBackupCodes({ password });
+    setLoading(false);
+
+    if (authError || !data) {
+      setError(authError?.message || "Failed to generate backup codes");
+      return;
+    }
+    setPassword("");
+    setBackupCodes(data.backupCodes);
+  };
+
+  const handleDisable = async () => {
+    setError(null);
+    setLoading(true);
+
+    const { error: authError } = await twoFactor.disable({ password });
+    setLoading(false);
+
+    if (authError) {
+      setError(authError.message || "Failed to disable 2FA");
+      return;
+    }
+    finish();
+  };
+
+  const errorMessage = error && (
+    <p className="text-sm text-destructive" role="alert">
+      {error}
+    </p>
+  );
+
+  // Step 3 (or after regenerating): show the codes once
+  if (backupCodes) {
+    return (
+      <div className={cn("space-y-4", className)}>
+        <p className="text-sm text-muted-foreground">
+          Save these backup codes somewhere safe. Each one works once, and
+          they won&apos;t be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-4 font-mono text-sm">
+          {backupCodes.map((backupCode) => (
+            <li key={backupCode}>{backupCode}</li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => navigator.clipboard.writeText(backupCodes.join("\n"))}
+          >
+            Copy codes
+          </Button>
+          <Button type="button" onClick={finish}>
+            I&apos;ve saved them
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Step 2: scan and verify the first code
+  if (enrollment) {
+    const secret = new URL(enrollment.totpURI).searchParams.get("secret");
+    return (
+      <form onSubmit={handleVerify} className={cn("space-y-4", className)}>
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with your authenticator app, then enter the code
+          it shows.
+        </p>
+        <div className="w-fit rounded-lg bg-white p-4">
+          <QRCode value={enrollment.totpURI} size={160} />
+        </div>
+        {secret && (
+          <p className="text-xs text-muted-foreground">
+            Can&apos;t scan? Enter this key instead:{" "}
+            <code className="break-all font-mono text-foreground">{secret}</code>
+          </p>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="totp-code">Verification code</Label>
+          <Input
+            id="totp-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            required
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            disabled={loading}
+          />
+        </div>
+        {errorMessage}
+        <div className="flex gap-2">
+          <Button type="submit" disabled={loading}>
+            {loading ? "Verifying..." : "Verify and enable"}
+          </Button>
+          <Button type="button" variant="ghost" onClick={finish} disabled={loading}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  const passwordField = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-password">Current password</Label>
+      <Input
+        id="two-factor-password"
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        required
+        autoComplete="current-password"
+        disabled={loading}
+      />
+    </div>
+  );
+
+  if (enabled) {
+    return (
+      <div className={cn("space-y-4", className)}>
+        {passwordField}
+        {errorMessage}
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleRegenerate}
+            disabled={loading || !password}
+          >
+            Regenerate backup codes
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleDisable}
+            disabled={loading || !password}
+          >
+            Turn off 2FA
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Step 1: confirm password
+  return (
+    <form onSubmit={handleEnable} className={cn("space-y-4", className)}>
+      {passwordField}
+      {errorMessage}
+      <Button type="submit" disabled={loading}>
+        {loading ? "Starting..." : "Set up 2FA"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { twoFactor } from "@/lib/auth/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+type VerifyMethod = "totp" | "otp" | "backup";
+
+interface TwoFactorVerifyFormProps {
+  /** URL to redirect to after successful verification */
+  callbackUrl?: string;
+  /** Additional class names */
+  className?: string;
+}
+
+const methods: Record<
+  VerifyMethod,
+  { label: string; description: string; placeholder: string }
+> = {
+  totp: {
+    label: "Authenticator app",
+    description: "Enter the 6-digit code from your authenticator app.",
+    placeholder: "123456",
+  },
+  otp: {
+    label: "Email code",
+    description: "We'll email you a 6-digit code.",
+    placeholder: "123456",
+  },
+  backup: {
+    label: "Backup code",
+    description: "Enter one of the backup codes you saved when setting up 2FA.",
+    placeholder: "XXXXX-XXXXX",
+  },
+};
+
+/**
+ * Two-Factor Verify Form Component
+ *
+ * Second step of sign in for users with 2FA enabled. Accepts a TOTP code,
+ * an emailed one-time code, or a backup code.
+ *
+ * @example
+ * <TwoFactorVerifyForm callbackUrl="/dashboard" />
+ */
+export function TwoFactorVerifyForm({
+  callbackUrl = "/",
+  className,
+}: TwoFactorVerifyFormProps) {
+  const router = useRouter();
+  const [method, setMethod] = React.useState<VerifyMethod>("totp");
+  const [code, setCode] = React.useState("");
+  const [trustDevice, setTrustDevice] = React.useState(false);
+  const [otpSent, setOtpSent] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const selectMethod = (next: VerifyMethod) => {
+    setMethod(next);
+    setCode("");
+    setError(null);
+  };
+
+  const handleSendOtp = async () => {
+    setError(null);
+    setLoading(true);
+
+    const { error: authError } = await twoFactor.sendOtp();
+    setLoading(false);
+
+    if (authError) {
+      setError(authError.message || "Failed to send code");
+      return;
+    }
+    setOtpSent(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const body = { code: code.trim(), trustDevice };
+      const { error: authError } =
+        method === "totp"
+          ? await twoFactor.verifyTotp(body)
+          : method === "otp"
+            ? await twoFactor.verifyOtp(body)
+            : await twoFactor.verifyBackupCode(body);
+
+      if (authError) {
+        setError(authError.message || "Invalid code");
+        setLoading(false);
+        return;
+      }
+
+      router.push(callbackUrl);
+      router.refresh();
+    } catch {
+      setError("An unexpected error occurred");
+      setLoading(false);
+    }
+  };
+
+  const current = methods[method];
+  const awaitingOtp = method === "otp" && !otpSent;
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="grid grid-cols-3 gap-1 rounded-lg bg-muted p-1" role="tablist">
+        {(Object.keys(methods) as VerifyMethod[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            role="tab"
+            aria-selected={method === key}
+            onClick={() => selectMethod(key)}
+            className={cn(
+              "rounded-md px-2 py-1.5 text-xs font-medium text-muted-foreground transition-colors",
+              method === key && "bg-background text-foreground shadow-sm"
+            )}
+          >
+            {methods[key].label}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm text-muted-foreground">{current.description}</p>
+
+      {awaitingOtp ? (
+        <Button type="button" className="w-full" onClick={handleSendOtp} disabled={loading}>
+          {loading ? "Sending..." : "Email me a code"}
+        </Button>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-code">Code</Label>
+            <Input
+              id="two-factor-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder={current.placeholder}
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              inputMode={method === "backup" ? "text" : "numeric"}
+              disabled={loading}
+            />
+          </div>
+
+          <Label htmlFor="trust-device" className="font-normal">
+            <input
+              id="trust-device"
+              type="checkbox"
+              checked={trustDevice}
+              onChange={(e) => setTrustDevice(e.target.checked)}
+              disabled={loading}
+            />
+            Trust this device for 30 days
+          </Label>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Verifying..." : "Verify"}
+          </Button>
+
+          {method === "otp" && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={handleSendOtp}
+              disabled={loading}
+            >
+              Resend code
+            </Button>
+          )}
+        </form>
+      )}
+
+      {awaitingOtp && error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
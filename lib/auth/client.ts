@@ -9,8 +9,16 @@
 
 "use client";
 
+import { passkeyClient } from "@better-auth/passkey/client";
+import { ssoClient } from "@better-auth/sso/client";
 import { createAuthClient } from "better-auth/react";
-import { organizationClient, twoFactorClient } from "better-auth/client/plugins";
+import {
+  emailOTPClient,
+  genericOAuthClient,
+  magicLinkClient,
+  organizationClient,
+  twoFactorClient,
+} from "better-auth/client/plugins";
 import { ac, roles } from "./permissions";
 
 /**
@@ -31,13 +39,41 @@ export const authClient = createAuthClient({
   plugins: [
     /**
      * Organization Plugin
-     * Provides methods for managing organizations, members, and invitations
+     * Provides methods for managing organizations, members, and invitations,
+     * plus createRole / updateRole / listRoles for custom roles
      */
     organizationClient({
       ac,
       roles,
+      dynamicAccessControl: { enabled: true },
     }),
 
+    /**
+     * Generic OAuth Plugin
+     * Provides signIn.oauth2 (used by the mock provider in tests)
+     */
+    genericOAuthClient(),
+
+    /**
+     * SSO Plugin
+     * Provides signIn.sso for SAML/OIDC organization sign-in
+     */
+    ssoClient(),
+
+    /**
+     * Passwordless Plugins
+     * Provide signIn.magicLink and emailOtp / signIn.emailOtp
+     * (only the method in AUTH_PASSWORDLESS_MODE is enabled on the server)
+     */
+    magicLinkClient(),
+    emailOTPClient(),
+
+    /**
+     * Passkey Plugin
+     * Provides signIn.passkey and passkey.addPasskey / deletePasskey
+     */
+    passkeyClient(),
+
     /**
      * Two-Factor Authentication Plugin
      * Provides methods for 2FA setup and verification
@@ -46,10 +82,14 @@ export const authClient = createAuthClient({
       /**
        * Called when user needs to verify 2FA during sign in
        * Customize this to redirect to your 2FA verification page
+       * (keeps the login page's callbackUrl so users land where they meant to)
        */
       onTwoFactorRedirect() {
         if (typeof window !== "undefined") {
-          window.location.href = "/verify-2fa";
+          const callbackUrl = new URLSearchParams(window.location.search).get("callbackUrl");
+          window.location.href = callbackUrl
+            ? `/verify-2fa?callbackUrl=${encodeURIComponent(callbackUrl)}`
+            : "/verify-2fa";
         }
       },
     }),
@@ -76,9 +116,14 @@ export const {
   // Organization (when using org plugin)
   useActiveOrganization,
   useListOrganizations,
+  useActiveMember,
 
   // Two-Factor (when using 2FA plugin)
   twoFactor,
+
+  // Passkeys (when using passkey plugin)
+  passkey,
+  useListPasskeys,
 } = authClient;
 
 export const signOut: SignOutFn = async (...args) => {
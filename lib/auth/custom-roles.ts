@@ -0,0 +1,260 @@
+/**
+ * Custom Roles
+ *
+ * Organizations can define their own roles (e.g. `of_counsel`, `intern`,
+ * `it_admin`) on top of the fixed legal roles in permissions.ts. They are
+ * stored by Better Auth's dynamic access control in the `organizationRole`
+ * table and built from the same `statement` resources.
+ *
+ * - `requirePermission()` and Better Auth's own checks resolve them
+ * - `requireActiveOrganization()` returns the ones the member holds as
+ *   `customRoles`; use `rolesHavePermission()` to check both kinds
+ * - they have no rank, so `requireRole()` and the middleware's role rules
+ *   only see legal roles (its permission rules resolve them)
+ * - for matters they are assignment-scoped, like associates
+ *
+ * Takes the adapter as a parameter so lib/auth/index.ts hooks can use it.
+ * Safe to import on the client.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import type { DBAdapter } from "better-auth";
+import type { Role } from "better-auth/plugins/access";
+import { ac, roleHasPermission, statement, type PermissionStatement } from "./permissions";
+import { isLegalRole, type LegalRole } from "./roles";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export interface CustomRole {
+  id: string;
+  organizationId: string;
+  /** Role name stored on `member.role`, e.g. "of_counsel" */
+  role: string;
+  permission: PermissionStatement;
+  createdAt: Date;
+}
+
+export type PermissionResource = keyof typeof statement;
+
+/** Most custom roles one organization can define */
+export const MAX_CUSTOM_ROLES_PER_ORGANIZATION = 20;
+
+const customRoleNamePattern = /^[a-z][a-z0-9_]{1,31}$/;
+
+interface OrganizationRoleRecord {
+  id: string;
+  organizationId: string;
+  role: string;
+  permission: string;
+  createdAt: Date;
+}
+
+/**
+ * Error message for an invalid role name, or null if the name is OK
+ * (Better Auth rejects names already taken)
+ */
+export function validateCustomRoleName(name: string): string | null {
+  if (isLegalRole(name)) {
+    return "That name is used by a built-in role";
+  }
+  if (!customRoleNamePattern.test(name)) {
+    return "Use 2-32 lowercase letters, numbers and underscores, starting with a letter";
+  }
+  return null;
+}
+
+/**
+ * Keep only resources and actions that exist in the statement
+ */
+export function sanitizePermission(raw: Record<string, readonly string[]>): PermissionStatement {
+  const permission: Record<string, string[]> = {};
+  for (const [resource, actions] of Object.entries(raw)) {
+    if (!(resource in statement)) continue;
+    const allowed = statement[resource as PermissionResource] as readonly string[];
+    const granted = allowed.filter((action) => actions.includes(action));
+    if (granted.length > 0) permission[resource] = granted;
+  }
+  return permission as PermissionStatement;
+}
+
+/**
+ * Build a permission statement from matrix checkboxes named
+ * `resource:action`
+ *
+ * @example
+ * parsePermissionMatrix(["matter:read", "document:read"]);
+ * // { matter: ["read"], document: ["read"] }
+ */
+export function parsePermissionMatrix(values: string[]): PermissionStatement {
+  const raw: Record<string, string[]> = {};
+  for (const value of values) {
+    const [resource, action] = value.split(":");
+    if (!resource || !action) continue;
+    (raw[resource] ??= []).push(action);
+  }
+  return sanitizePermission(raw);
+}
+
+function parseRoleNames(role: string): string[] {
+  return role
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Role names on a member that aren't legal roles
+ */
+export function getCustomRoleNames(memberRole: string): string[] {
+  return parseRoleNames(memberRole).filter((role) => !isLegalRole(role));
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+function toCustomRole(record: OrganizationRoleRecord): CustomRole {
+  let permission: PermissionStatement = {};
+  try {
+    permission = sanitizePermission(JSON.parse(record.permission));
+  } catch {
+    // Unreadable permissions grant nothing
+  }
+  return {
+    id: record.id,
+    organizationId: record.organizationId,
+    role: record.role,
+    permission,
+    createdAt: new Date(record.createdAt),
+  };
+}
+
+export async function listCustomRoles(
+  adapter: DBAdapter,
+  organizationId: string
+): Promise<CustomRole[]> {
+  const records = await adapter.findMany<OrganizationRoleRecord>({
+    model: "organizationRole",
+    where: [{ field: "organizationId", value: organizationId }],
+    limit: MAX_CUSTOM_ROLES_PER_ORGANIZATION,
+    sortBy: { field: "role", direction: "asc" },
+  });
+  return records.map(toCustomRole);
+}
+
+/**
+ * Find a custom role by name or ID (as Better Auth's role endpoints take it)
+ */
+export async function findCustomRole(
+  adapter: DBAdapter,
+  organizationId: string,
+  lookup: { roleName?: string; roleId?: string }
+): Promise<CustomRole | null> {
+  const condition = lookup.roleName
+    ? { field: "role", value: lookup.roleName.toLowerCase() }
+    : lookup.roleId
+      ? { field: "id", value: lookup.roleId }
+      : null;
+  if (!condition) return null;
+  const record = await adapter.findOne<OrganizationRoleRecord>({
+    model: "organizationRole",
+    where: [{ field: "organizationId", value: organizationId }, condition],
+  });
+  return record ? toCustomRole(record) : null;
+}
+
+/**
+ * The custom roles a member holds (no query if they only hold legal roles)
+ */
+export async function listMemberCustomRoles(
+  adapter: DBAdapter,
+  organizationId: string,
+  memberRole: string
+): Promise<CustomRole[]> {
+  const names = getCustomRoleNames(memberRole);
+  if (names.length === 0) return [];
+  const customRoles = await listCustomRoles(adapter, organizationId);
+  return customRoles.filter((customRole) => names.includes(customRole.role));
+}
+
+/**
+ * Members of an organization holding a role (custom roles can't be
+ * deleted while in use)
+ */
+export async function countMembersWithRole(
+  adapter: DBAdapter,
+  organizationId: string,
+  role: string
+): Promise<number> {
+  const members = await adapter.findMany<{ role: string }>({
+    model: "member",
+    where: [
+      { field: "organizationId", value: organizationId },
+      { field: "role", value: role, operator: "contains" },
+    ],
+  });
+  return members.filter((member) => parseRoleNames(member.role).includes(role)).length;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+export function customRoleHasPermission(
+  customRole: CustomRole,
+  permission: PermissionStatement
+): boolean {
+  const role = ac.newRole(customRole.permission as Parameters<typeof ac.newRole>[0]) as Role;
+  return role.authorize(permission).success;
+}
+
+/**
+ * Whether any of a member's legal or custom roles grants a permission
+ *
+ * @example
+ * const { roles, customRoles } = await requireActiveOrganization();
+ * rolesHavePermission({ roles, customRoles }, { billing: ["approve"] });
+ */
+export function rolesHavePermission(
+  holder: { roles: LegalRole[]; customRoles: CustomRole[] },
+  permission: PermissionStatement
+): boolean {
+  return (
+    holder.roles.some((role) => roleHasPermission(role, permission)) ||
+    holder.customRoles.some((customRole) => customRoleHasPermission(customRole, permission))
+  );
+}
+
+/**
+ * Everything a member's roles grant, as one statement (e.g. to show which
+ * permissions they could put in a custom role)
+ */
+export function getGrantedPermissions(holder: {
+  roles: LegalRole[];
+  customRoles: CustomRole[];
+}): PermissionStatement {
+  const granted: Record<string, string[]> = {};
+  for (const [resource, actions] of Object.entries(statement)) {
+    const held = actions.filter((action) =>
+      rolesHavePermission(holder, { [resource]: [action] } as PermissionStatement)
+    );
+    if (held.length > 0) granted[resource] = held;
+  }
+  return granted as PermissionStatement;
+}
+
+/**
+ * Whether someone may give another member a custom role: only if they
+ * already hold every permission it grants
+ */
+export function canAssignCustomRole(
+  holder: { roles: LegalRole[]; customRoles: CustomRole[] },
+  customRole: CustomRole
+): boolean {
+  return Object.entries(customRole.permission).every(([resource, actions]) =>
+    rolesHavePermission(holder, { [resource]: actions } as PermissionStatement)
+  );
+}
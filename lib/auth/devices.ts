@@ -0,0 +1,102 @@
+/**
+ * Device Descriptions
+ *
+ * Turns a session's stored `userAgent` into something a person recognizes
+ * ("Chrome on macOS"), for the sessions list on /settings/security. It
+ * covers the browsers and systems people actually sign in with; anything
+ * else is shown as an unknown browser or device rather than guessed at.
+ *
+ * Safe to import on the client.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export type DeviceType = "desktop" | "mobile" | "tablet" | "unknown";
+
+export interface DeviceInfo {
+  /** e.g. "Chrome 131", "Safari 18" - null when unrecognized */
+  browser: string | null;
+  /** e.g. "macOS", "Windows", "iOS 18" - null when unrecognized */
+  os: string | null;
+  type: DeviceType;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Checked in order - Edge, Opera and Samsung Internet also say "Chrome",
+ * and Chrome also says "Safari", so the more specific ones come first
+ */
+const browserPatterns: { name: string; pattern: RegExp }[] = [
+  { name: "Edge", pattern: /\bEdg(?:e|A|iOS)?\/(\d+)/ },
+  { name: "Opera", pattern: /\b(?:OPR|Opera)\/(\d+)/ },
+  { name: "Samsung Internet", pattern: /\bSamsungBrowser\/(\d+)/ },
+  { name: "Firefox", pattern: /\b(?:Firefox|FxiOS)\/(\d+)/ },
+  { name: "Chrome", pattern: /\b(?:Chrome|CriOS)\/(\d+)/ },
+  { name: "Safari", pattern: /\bVersion\/(\d+)(?:\.\d+)*(?: Mobile\/\w+)? Safari\// },
+];
+
+const osPatterns: { name: string; pattern: RegExp }[] = [
+  { name: "iPadOS", pattern: /\biPad\b.*\bOS (\d+)/ },
+  { name: "iOS", pattern: /\b(?:iPhone|iPod)\b.*\bOS (\d+)/ },
+  { name: "Android", pattern: /\bAndroid (\d+)/ },
+  { name: "ChromeOS", pattern: /\bCrOS\b/ },
+  { name: "Windows", pattern: /\bWindows NT\b/ },
+  { name: "macOS", pattern: /\bMac OS X\b/ },
+  { name: "Linux", pattern: /\bLinux\b/ },
+];
+
+function parseBrowser(userAgent: string): string | null {
+  for (const { name, pattern } of browserPatterns) {
+    const match = userAgent.match(pattern);
+    if (match) return `${name} ${match[1]}`;
+  }
+  return null;
+}
+
+function parseOs(userAgent: string): string | null {
+  for (const { name, pattern } of osPatterns) {
+    const match = userAgent.match(pattern);
+    if (match) return match[1] ? `${name} ${match[1]}` : name;
+  }
+  return null;
+}
+
+function parseType(userAgent: string): DeviceType {
+  if (/\biPad\b|\bTablet\b/.test(userAgent)) return "tablet";
+  // Android tablets leave "Mobile" out
+  if (/\bAndroid\b/.test(userAgent)) return /\bMobile\b/.test(userAgent) ? "mobile" : "tablet";
+  if (/\b(?:iPhone|iPod|Mobile)\b/.test(userAgent)) return "mobile";
+  if (/\b(?:Windows NT|Macintosh|CrOS|X11|Linux)\b/.test(userAgent)) return "desktop";
+  return "unknown";
+}
+
+/**
+ * Parse a User-Agent header
+ *
+ * @example
+ * parseUserAgent("Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36");
+ * // { browser: "Chrome 131", os: "macOS", type: "desktop" }
+ */
+export function parseUserAgent(userAgent: string | null | undefined): DeviceInfo {
+  if (!userAgent) return { browser: null, os: null, type: "unknown" };
+  return {
+    browser: parseBrowser(userAgent),
+    os: parseOs(userAgent),
+    type: parseType(userAgent),
+  };
+}
+
+/**
+ * "Chrome 131 on macOS", "Safari 18", "Unknown device"
+ */
+export function describeDevice(device: DeviceInfo): string {
+  if (device.browser && device.os) return `${device.browser} on ${device.os}`;
+  return device.browser ?? device.os ?? "Unknown device";
+}
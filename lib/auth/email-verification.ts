@@ -0,0 +1,29 @@
+/**
+ * Email Verification Mode
+ *
+ * Toggle with AUTH_REQUIRE_EMAIL_VERIFICATION=true. When on:
+ * - Email/password sign-ups get a verification email and no session
+ *   until the link is clicked
+ * - Sign-in with an unverified email is refused (EMAIL_NOT_VERIFIED)
+ * - The middleware sends signed-in but unverified users on protected
+ *   routes to /verify-email (e.g. accounts created before the toggle)
+ *
+ * Kept separate from lib/auth/index.ts so the middleware can read it
+ * without pulling in the server auth config.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+export function isEmailVerificationRequired(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.AUTH_REQUIRE_EMAIL_VERIFICATION?.trim().toLowerCase() === "true";
+}
+
+/**
+ * Where the verification link lands after Better Auth checks the token
+ * Better Auth appends `&error=token_expired|invalid_token|...` on failure.
+ */
+export function getVerificationCallbackURL(callbackUrl = "/"): string {
+  const params = new URLSearchParams({ verified: "true" });
+  if (callbackUrl !== "/") params.set("callbackUrl", callbackUrl);
+  return `/verify-email?${params}`;
+}
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  createMemoryEthicalWallStore,
+  getEthicalWallStore,
+  setEthicalWallStore,
+} from "./ethical-walls";
+import {
+  canAccessMatter,
+  canAccessMatterDocuments,
+  createMemoryMatterAccessStore,
+  getMatterAccessStore,
+  getMatterQueryScope,
+  setMatterAccessStore,
+  type MatterActor,
+} from "./matter-access";
+
+const organizationId = "org_smith";
+
+const partner: MatterActor = { userId: "user_partner", organizationId, roles: ["partner"] };
+const associate: MatterActor = { userId: "user_associate", organizationId, roles: ["associate"] };
+
+async function wall(
+  subject: { type: "user"; userId: string } | { type: "group"; groupId: string },
+  target: { type: "matter"; matterId: string } | { type: "client"; clientId: string }
+) {
+  await getEthicalWallStore().createWall({
+    organizationId,
+    subject,
+    target,
+    reason: "Lateral hire - previously represented the opposing party",
+    createdBy: "user_owner",
+  });
+}
+
+beforeEach(async () => {
+  setMatterAccessStore(createMemoryMatterAccessStore());
+  setEthicalWallStore(createMemoryEthicalWallStore());
+
+  const matters = getMatterAccessStore();
+  await matters.saveMatter({ id: "matter_acme", organizationId, clientId: "client_acme" });
+  await matters.saveMatter({ id: "matter_acme_2", organizationId, clientId: "client_acme" });
+  await matters.saveMatter({ id: "matter_globex", organizationId, clientId: "client_globex" });
+  await matters.saveMatter({ id: "matter_unfiled", organizationId, clientId: null });
+  await matters.assign({ matterId: "matter_acme", userId: associate.userId, role: "assigned_attorney" });
+  await matters.assign({ matterId: "matter_globex", userId: associate.userId, role: "assigned_attorney" });
+});
+
+describe("partners behind a wall", () => {
+  test("can read every matter's documents without a wall", async () => {
+    expect(await canAccessMatterDocuments(partner, "matter_acme", "read")).toBe(true);
+    expect(await canAccessMatterDocuments(partner, "matter_globex", "read")).toBe(true);
+  });
+
+  test("cannot read the documents of a walled matter", async () => {
+    await wall({ type: "user", userId: partner.userId }, { type: "matter", matterId: "matter_acme" });
+
+    expect(await canAccessMatterDocuments(partner, "matter_acme", "read")).toBe(false);
+    expect(await canAccessMatter(partner, "matter_acme", "read")).toBe(false);
+    expect(await canAccessMatterDocuments(partner, "matter_acme_2", "read")).toBe(true);
+  });
+
+  test("cannot read any matter of a walled client", async () => {
+    await wall({ type: "user", userId: partner.userId }, { type: "client", clientId: "client_acme" });
+
+    expect(await canAccessMatterDocuments(partner, "matter_acme", "read")).toBe(false);
+    expect(await canAccessMatterDocuments(partner, "matter_acme_2", "read")).toBe(false);
+    expect(await canAccessMatterDocuments(partner, "matter_globex", "read")).toBe(true);
+    expect(await canAccessMatterDocuments(partner, "matter_unfiled", "read")).toBe(true);
+  });
+
+  test("are screened through a screening group", async () => {
+    await getEthicalWallStore().saveGroup({
+      id: "group_lateral",
+      organizationId,
+      name: "Jones & Co. laterals",
+      memberIds: [partner.userId],
+    });
+    await wall({ type: "group", groupId: "group_lateral" }, { type: "matter", matterId: "matter_acme" });
+
+    expect(await canAccessMatterDocuments(partner, "matter_acme", "read")).toBe(false);
+    expect(await canAccessMatterDocuments(partner, "matter_globex", "read")).toBe(true);
+  });
+
+  test("walls of other users and groups don't apply", async () => {
+    await getEthicalWallStore().saveGroup({
+      id: "group_lateral",
+      organizationId,
+      name: "Jones & Co. laterals",
+      memberIds: ["user_someone_else"],
+    });
+    await wall({ type: "group", groupId: "group_lateral" }, { type: "matter", matterId: "matter_acme" });
+    await wall({ type: "user", userId: "user_someone_else" }, { type: "client", clientId: "client_globex" });
+
+    expect(await canAccessMatterDocuments(partner, "matter_acme", "read")).toBe(true);
+    expect(await canAccessMatterDocuments(partner, "matter_globex", "read")).toBe(true);
+  });
+
+  test("have walled matters and clients excluded from query scopes", async () => {
+    await getEthicalWallStore().saveGroup({
+      id: "group_lateral",
+      organizationId,
+      name: "Jones & Co. laterals",
+      memberIds: [partner.userId],
+    });
+    await wall({ type: "group", groupId: "group_lateral" }, { type: "client", clientId: "client_acme" });
+    await wall({ type: "user", userId: partner.userId }, { type: "matter", matterId: "matter_globex" });
+
+    expect(await getMatterQueryScope(partner)).toEqual({
+      type: "all",
+      organizationId,
+      excludedMatterIds: ["matter_globex"],
+      excludedClientIds: ["client_acme"],
+    });
+  });
+});
+
+describe("assigned users behind a wall", () => {
+  test("lose walled matters even when assigned", async () => {
+    await wall({ type: "user", userId: associate.userId }, { type: "matter", matterId: "matter_acme" });
+
+    expect(await canAccessMatterDocuments(associate, "matter_acme", "read")).toBe(false);
+    expect(await canAccessMatterDocuments(associate, "matter_globex", "read")).toBe(true);
+    expect(await getMatterQueryScope(associate)).toEqual({
+      type: "assigned",
+      organizationId,
+      matterIds: ["matter_globex"],
+    });
+  });
+
+  test("lose a walled client's matters through a group", async () => {
+    await getEthicalWallStore().saveGroup({
+      id: "group_lateral",
+      organizationId,
+      name: "Jones & Co. laterals",
+      memberIds: [associate.userId],
+    });
+    await wall({ type: "group", groupId: "group_lateral" }, { type: "client", clientId: "client_globex" });
+
+    expect(await getMatterQueryScope(associate)).toEqual({
+      type: "assigned",
+      organizationId,
+      matterIds: ["matter_acme"],
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Ethical Walls (Conflict Screens)
+ *
+ * Screens specific members off specific matters regardless of their role.
+ * A wall pairs a subject (a user, or a screening group of users) with a
+ * target (one matter, or every matter for a client). Walls are deny rules:
+ * they override every role grant and matter assignment, including for
+ * owners and partners.
+ *
+ * Walls are enforced by `canAccessMatter`, `canAccessMatterDocuments` and
+ * `getMatterQueryScope` in matter-access.ts, so every matter-level check
+ * and scoped query honors them.
+ *
+ * Storage is pluggable like matter-access.ts: call `setEthicalWallStore()`
+ * at startup with a database-backed implementation.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export type WallSubject =
+  | { type: "user"; userId: string }
+  | { type: "group"; groupId: string };
+
+export type WallTarget =
+  | { type: "matter"; matterId: string }
+  | { type: "client"; clientId: string };
+
+export interface EthicalWall {
+  id: string;
+  organizationId: string;
+  subject: WallSubject;
+  target: WallTarget;
+  /** Why the wall exists, e.g. "Lateral hire - previously represented opposing party" */
+  reason: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Named set of users screened together (e.g. a lateral hire's former team)
+ */
+export interface ScreeningGroup {
+  id: string;
+  organizationId: string;
+  name: string;
+  memberIds: string[];
+}
+
+/**
+ * The matter being checked - only the fields walls can target
+ */
+export interface WalledMatter {
+  id: string;
+  clientId?: string | null;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export interface EthicalWallStore {
+  listWalls(organizationId: string): Promise<EthicalWall[]>;
+  createWall(wall: Omit<EthicalWall, "id" | "createdAt">): Promise<EthicalWall>;
+  removeWall(organizationId: string, wallId: string): Promise<void>;
+  listGroups(organizationId: string): Promise<ScreeningGroup[]>;
+  saveGroup(group: ScreeningGroup): Promise<void>;
+  removeGroup(organizationId: string, groupId: string): Promise<void>;
+}
+
+/**
+ * In-memory store for development
+ * Data is lost on restart - replace it with a database-backed store.
+ */
+export function createMemoryEthicalWallStore(): EthicalWallStore {
+  let walls: EthicalWall[] = [];
+  const groups = new Map<string, ScreeningGroup>();
+
+  return {
+    async listWalls(organizationId) {
+      return walls.filter((wall) => wall.organizationId === organizationId);
+    },
+    async createWall(wall) {
+      const created = { ...wall, id: crypto.randomUUID(), createdAt: new Date() };
+      walls.push(created);
+      return created;
+    },
+    async removeWall(organizationId, wallId) {
+      walls = walls.filter(
+        (wall) => !(wall.organizationId === organizationId && wall.id === wallId)
+      );
+    },
+    async listGroups(organizationId) {
+      return [...groups.values()].filter((group) => group.organizationId === organizationId);
+    },
+    async saveGroup(group) {
+      groups.set(group.id, group);
+    },
+    async removeGroup(organizationId, groupId) {
+      if (groups.get(groupId)?.organizationId === organizationId) {
+        groups.delete(groupId);
+      }
+    },
+  };
+}
+
+let store: EthicalWallStore = createMemoryEthicalWallStore();
+
+/**
+ * Replace the ethical wall store (call once at startup)
+ */
+export function setEthicalWallStore(next: EthicalWallStore): void {
+  store = next;
+}
+
+export function getEthicalWallStore(): EthicalWallStore {
+  return store;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Walls that apply to a user, with group walls expanded
+ */
+export async function getWallsForUser(
+  userId: string,
+  organizationId: string
+): Promise<EthicalWall[]> {
+  const [walls, groups] = await Promise.all([
+    store.listWalls(organizationId),
+    store.listGroups(organizationId),
+  ]);
+  const groupIds = new Set(
+    groups.filter((group) => group.memberIds.includes(userId)).map((group) => group.id)
+  );
+
+  return walls.filter((wall) =>
+    wall.subject.type === "user"
+      ? wall.subject.userId === userId
+      : groupIds.has(wall.subject.groupId)
+  );
+}
+
+function wallCovers(wall: EthicalWall, matter: WalledMatter): boolean {
+  return wall.target.type === "matter"
+    ? wall.target.matterId === matter.id
+    : Boolean(matter.clientId) && wall.target.clientId === matter.clientId;
+}
+
+/**
+ * The wall screening a user from a matter, or null if they aren't screened
+ */
+export async function findScreeningWall(
+  userId: string,
+  organizationId: string,
+  matter: WalledMatter
+): Promise<EthicalWall | null> {
+  const walls = await getWallsForUser(userId, organizationId);
+  return walls.find((wall) => wallCovers(wall, matter)) ?? null;
+}
+
+/**
+ * Matter and client IDs a user is screened from, for query filters
+ */
+export async function getScreenedTargets(
+  userId: string,
+  organizationId: string
+): Promise<{ matterIds: string[]; clientIds: string[] }> {
+  const walls = await getWallsForUser(userId, organizationId);
+  const matterIds = new Set<string>();
+  const clientIds = new Set<string>();
+  for (const { target } of walls) {
+    if (target.type === "matter") matterIds.add(target.matterId);
+    else clientIds.add(target.clientId);
+  }
+  return { matterIds: [...matterIds], clientIds: [...clientIds] };
+}
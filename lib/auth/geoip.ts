@@ -0,0 +1,105 @@
+/**
+ * GeoIP Lookups
+ *
+ * Approximate locations ("Chicago, Illinois, United States") for session
+ * IP addresses, read from a local MaxMind-format database so no address
+ * leaves the server. Point AUTH_GEOIP_DATABASE at a `.mmdb` file, e.g.
+ * MaxMind GeoLite2 City or DB-IP IP to City Lite; without it, locations
+ * are simply not shown.
+ *
+ * Server-only.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import maxmind, { type CityResponse, type Reader } from "maxmind";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export interface GeoLocation {
+  city: string | null;
+  region: string | null;
+  country: string | null;
+  /** ISO 3166-1 alpha-2, e.g. "US" */
+  countryCode: string | null;
+}
+
+// ============================================================================
+// Database
+// ============================================================================
+
+let readerPromise: Promise<Reader<CityResponse> | null> | null = null;
+
+/**
+ * Open the database once per process; a missing or unreadable file is
+ * logged and treated as "no database"
+ */
+function getReader(): Promise<Reader<CityResponse> | null> {
+  const path = process.env.AUTH_GEOIP_DATABASE;
+  if (!path) return Promise.resolve(null);
+  readerPromise ??= maxmind.open<CityResponse>(path).catch((error) => {
+    console.error(`Failed to open GeoIP database at ${path}`, error);
+    return null;
+  });
+  return readerPromise;
+}
+
+/**
+ * Whether AUTH_GEOIP_DATABASE is set
+ */
+export function isGeoIpConfigured(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env.AUTH_GEOIP_DATABASE);
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Loopback, private and link-local addresses have no location
+ */
+function isPrivateAddress(ip: string): boolean {
+  return (
+    /^(?:127\.|10\.|192\.168\.|169\.254\.|172\.(?:1[6-9]|2\d|3[01])\.)/.test(ip) ||
+    /^(?:::1$|f[cd][0-9a-f]{2}:|fe80:)/i.test(ip)
+  );
+}
+
+/**
+ * Look up where an IP address is, roughly
+ *
+ * Returns null without a database, for private addresses and for
+ * addresses the database doesn't know.
+ *
+ * @example
+ * await lookupLocation("203.0.113.7");
+ * // { city: "Chicago", region: "Illinois", country: "United States", countryCode: "US" }
+ */
+export async function lookupLocation(ip: string | null | undefined): Promise<GeoLocation | null> {
+  if (!ip) return null;
+  // IPv4 clients behind an IPv6 socket show up as ::ffff:203.0.113.7
+  const address = ip.trim().replace(/^::ffff:/i, "");
+  if (!maxmind.validate(address) || isPrivateAddress(address)) return null;
+
+  const reader = await getReader();
+  const result = reader?.get(address);
+  if (!result) return null;
+
+  return {
+    city: result.city?.names.en ?? null,
+    region: result.subdivisions?.[0]?.names.en ?? null,
+    country: result.country?.names.en ?? null,
+    countryCode: result.country?.iso_code ?? null,
+  };
+}
+
+/**
+ * "Chicago, Illinois, United States" - whatever parts are known
+ */
+export function describeLocation(location: GeoLocation | null): string | null {
+  if (!location) return null;
+  const parts = [location.city, location.region, location.country].filter(Boolean);
+  return parts.length > 0 ? [...new Set(parts)].join(", ") : null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Client Permission Hooks
+ *
+ * Resolve the current user's legal role and permissions in the active
+ * organization, using the same `ac` and `roles` as the server. Custom
+ * roles (lib/auth/custom-roles.ts) are stored per organization, so
+ * permissions they grant are checked with the server.
+ * Use these to hide actions the current role cannot perform - the server
+ * must still enforce every check (see lib/auth/server.ts).
+ *
+ * @see components/auth/can.tsx for the declarative <Can> gate
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+"use client";
+
+import * as React from "react";
+import { organization, useActiveMember } from "./client";
+import { getCustomRoleNames } from "./custom-roles";
+import type { PermissionStatement } from "./permissions";
+import { hasMinimumRole, isLegalRole, RoleHierarchy, type LegalRole } from "./roles";
+
+/**
+ * Roles held in the active organization
+ *
+ * @example
+ * const { role, isPending } = useRole();
+ * if (role === "client") return <ClientPortal />;
+ */
+export function useRole(): {
+  /** Highest role held, or null without an active membership */
+  role: LegalRole | null;
+  /** Every role held (Better Auth allows several per member) */
+  roles: LegalRole[];
+  /** Names of the organization-defined roles held */
+  customRoles: string[];
+  isPending: boolean;
+} {
+  const { data: member, isPending } = useActiveMember();
+
+  const roles = (member?.role ?? "")
+    .split(",")
+    .map((role) => role.trim())
+    .filter(isLegalRole);
+
+  const role = roles.reduce<LegalRole | null>(
+    (highest, current) =>
+      !highest || RoleHierarchy.indexOf(current) > RoleHierarchy.indexOf(highest)
+        ? current
+        : highest,
+    null
+  );
+
+  return { role, roles, customRoles: getCustomRoleNames(member?.role ?? ""), isPending };
+}
+
+/**
+ * Whether the active role holds at least `minimumRole`
+ */
+export function useMinimumRole(minimumRole: LegalRole): {
+  allowed: boolean;
+  isPending: boolean;
+} {
+  const { roles, isPending } = useRole();
+  return {
+    allowed: roles.some((role) => hasMinimumRole(role, minimumRole)),
+    isPending,
+  };
+}
+
+/**
+ * Whether the active role grants a permission statement
+ * Legal roles are checked locally; if only a custom role could grant it,
+ * Better Auth is asked (`organization.hasPermission`).
+ *
+ * @example
+ * const { allowed } = usePermission({ document: ["share"] });
+ */
+export function usePermission(permission: PermissionStatement): {
+  allowed: boolean;
+  isPending: boolean;
+} {
+  const { roles, customRoles, isPending } = useRole();
+  const byLegalRole = roles.some((role) =>
+    organization.checkRolePermission({ permissions: permission, role })
+  );
+  const needsServer = !byLegalRole && customRoles.length > 0;
+
+  // Inline statements are new objects every render - key on their content
+  const permissionKey = JSON.stringify(permission);
+  const lookup = `${customRoles.join(",")}|${permissionKey}`;
+  const [resolved, setResolved] = React.useState<{ lookup: string; allowed: boolean } | null>(
+    null
+  );
+
+  React.useEffect(() => {
+    if (!needsServer) return;
+    let cancelled = false;
+    organization
+      .hasPermission({ permissions: JSON.parse(permissionKey) })
+      .then(({ data }) => {
+        if (!cancelled) setResolved({ lookup, allowed: data?.success ?? false });
+      })
+      .catch(() => {
+        if (!cancelled) setResolved({ lookup, allowed: false });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [needsServer, lookup, permissionKey]);
+
+  if (!needsServer) return { allowed: byLegalRole, isPending };
+  const settled = resolved?.lookup === lookup;
+  return { allowed: settled && resolved.allowed, isPending: isPending || !settled };
+}
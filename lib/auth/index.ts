@@ -7,9 +7,86 @@
  * @see skills/auth/SKILL.md for detailed documentation
  */
 
+import { passkey } from "@better-auth/passkey";
+import { sso } from "@better-auth/sso";
 import { betterAuth } from "better-auth";
-import { organization, twoFactor } from "better-auth/plugins";
-import { ac, roles } from "./permissions";
+import { APIError, createAuthMiddleware, getSessionFromCtx } from "better-auth/api";
+import {
+  emailOTP,
+  genericOAuth,
+  magicLink,
+  organization,
+  twoFactor,
+} from "better-auth/plugins";
+import { sendEmail } from "@/lib/email/mailer";
+import {
+  invitationEmail,
+  otpEmail,
+  passwordResetEmail,
+  signInCodeEmail,
+  signInLinkEmail,
+  verificationEmail,
+} from "@/lib/email/templates";
+import {
+  countMembersWithRole,
+  findCustomRole,
+  MAX_CUSTOM_ROLES_PER_ORGANIZATION,
+  validateCustomRoleName,
+} from "./custom-roles";
+import { isEmailVerificationRequired } from "./email-verification";
+import { getMockOAuthConfig, getSocialProviders } from "./oauth";
+import { assertNotDeleted } from "./organization-deletion";
+import { type OrganizationMetadata, preserveReservedMetadata } from "./organization-metadata";
+import { validateOrganizationSlug } from "./organization-slug";
+import { assertKeepsAnOwner } from "./ownership";
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH, validatePassword } from "./password";
+import {
+  assertPasswordlessConfig,
+  getDisabledPasswordlessPaths,
+  isClientPasswordlessOnly,
+  mustUsePasswordless,
+  PASSWORDLESS_TOKEN_EXPIRES_IN,
+} from "./passwordless";
+import { ac, permissionRegistry, roles } from "./permissions";
+import { hasSessionLimits, SESSION_EXPIRES_IN_SECONDS } from "./session-policy";
+import { getOrganizationSessionPolicy, getSessionPolicyStatusFor } from "./session-status";
+import {
+  createDatabaseSsoSettingsStore,
+  isSsoRequiredForEmail,
+  lookupSsoForEmail,
+  provisionSsoMember,
+  setSsoSettingsStore,
+} from "./sso";
+
+/**
+ * Non-SSO sign-in endpoints refused for SSO-only domains
+ */
+const ssoEnforcedPaths = [
+  "/sign-in/email",
+  "/sign-up/email",
+  "/request-password-reset",
+  "/sign-in/magic-link",
+  "/email-otp/send-verification-otp",
+];
+
+/**
+ * Endpoints allowed to create sessions for SSO-only domains: the SSO
+ * callbacks, and the second step after one
+ */
+const ssoSessionPaths = ["/sso/", "/two-factor/"];
+
+// A resource that doesn't say what some role gets silently denies it
+if (process.env.NODE_ENV === "development") {
+  for (const { resource, roles: missing } of permissionRegistry.findMissingGrants()) {
+    console.warn(
+      `[auth] Permission resource "${resource}" has no grants for: ${missing.join(", ")}. ` +
+        "Add them to its definition (use [] to grant nothing)."
+    );
+  }
+}
+
+// Client-only users can't sign in with passwords or anything else
+assertPasswordlessConfig();
 
 /**
  * Get trusted origins for Better Auth
@@ -42,6 +119,18 @@ function getTrustedOrigins(): string[] {
   return [...new Set(origins.filter(Boolean))];
 }
 
+/**
+ * Metadata from an organization create or update, with reserved keys as
+ * stored (lib/auth/organization-metadata.ts)
+ */
+async function withReservedMetadata(
+  organizationId: string | null,
+  metadata: unknown
+): Promise<OrganizationMetadata> {
+  const { adapter } = await auth.$context;
+  return preserveReservedMetadata(adapter, organizationId, metadata);
+}
+
 /**
  * Main auth configuration
  *
@@ -78,42 +167,288 @@ export const auth = betterAuth({
    */
   emailAndPassword: {
     enabled: true,
-    // Uncomment to require email verification:
-    // requireEmailVerification: true,
+    minPasswordLength: PASSWORD_MIN_LENGTH,
+    maxPasswordLength: PASSWORD_MAX_LENGTH,
+    // Set AUTH_REQUIRE_EMAIL_VERIFICATION=true to require email verification
+    requireEmailVerification: isEmailVerificationRequired(),
+
+    /**
+     * Password reset
+     * The link goes to /api/auth/reset-password/:token, which checks the
+     * token and redirects to /reset-password?token=...
+     */
+    resetPasswordTokenExpiresIn: 60 * 60, // 1 hour
+    revokeSessionsOnPasswordReset: true,
+    async sendResetPassword({ user, url }) {
+      // Not awaited: the response for a registered email must take as long
+      // as for an unknown one, or timing reveals which emails have accounts
+      void sendEmail({
+        to: user.email,
+        ...passwordResetEmail({ name: user.name, url }),
+      }).catch((error) => {
+        console.error("Failed to send password reset email", error);
+      });
+    },
   },
 
   /**
-   * OAuth Providers (Optional)
-   * Add credentials in .env.local to enable
-   *
-   * socialProviders: {
-   *   google: {
-   *     clientId: process.env.GOOGLE_CLIENT_ID!,
-   *     clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-   *   },
-   *   microsoft: {
-   *     clientId: process.env.MICROSOFT_CLIENT_ID!,
-   *     clientSecret: process.env.MICROSOFT_CLIENT_SECRET!,
-   *   },
-   * },
+   * Email Verification
+   * Links go to /api/auth/verify-email, which marks the email verified,
+   * signs the user in and redirects to the callbackURL (/verify-email)
+   */
+  emailVerification: {
+    sendOnSignUp: isEmailVerificationRequired(),
+    autoSignInAfterVerification: true,
+    expiresIn: 60 * 60 * 24, // 24 hours
+    async sendVerificationEmail({ user, url }) {
+      await sendEmail({
+        to: user.email,
+        ...verificationEmail({ name: user.name, url }),
+      });
+    },
+  },
+
+  /**
+   * OAuth Providers
+   * Enabled by setting credentials in env - see lib/auth/oauth.ts
+   * (GOOGLE_CLIENT_ID/SECRET, MICROSOFT_CLIENT_ID/SECRET)
    */
+  socialProviders: getSocialProviders(),
+
+  /**
+   * Account Linking
+   * Signing in with OAuth as an existing email/password user links the
+   * accounts, but only when the provider reports the email as verified
+   */
+  account: {
+    accountLinking: {
+      enabled: true,
+    },
+  },
 
   /**
    * Session Configuration
    */
   session: {
-    expiresIn: 60 * 60 * 24, // 24 hours
+    expiresIn: SESSION_EXPIRES_IN_SECONDS, // 24 hours - firms can set shorter (session-policy.ts)
     updateAge: 60 * 60, // Refresh session every hour
     cookieCache: {
       enabled: true,
       maxAge: 60 * 5, // 5 minutes
     },
+    /**
+     * Written by lib/auth/server.ts for the firm's session policy:
+     * last activity for idle timeouts, last password confirmation for
+     * sensitive actions
+     */
+    additionalFields: {
+      lastActiveAt: { type: "date", required: false, input: false },
+      reauthenticatedAt: { type: "date", required: false, input: false },
+    },
+  },
+
+  /**
+   * Database Hooks
+   * - SSO-only domains get sessions from their IdP alone. ssoEnforcedPaths
+   *   turns password and emailed sign-in away early; this also covers
+   *   passkeys, social and generic OAuth, and anything added later.
+   * - New sessions start in one of the user's organizations, so members
+   *   added by invitation, SSO or SCIM don't land without an active one
+   *   (the OrganizationSwitcher changes it afterwards)
+   */
+  databaseHooks: {
+    session: {
+      create: {
+        async before(session, ctx) {
+          if (!ctx) return;
+          if (!ssoSessionPaths.some((prefix) => ctx.path.startsWith(prefix))) {
+            const user = await ctx.context.internalAdapter.findUserById(session.userId);
+            if (user && (await isSsoRequiredForEmail(user.email))) {
+              throw new APIError("FORBIDDEN", {
+                message: "Your organization requires single sign-on",
+                code: "SSO_REQUIRED",
+              });
+            }
+          }
+
+          if (session.activeOrganizationId) return;
+          const member = await ctx.context.adapter.findOne<{ organizationId: string }>({
+            model: "member",
+            where: [{ field: "userId", value: session.userId }],
+          });
+          if (!member) return;
+          return { data: { ...session, activeOrganizationId: member.organizationId } };
+        },
+      },
+    },
+  },
+
+  /**
+   * Rate Limiting
+   * Enabled in production by default; tighter limits for endpoints that
+   * send email so they can't be used to flood an inbox
+   */
+  rateLimit: {
+    customRules: {
+      "/send-verification-email": { window: 60, max: 3 },
+      "/request-password-reset": { window: 60, max: 3 },
+      "/sign-in/magic-link": { window: 60, max: 3 },
+      "/email-otp/send-verification-otp": { window: 60, max: 3 },
+    },
+  },
+
+  /**
+   * Disabled endpoints
+   * - SSO connections are registered by organization owners through
+   *   /admin/sso (server-side), not by any signed-in user over HTTP
+   * - Passwordless methods other than AUTH_PASSWORDLESS_MODE
+   * - Immediate organization deletion - organizations are soft-deleted
+   *   and purged after a retention window (lib/auth/organization-deletion.ts)
+   */
+  disabledPaths: [
+    "/sso/register",
+    "/organization/delete",
+    ...getDisabledPasswordlessPaths(),
+  ],
+
+  /**
+   * Hooks
+   * - Domains with SSO-only enforcement can't use passwords (lib/auth/sso.ts)
+   * - SSO sign-in names its connection, or is routed from the email by our
+   *   lookup, so unverified domain claims are never routed to
+   * - Client-only users can be limited to passwordless sign-in
+   *   (lib/auth/passwordless.ts)
+   * - Enforce the shared password rules (lib/auth/password.ts) wherever a
+   *   password is set - the client forms check the same rules
+   * - Custom role names follow lib/auth/custom-roles.ts, and roles are
+   *   stored by name on members, so they can't be renamed, or deleted
+   *   while anyone holds them
+   * - Sessions past the firm's idle timeout or max lifetime are signed out
+   *   wherever they're read (lib/auth/session-status.ts), including from
+   *   the cookie cache
+   */
+  hooks: {
+    before: createAuthMiddleware(async (ctx) => {
+      if (
+        ssoEnforcedPaths.includes(ctx.path) &&
+        typeof ctx.body?.email === "string" &&
+        (await isSsoRequiredForEmail(ctx.body.email))
+      ) {
+        throw new APIError("FORBIDDEN", {
+          message: "Your organization requires single sign-on",
+          code: "SSO_REQUIRED",
+        });
+      }
+
+      // The SSO plugin resolves an email or domain by the ssoProvider table,
+      // which includes unverified claims - only our lookup may pick the IdP
+      if (ctx.path === "/sign-in/sso" && !ctx.body?.providerId && !ctx.body?.organizationSlug) {
+        const route =
+          typeof ctx.body?.email === "string" ? await lookupSsoForEmail(ctx.body.email) : null;
+        if (!route) {
+          throw new APIError("BAD_REQUEST", {
+            message: "Start single sign-on from the login page",
+            code: "SSO_PROVIDER_REQUIRED",
+          });
+        }
+        return { context: { body: { ...ctx.body, providerId: route.providerId } } };
+      }
+
+      if (
+        ctx.path === "/sign-in/email" &&
+        isClientPasswordlessOnly() &&
+        typeof ctx.body?.email === "string" &&
+        typeof ctx.body?.password === "string" &&
+        (await mustUsePasswordless(ctx.context, ctx.body.email, ctx.body.password))
+      ) {
+        throw new APIError("FORBIDDEN", {
+          message: "Client accounts sign in with an emailed link or code",
+          code: "PASSWORDLESS_REQUIRED",
+        });
+      }
+
+      if (ctx.path === "/organization/create-role" && typeof ctx.body?.role === "string") {
+        const nameError = validateCustomRoleName(ctx.body.role.toLowerCase());
+        if (nameError) {
+          throw new APIError("BAD_REQUEST", { message: nameError, code: "INVALID_ROLE_NAME" });
+        }
+      }
+
+      if (ctx.path === "/organization/update-role" && ctx.body?.data?.roleName !== undefined) {
+        throw new APIError("BAD_REQUEST", {
+          message: "Custom roles can't be renamed - create a new one and move members to it",
+          code: "ROLE_RENAME_NOT_SUPPORTED",
+        });
+      }
+
+      if (ctx.path === "/organization/delete-role") {
+        const session = await getSessionFromCtx(ctx);
+        const organizationId: string | null | undefined =
+          ctx.body?.organizationId ??
+          (session?.session as { activeOrganizationId?: string | null } | undefined)
+            ?.activeOrganizationId;
+        const customRole = organizationId
+          ? await findCustomRole(ctx.context.adapter, organizationId, ctx.body ?? {})
+          : null;
+        if (
+          customRole &&
+          (await countMembersWithRole(ctx.context.adapter, customRole.organizationId, customRole.role)) > 0
+        ) {
+          throw new APIError("BAD_REQUEST", {
+            message: "Move members off this role before deleting it",
+            code: "ROLE_IN_USE",
+          });
+        }
+      }
+
+      const password =
+        ctx.path === "/sign-up/email"
+          ? ctx.body?.password
+          : ctx.path === "/reset-password" || ctx.path === "/change-password"
+            ? ctx.body?.newPassword
+            : undefined;
+      if (typeof password !== "string") return;
+
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        throw new APIError("BAD_REQUEST", { message: passwordError });
+      }
+    }),
+    after: createAuthMiddleware(async (ctx) => {
+      if (ctx.path !== "/get-session") return;
+      const returned = ctx.context.returned as {
+        session?: { id: string; token: string; userId: string; activeOrganizationId?: string | null };
+      } | null;
+      // Only firms with limits pay for the check (the policy is cached)
+      const organizationId = returned?.session?.activeOrganizationId;
+      if (!returned?.session || !organizationId) return;
+      const policy = await getOrganizationSessionPolicy(ctx.context.adapter, organizationId);
+      if (!hasSessionLimits(policy)) return;
+
+      const status = await getSessionPolicyStatusFor(ctx.context.adapter, returned.session);
+      if (!status.expired) return;
+      if (status.expired !== "revoked") {
+        await ctx.context.internalAdapter.deleteSession(returned.session.token);
+      }
+      throw new APIError("UNAUTHORIZED", {
+        message: "Your session has expired",
+        code: "SESSION_EXPIRED",
+      });
+    }),
   },
 
   /**
    * Plugins
    */
   plugins: [
+    /**
+     * Generic OAuth Plugin
+     * Registers the local mock provider when AUTH_MOCK_OAUTH=true
+     */
+    genericOAuth({
+      config: getMockOAuthConfig(),
+    }),
+
     /**
      * Organization Plugin
      * Enables multi-tenant support with roles and permissions
@@ -121,19 +456,140 @@ export const auth = betterAuth({
     organization({
       ac,
       roles,
+      /**
+       * Custom roles per organization, stored in `organizationRole`
+       * Managed on /admin/roles (lib/auth/custom-roles.ts)
+       */
+      dynamicAccessControl: {
+        enabled: true,
+        maximumRolesPerOrganization: MAX_CUSTOM_ROLES_PER_ORGANIZATION,
+      },
       /**
        * Send invitation emails
-       * TODO: Integrate with case.dev Email API
+       * Delivered by the mailer configured in lib/email/mailer.ts
        */
       async sendInvitationEmail(data) {
         const inviteLink = `${process.env.BETTER_AUTH_URL}/accept-invite/${data.id}`;
-        // TODO: Replace with actual email sending
-        console.log(
-          `[Auth] Invite ${data.email} to ${data.organization.name}: ${inviteLink}`
-        );
+        await sendEmail({
+          to: data.email,
+          ...invitationEmail({
+            organizationName: data.organization.name,
+            inviterName: data.inviter.user.name,
+            role: data.role,
+            url: inviteLink,
+          }),
+        });
+      },
+      organizationHooks: {
+        /**
+         * Enforce the slug rules the create dialog checks, and keep
+         * reserved metadata keys (lib/auth/organization-metadata.ts) out
+         * of client hands
+         */
+        async beforeCreateOrganization({ organization }) {
+          const slugError = validateOrganizationSlug(organization.slug ?? "");
+          if (slugError) {
+            throw new APIError("BAD_REQUEST", { message: slugError, code: "INVALID_SLUG" });
+          }
+          if (organization.metadata === undefined) return;
+          return {
+            data: {
+              ...organization,
+              metadata: await withReservedMetadata(null, organization.metadata),
+            },
+          };
+        },
+        async beforeUpdateOrganization({ organization, member }) {
+          if (organization.slug !== undefined) {
+            const slugError = validateOrganizationSlug(organization.slug);
+            if (slugError) {
+              throw new APIError("BAD_REQUEST", { message: slugError, code: "INVALID_SLUG" });
+            }
+          }
+          if (organization.metadata === undefined) return;
+          return {
+            data: {
+              metadata: await withReservedMetadata(member.organizationId, organization.metadata),
+            },
+          };
+        },
+        /**
+         * Never leave an organization without an owner
+         */
+        async beforeRemoveMember({ member }) {
+          const { adapter } = await auth.$context;
+          await assertKeepsAnOwner(adapter, member, null);
+        },
+        async beforeUpdateMemberRole({ member, newRole }) {
+          const { adapter } = await auth.$context;
+          await assertKeepsAnOwner(adapter, member, newRole);
+        },
+        /**
+         * Deleted organizations (waiting to be purged) take no new members
+         */
+        async beforeCreateInvitation({ organization }) {
+          assertNotDeleted(organization);
+        },
+        async beforeAcceptInvitation({ organization }) {
+          assertNotDeleted(organization);
+        },
       },
     }),
 
+    /**
+     * SSO Plugin
+     * Per-organization SAML/OIDC connections (Okta, Entra ID, ...)
+     * Members are provisioned with a LegalRole by provisionSsoMember,
+     * so Better Auth's own provisioning (role "member") is off.
+     */
+    sso({
+      organizationProvisioning: { disabled: true },
+      async provisionUser({ user, provider }): Promise<void> {
+        if (!provider.organizationId) return;
+        const { adapter } = await auth.$context;
+        await provisionSsoMember(adapter, {
+          userId: user.id,
+          providerId: provider.providerId,
+          organizationId: provider.organizationId,
+        });
+      },
+    }),
+
+    /**
+     * Magic Link Plugin
+     * Used when AUTH_PASSWORDLESS_MODE=magic-link (lib/auth/passwordless.ts)
+     */
+    magicLink({
+      expiresIn: PASSWORDLESS_TOKEN_EXPIRES_IN,
+      storeToken: "hashed",
+      async sendMagicLink({ email, url }) {
+        await sendEmail({ to: email, ...signInLinkEmail({ url }) });
+      },
+    }),
+
+    /**
+     * Email OTP Plugin
+     * Used when AUTH_PASSWORDLESS_MODE=email-otp - only for signing in
+     */
+    emailOTP({
+      expiresIn: PASSWORDLESS_TOKEN_EXPIRES_IN,
+      allowedAttempts: 3,
+      storeOTP: "hashed",
+      async sendVerificationOTP({ email, otp, type }) {
+        if (type !== "sign-in") return;
+        await sendEmail({ to: email, ...signInCodeEmail({ code: otp }) });
+      },
+    }),
+
+    /**
+     * Passkey Plugin
+     * WebAuthn registration and sign-in (Touch ID, Windows Hello, security keys)
+     * The relying party ID and origin default to BETTER_AUTH_URL.
+     */
+    passkey({
+      rpName: process.env.BETTER_AUTH_APP_NAME || "Legal App",
+    }),
+
     /**
      * Two-Factor Authentication Plugin
      * Enables TOTP and backup codes for enhanced security
@@ -142,18 +598,23 @@ export const auth = betterAuth({
       issuer: process.env.BETTER_AUTH_APP_NAME || "Legal App",
       /**
        * Send OTP codes
-       * TODO: Integrate with case.dev Email API
+       * Delivered by the mailer configured in lib/email/mailer.ts
        */
       otpOptions: {
         async sendOTP({ user, otp }) {
-          // TODO: Replace with actual email/SMS sending
-          console.log(`[Auth] 2FA code for ${user.email}: ${otp}`);
+          await sendEmail({
+            to: user.email,
+            ...otpEmail({ name: user.name, code: otp }),
+          });
         },
       },
     }),
   ],
 });
 
+// SSO settings (domain routing, enforcement) are kept in the database
+setSsoSettingsStore(createDatabaseSsoSettingsStore(async () => (await auth.$context).adapter));
+
 /**
  * Export auth types for use in other files
  */
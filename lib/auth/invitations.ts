@@ -0,0 +1,78 @@
+/**
+ * Invitation Lookups
+ *
+ * Better Auth's `getInvitation` endpoint only works for the signed-in
+ * recipient of a pending invitation. The accept-invite page also needs to
+ * show who invited whom before sign-in, and explain expired, cancelled or
+ * already-used invitations - so it reads the invitation directly.
+ *
+ * Only non-sensitive fields are returned.
+ */
+
+import { auth } from "./index";
+
+/**
+ * Invitation lifecycle as shown to the recipient
+ * "expired" is derived from `expiresAt` - Better Auth keeps those "pending".
+ */
+export type InvitationState = "pending" | "expired" | "accepted" | "rejected" | "canceled";
+
+export interface InvitationDetails {
+  id: string;
+  email: string;
+  role: string;
+  state: InvitationState;
+  expiresAt: Date;
+  organizationName: string;
+  inviterName: string | null;
+}
+
+interface InvitationRecord {
+  id: string;
+  email: string;
+  role: string;
+  /** Some schema templates also store "expired" */
+  status: InvitationState;
+  expiresAt: Date;
+  organizationId: string;
+  inviterId: string;
+}
+
+/**
+ * Load an invitation with its organization and inviter, or null if unknown
+ */
+export async function getInvitationDetails(id: string): Promise<InvitationDetails | null> {
+  const { adapter } = await auth.$context;
+
+  const invitation = await adapter.findOne<InvitationRecord>({
+    model: "invitation",
+    where: [{ field: "id", value: id }],
+  });
+  if (!invitation) return null;
+
+  const [organization, inviter] = await Promise.all([
+    adapter.findOne<{ name: string }>({
+      model: "organization",
+      where: [{ field: "id", value: invitation.organizationId }],
+    }),
+    adapter.findOne<{ name: string }>({
+      model: "user",
+      where: [{ field: "id", value: invitation.inviterId }],
+    }),
+  ]);
+  if (!organization) return null;
+
+  const expiresAt = new Date(invitation.expiresAt);
+  const state: InvitationState =
+    invitation.status === "pending" && expiresAt < new Date() ? "expired" : invitation.status;
+
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    state,
+    expiresAt,
+    organizationName: organization.name,
+    inviterName: inviter?.name ?? null,
+  };
+}
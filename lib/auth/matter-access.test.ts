@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import type { CustomRole } from "./custom-roles";
+import { createMemoryEthicalWallStore, setEthicalWallStore } from "./ethical-walls";
+import {
+  canAccessMatter,
+  canAccessMatterDocuments,
+  createMemoryMatterAccessStore,
+  getMatterAccessStore,
+  getMatterQueryScope,
+  scopeMatters,
+  setMatterAccessStore,
+  type MatterActor,
+} from "./matter-access";
+
+const organizationId = "org_smith";
+
+function actor(userId: string, roles: MatterActor["roles"]): MatterActor {
+  return { userId, organizationId, roles };
+}
+
+const partner = actor("user_partner", ["partner"]);
+const staff = actor("user_staff", ["staff"]);
+const associate = actor("user_associate", ["associate"]);
+const paralegal = actor("user_paralegal", ["paralegal"]);
+const client = actor("user_client", ["client"]);
+
+const ofCounsel: CustomRole = {
+  id: "role_of_counsel",
+  organizationId,
+  role: "of_counsel",
+  permission: { matter: ["read"] },
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+beforeEach(async () => {
+  setMatterAccessStore(createMemoryMatterAccessStore());
+  setEthicalWallStore(createMemoryEthicalWallStore());
+
+  const matters = getMatterAccessStore();
+  await matters.saveMatter({ id: "matter_acme", organizationId, clientId: "client_acme" });
+  await matters.saveMatter({ id: "matter_globex", organizationId, clientId: "client_globex" });
+  await matters.saveMatter({ id: "matter_other_firm", organizationId: "org_jones" });
+  await matters.assign({ matterId: "matter_acme", userId: associate.userId, role: "assigned_attorney" });
+  await matters.assign({ matterId: "matter_globex", userId: associate.userId, role: "client_contact" });
+  await matters.assign({ matterId: "matter_acme", userId: paralegal.userId, role: "assigned_paralegal" });
+  await matters.assign({ matterId: "matter_acme", userId: client.userId, role: "client_contact" });
+});
+
+describe("organization-wide roles", () => {
+  test("reach every matter of their organization without an assignment", async () => {
+    expect(await canAccessMatter(partner, "matter_globex", "delete")).toBe(true);
+    expect(await canAccessMatter(staff, "matter_globex", "read")).toBe(true);
+  });
+
+  test("never reach another organization's matters", async () => {
+    expect(await canAccessMatter(partner, "matter_other_firm", "read")).toBe(false);
+    expect(await canAccessMatter(partner, "matter_missing", "read")).toBe(false);
+  });
+
+  test("are still limited by their role statement", async () => {
+    expect(await canAccessMatter(staff, "matter_acme", "update")).toBe(false);
+    expect(await canAccessMatterDocuments(staff, "matter_acme", "create")).toBe(false);
+  });
+});
+
+describe("assignment-scoped roles", () => {
+  test("only reach the matters they are assigned to", async () => {
+    expect(await canAccessMatter(client, "matter_acme", "read")).toBe(true);
+    expect(await canAccessMatter(client, "matter_globex", "read")).toBe(false);
+  });
+
+  test("get the actions both their role and their assignment allow", async () => {
+    // assigned_attorney allows updates, client_contact doesn't
+    expect(await canAccessMatter(associate, "matter_acme", "update")).toBe(true);
+    expect(await canAccessMatter(associate, "matter_globex", "update")).toBe(false);
+    // assigned_paralegal allows updates, the paralegal role doesn't
+    expect(await canAccessMatter(paralegal, "matter_acme", "update")).toBe(false);
+  });
+
+  test("get document actions the same way", async () => {
+    expect(await canAccessMatterDocuments(paralegal, "matter_acme", "create")).toBe(true);
+    expect(await canAccessMatterDocuments(paralegal, "matter_acme", "delete")).toBe(false);
+    // The associate role can't share, whatever the assignment
+    expect(await canAccessMatterDocuments(associate, "matter_acme", "share")).toBe(false);
+    expect(await canAccessMatterDocuments(client, "matter_acme", "update")).toBe(false);
+  });
+
+  test("lose access when unassigned", async () => {
+    await getMatterAccessStore().unassign("matter_acme", client.userId);
+    expect(await canAccessMatter(client, "matter_acme", "read")).toBe(false);
+  });
+});
+
+describe("custom roles", () => {
+  test("only reach assigned matters", async () => {
+    const counsel: MatterActor = { ...actor("user_counsel", []), customRoles: [ofCounsel] };
+    await getMatterAccessStore().assign({
+      matterId: "matter_globex",
+      userId: counsel.userId,
+      role: "assigned_attorney",
+    });
+
+    expect(await canAccessMatter(counsel, "matter_globex", "read")).toBe(true);
+    expect(await canAccessMatter(counsel, "matter_acme", "read")).toBe(false);
+    expect(await canAccessMatter(counsel, "matter_globex", "update")).toBe(false);
+  });
+});
+
+describe("getMatterQueryScope", () => {
+  test("covers the whole organization for organization-wide roles", async () => {
+    expect(await getMatterQueryScope(staff)).toEqual({
+      type: "all",
+      organizationId,
+      excludedMatterIds: [],
+      excludedClientIds: [],
+    });
+  });
+
+  test("lists the assigned matters that allow the action", async () => {
+    expect(await getMatterQueryScope(associate)).toEqual({
+      type: "assigned",
+      organizationId,
+      matterIds: ["matter_acme", "matter_globex"],
+    });
+    expect(await getMatterQueryScope(associate, "update")).toEqual({
+      type: "assigned",
+      organizationId,
+      matterIds: ["matter_acme"],
+    });
+  });
+
+  test("is empty when no role grants the action", async () => {
+    expect(await getMatterQueryScope(client, "update")).toEqual({ type: "none" });
+  });
+});
+
+describe("scopeMatters", () => {
+  test("drops other organizations' and unassigned matters", async () => {
+    const matters = await getMatterAccessStore().listMatters(organizationId);
+    const all = [...matters, { id: "matter_other_firm", organizationId: "org_jones" }];
+
+    expect((await scopeMatters(partner, all)).map((matter) => matter.id)).toEqual([
+      "matter_acme",
+      "matter_globex",
+    ]);
+    expect((await scopeMatters(client, all)).map((matter) => matter.id)).toEqual(["matter_acme"]);
+  });
+});
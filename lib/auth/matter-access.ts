@@ -0,0 +1,363 @@
+/**
+ * Matter-Scoped Access Control
+ *
+ * Combines the role statement from `ac` (what a legal role may do at all)
+ * with per-matter assignments (which matters a user may do it on).
+ *
+ * - Owners, partners and staff act organization-wide
+ * - Associates, paralegals and clients only reach matters they are
+ *   assigned to, and the assignment caps what they can do there
+ * - Custom roles (custom-roles.ts) are assignment-scoped too
+ * - Ethical walls (ethical-walls.ts) override both, for every role
+ *
+ * Storage is pluggable: the default in-memory store is fine for
+ * development, and production apps call `setMatterAccessStore()` with an
+ * implementation backed by their database.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { customRoleHasPermission, type CustomRole } from "./custom-roles";
+import { findScreeningWall, getScreenedTargets } from "./ethical-walls";
+import { roleHasPermission, type PermissionStatement } from "./permissions";
+import { LegalRoles, type LegalRole } from "./roles";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * How a user is attached to a matter
+ */
+export const MatterAssignmentRoles = {
+  /** Responsible attorney - full control of the matter */
+  OWNER: "owner",
+  /** Attorney working on the matter */
+  ATTORNEY: "assigned_attorney",
+  /** Paralegal supporting the matter */
+  PARALEGAL: "assigned_paralegal",
+  /** Client-side contact - can view the matter */
+  CLIENT_CONTACT: "client_contact",
+} as const;
+
+export type MatterAssignmentRole =
+  (typeof MatterAssignmentRoles)[keyof typeof MatterAssignmentRoles];
+
+export type MatterAction = NonNullable<PermissionStatement["matter"]>[number];
+export type DocumentAction = NonNullable<PermissionStatement["document"]>[number];
+
+/**
+ * Actions each assignment allows, before intersecting with the role statement
+ */
+export const AssignmentActions: Record<MatterAssignmentRole, MatterAction[]> = {
+  owner: ["create", "read", "update", "delete", "assign"],
+  assigned_attorney: ["read", "update"],
+  assigned_paralegal: ["read", "update"],
+  client_contact: ["read"],
+};
+
+/**
+ * Document actions each assignment allows on the matter's documents
+ */
+export const AssignmentDocumentActions: Record<MatterAssignmentRole, DocumentAction[]> = {
+  owner: ["create", "read", "update", "delete", "share"],
+  assigned_attorney: ["create", "read", "update", "delete", "share"],
+  assigned_paralegal: ["create", "read", "update"],
+  client_contact: ["read"],
+};
+
+/**
+ * Legal roles limited to the matters they are assigned to
+ */
+export const AssignmentScopedRoles: LegalRole[] = [
+  LegalRoles.ASSOCIATE,
+  LegalRoles.PARALEGAL,
+  LegalRoles.CLIENT,
+];
+
+export interface MatterRecord {
+  id: string;
+  organizationId: string;
+  /** Client the matter belongs to, if tracked */
+  clientId?: string | null;
+}
+
+export interface MatterAssignment {
+  matterId: string;
+  userId: string;
+  role: MatterAssignmentRole;
+  createdAt: Date;
+}
+
+/**
+ * Who is asking - typically built from `requireActiveOrganization()`
+ */
+export interface MatterActor {
+  userId: string;
+  organizationId: string;
+  roles: LegalRole[];
+  /** Custom roles held - these only reach assigned matters */
+  customRoles?: CustomRole[];
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export interface MatterAccessStore {
+  getMatter(matterId: string): Promise<MatterRecord | null>;
+  listMatters(organizationId: string): Promise<MatterRecord[]>;
+  saveMatter(matter: MatterRecord): Promise<void>;
+  /** Removes the matter and its assignments */
+  removeMatter(matterId: string): Promise<void>;
+  listAssignments(matterId: string): Promise<MatterAssignment[]>;
+  listUserAssignments(userId: string, organizationId: string): Promise<MatterAssignment[]>;
+  assign(assignment: Omit<MatterAssignment, "createdAt">): Promise<MatterAssignment>;
+  unassign(matterId: string, userId: string, role?: MatterAssignmentRole): Promise<void>;
+}
+
+/**
+ * In-memory store for development
+ * Data is lost on restart - replace it with a database-backed store.
+ */
+export function createMemoryMatterAccessStore(): MatterAccessStore {
+  const matters = new Map<string, MatterRecord>();
+  let assignments: MatterAssignment[] = [];
+
+  return {
+    async getMatter(matterId) {
+      return matters.get(matterId) ?? null;
+    },
+    async listMatters(organizationId) {
+      return [...matters.values()].filter((matter) => matter.organizationId === organizationId);
+    },
+    async saveMatter(matter) {
+      matters.set(matter.id, matter);
+    },
+    async removeMatter(matterId) {
+      matters.delete(matterId);
+      assignments = assignments.filter((entry) => entry.matterId !== matterId);
+    },
+    async listAssignments(matterId) {
+      return assignments.filter((entry) => entry.matterId === matterId);
+    },
+    async listUserAssignments(userId, organizationId) {
+      return assignments.filter(
+        (entry) =>
+          entry.userId === userId &&
+          matters.get(entry.matterId)?.organizationId === organizationId
+      );
+    },
+    async assign(assignment) {
+      const existing = assignments.find(
+        (entry) =>
+          entry.matterId === assignment.matterId &&
+          entry.userId === assignment.userId &&
+          entry.role === assignment.role
+      );
+      if (existing) return existing;
+      const created = { ...assignment, createdAt: new Date() };
+      assignments.push(created);
+      return created;
+    },
+    async unassign(matterId, userId, role) {
+      assignments = assignments.filter(
+        (entry) =>
+          !(
+            entry.matterId === matterId &&
+            entry.userId === userId &&
+            (!role || entry.role === role)
+          )
+      );
+    },
+  };
+}
+
+let store: MatterAccessStore = createMemoryMatterAccessStore();
+
+/**
+ * Replace the matter access store (call once at startup)
+ */
+export function setMatterAccessStore(next: MatterAccessStore): void {
+  store = next;
+}
+
+export function getMatterAccessStore(): MatterAccessStore {
+  return store;
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+function isAssignmentScoped(role: LegalRole): boolean {
+  return AssignmentScopedRoles.includes(role);
+}
+
+function customRolesGrant(actor: MatterActor, permission: PermissionStatement): boolean {
+  return (actor.customRoles ?? []).some((customRole) =>
+    customRoleHasPermission(customRole, permission)
+  );
+}
+
+/**
+ * Shared check for matter-level resources:
+ * role statement, organization, ethical walls, then assignment
+ */
+async function checkMatterResource(
+  actor: MatterActor,
+  matterId: string,
+  permission: PermissionStatement,
+  assignmentAllows: (role: MatterAssignmentRole) => boolean
+): Promise<boolean> {
+  const granting = actor.roles.filter((role) => roleHasPermission(role, permission));
+  if (granting.length === 0 && !customRolesGrant(actor, permission)) return false;
+
+  const matter = await store.getMatter(matterId);
+  if (!matter || matter.organizationId !== actor.organizationId) return false;
+
+  // Walls override every role grant
+  if (await findScreeningWall(actor.userId, actor.organizationId, matter)) return false;
+
+  // Organization-wide roles don't need an assignment
+  if (granting.some((role) => !isAssignmentScoped(role))) return true;
+
+  const assignments = await store.listAssignments(matterId);
+  return assignments.some(
+    (assignment) => assignment.userId === actor.userId && assignmentAllows(assignment.role)
+  );
+}
+
+/**
+ * Check whether an actor may perform `action` on a matter
+ *
+ * @example
+ * const { user, organizationId, roles } = await requireActiveOrganization();
+ * await canAccessMatter({ userId: user.id, organizationId, roles }, matterId, "update");
+ */
+export function canAccessMatter(
+  actor: MatterActor,
+  matterId: string,
+  action: MatterAction
+): Promise<boolean> {
+  return checkMatterResource(actor, matterId, { matter: [action] }, (role) =>
+    AssignmentActions[role].includes(action)
+  );
+}
+
+/**
+ * Check whether an actor may perform `action` on a matter's documents
+ *
+ * @example
+ * await canAccessMatterDocuments(actor, matterId, "read");
+ */
+export function canAccessMatterDocuments(
+  actor: MatterActor,
+  matterId: string,
+  action: DocumentAction
+): Promise<boolean> {
+  return checkMatterResource(actor, matterId, { document: [action] }, (role) =>
+    AssignmentDocumentActions[role].includes(action)
+  );
+}
+
+/**
+ * Which matters an actor may perform `action` on, for scoping queries
+ *
+ * - "all": every matter in the organization, minus walled matters/clients
+ * - "assigned": only the listed matter IDs
+ * - "none": nothing
+ */
+export type MatterQueryScope =
+  | {
+      type: "all";
+      organizationId: string;
+      excludedMatterIds: string[];
+      excludedClientIds: string[];
+    }
+  | { type: "assigned"; organizationId: string; matterIds: string[] }
+  | { type: "none" };
+
+/**
+ * Build a query filter for list endpoints
+ *
+ * @example
+ * const scope = await getMatterQueryScope(actor);
+ * if (scope.type === "none") return [];
+ * return db.select().from(matters).where(
+ *   scope.type === "all"
+ *     ? and(
+ *         eq(matters.organizationId, scope.organizationId),
+ *         notInArray(matters.id, scope.excludedMatterIds),
+ *         // NOT IN is never true for NULL - keep matters without a client
+ *         or(isNull(matters.clientId), notInArray(matters.clientId, scope.excludedClientIds))
+ *       )
+ *     : inArray(matters.id, scope.matterIds)
+ * );
+ */
+export async function getMatterQueryScope(
+  actor: MatterActor,
+  action: MatterAction = "read"
+): Promise<MatterQueryScope> {
+  const granting = actor.roles.filter((role) =>
+    roleHasPermission(role, { matter: [action] })
+  );
+  if (granting.length === 0 && !customRolesGrant(actor, { matter: [action] })) {
+    return { type: "none" };
+  }
+
+  const screened = await getScreenedTargets(actor.userId, actor.organizationId);
+
+  if (granting.some((role) => !isAssignmentScoped(role))) {
+    return {
+      type: "all",
+      organizationId: actor.organizationId,
+      excludedMatterIds: screened.matterIds,
+      excludedClientIds: screened.clientIds,
+    };
+  }
+
+  const assignments = await store.listUserAssignments(actor.userId, actor.organizationId);
+  const candidateIds = [
+    ...new Set(
+      assignments
+        .filter((assignment) => AssignmentActions[assignment.role].includes(action))
+        .map((assignment) => assignment.matterId)
+    ),
+  ];
+
+  // Walls win over assignments
+  const matters = await Promise.all(candidateIds.map((id) => store.getMatter(id)));
+  const matterIds = matters
+    .filter((matter): matter is MatterRecord => matter !== null)
+    .filter(
+      (matter) =>
+        !screened.matterIds.includes(matter.id) &&
+        !(matter.clientId && screened.clientIds.includes(matter.clientId))
+    )
+    .map((matter) => matter.id);
+
+  return { type: "assigned", organizationId: actor.organizationId, matterIds };
+}
+
+/**
+ * Filter an already-loaded list of matters down to what the actor may access
+ */
+export async function scopeMatters<
+  T extends { id: string; organizationId: string; clientId?: string | null },
+>(
+  actor: MatterActor,
+  matters: T[],
+  action: MatterAction = "read"
+): Promise<T[]> {
+  const scope = await getMatterQueryScope(actor, action);
+  if (scope.type === "none") return [];
+  return matters.filter((matter) => {
+    if (matter.organizationId !== scope.organizationId) return false;
+    if (scope.type === "assigned") return scope.matterIds.includes(matter.id);
+    return (
+      !scope.excludedMatterIds.includes(matter.id) &&
+      !(matter.clientId && scope.excludedClientIds.includes(matter.clientId))
+    );
+  });
+}
@@ -0,0 +1,209 @@
+/**
+ * Middleware Session Helpers
+ *
+ * Verified session lookups for `middleware.ts`. The middleware can't call
+ * `auth.api` directly (it runs on the edge, away from the database), so
+ * these helpers call the Better Auth HTTP API with the request's cookies.
+ *
+ * Used when `sessionValidation` is "verified" in `auth.config.ts`, and for
+ * routes with a minimum role or permission. Lookups try the signed
+ * cookie cache first and are memoized per request to keep latency low.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { getCookieCache } from "better-auth/cookies";
+import type { NextRequest, NextResponse } from "next/server";
+import type { Auth } from "./index";
+import { roleHasPermission, type PermissionStatement } from "./permissions";
+import { hasMinimumRole, isLegalRole, type LegalRole } from "./roles";
+
+export type MiddlewareSession = Auth["$Infer"]["Session"];
+
+/**
+ * Request header carrying the requested path to server components
+ * Layouts don't get the pathname otherwise; the protected layout uses it
+ * to send members overdue on 2FA to enrollment.
+ */
+export const PATHNAME_HEADER = "x-pathname";
+
+/**
+ * Per-request memoization, so the middleware never repeats a lookup
+ */
+const requestCache = new WeakMap<NextRequest, Map<string, Promise<unknown>>>();
+
+function cached<T>(request: NextRequest, key: string, load: () => Promise<T>): Promise<T> {
+  let entries = requestCache.get(request);
+  if (!entries) {
+    entries = new Map();
+    requestCache.set(request, entries);
+  }
+  if (!entries.has(key)) {
+    entries.set(key, load());
+  }
+  return entries.get(key) as Promise<T>;
+}
+
+/**
+ * Better Auth couldn't answer (network error, 5xx, rate limit, ...)
+ * The middleware fails closed without touching the session cookies, so
+ * an outage doesn't sign everyone out.
+ */
+export class AuthUnavailableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "AuthUnavailableError";
+  }
+}
+
+/**
+ * Call the Better Auth HTTP API with the request's cookies
+ * Returns null for the statuses that mean "nothing there" (401 by
+ * default) and throws AuthUnavailableError for any other failure.
+ */
+async function fetchAuthApi<T>(
+  request: NextRequest,
+  path: string,
+  { body, emptyStatuses = [401] }: { body?: unknown; emptyStatuses?: number[] } = {}
+): Promise<T | null> {
+  let response: Response;
+  try {
+    response = await fetch(new URL(`/api/auth${path}`, request.nextUrl.origin), {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+        cookie: request.headers.get("cookie") ?? "",
+        // Better Auth checks the origin of POSTs sent with cookies
+        ...(body === undefined
+          ? {}
+          : { "content-type": "application/json", origin: request.nextUrl.origin }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      cache: "no-store",
+    });
+  } catch (error) {
+    throw new AuthUnavailableError(`Could not reach ${path}`, { cause: error });
+  }
+  if (emptyStatuses.includes(response.status)) return null;
+  if (!response.ok) {
+    throw new AuthUnavailableError(`${path} responded with ${response.status}`);
+  }
+  try {
+    return (await response.json()) as T | null;
+  } catch (error) {
+    throw new AuthUnavailableError(`${path} sent an invalid response`, { cause: error });
+  }
+}
+
+/**
+ * Read the signed session cache cookie (set by `session.cookieCache`)
+ * Returns null if it's missing, tampered with or past its max age.
+ */
+async function readCookieCache(request: NextRequest): Promise<MiddlewareSession | null> {
+  try {
+    const cache = await getCookieCache(request);
+    if (!cache || new Date(cache.session.expiresAt) <= new Date()) return null;
+    return { session: cache.session, user: cache.user } as MiddlewareSession;
+  } catch {
+    // No BETTER_AUTH_SECRET available here - fall back to the API
+    return null;
+  }
+}
+
+/**
+ * Validate the session cookie against Better Auth
+ * Returns null when the session is missing, expired or revoked, and
+ * throws AuthUnavailableError when Better Auth can't tell.
+ */
+export function getVerifiedSession(request: NextRequest): Promise<MiddlewareSession | null> {
+  return cached(request, "session", async () => {
+    const fromCache = await readCookieCache(request);
+    if (fromCache) return fromCache;
+    return fetchAuthApi<MiddlewareSession>(request, "/get-session");
+  });
+}
+
+/**
+ * Remove Better Auth session cookies from a response
+ * Used when a session cookie is present but no longer valid.
+ */
+export function clearSessionCookies(request: NextRequest, response: NextResponse): NextResponse {
+  for (const { name } of request.cookies.getAll()) {
+    if (/better-auth\.(session_token|session_data)(\.\d+)?$/.test(name)) {
+      // __Secure- cookies can only be overwritten by a secure cookie
+      response.cookies.set(name, "", {
+        path: "/",
+        maxAge: 0,
+        secure: name.startsWith("__Secure-"),
+      });
+    }
+  }
+  return response;
+}
+
+export interface ActiveMemberRoles {
+  roles: LegalRole[];
+  /** Custom roles (lib/auth/custom-roles.ts) by name */
+  customRoles: string[];
+}
+
+/**
+ * Roles the user holds in their active organization
+ * Better Auth stores multiple roles as a comma-separated string.
+ */
+export function getActiveMemberRoles(request: NextRequest): Promise<ActiveMemberRoles> {
+  return cached(request, "roles", async () => {
+    // 400: no active organization, or not a member of it
+    const member = await fetchAuthApi<{ role: string }>(
+      request,
+      "/organization/get-active-member",
+      { emptyStatuses: [400, 401] }
+    );
+    const names = (member?.role ?? "")
+      .split(",")
+      .map((role) => role.trim())
+      .filter(Boolean);
+    return {
+      roles: names.filter(isLegalRole),
+      customRoles: names.filter((role) => !isLegalRole(role)),
+    };
+  });
+}
+
+/**
+ * Whether the active member's roles grant a permission, custom roles
+ * included - Better Auth resolves those from the `organizationRole` table
+ */
+export function hasActivePermission(
+  request: NextRequest,
+  permission: PermissionStatement
+): Promise<boolean> {
+  return cached(request, `permission:${JSON.stringify(permission)}`, async () => {
+    const result = await fetchAuthApi<{ success: boolean }>(
+      request,
+      "/organization/has-permission",
+      { body: { permissions: permission }, emptyStatuses: [400, 401, 403] }
+    );
+    return result?.success === true;
+  });
+}
+
+/**
+ * Check the active member against a route's role and permission requirements
+ * Custom roles have no rank, so only legal roles meet a minimum role;
+ * permissions are checked locally for legal roles and through Better Auth
+ * for custom ones.
+ */
+export async function satisfiesRouteGuards(
+  request: NextRequest,
+  guards: { role?: LegalRole; permission?: PermissionStatement }
+): Promise<boolean> {
+  const { role, permission } = guards;
+  const { roles, customRoles } = await getActiveMemberRoles(request);
+  if (role && !roles.some((userRole) => hasMinimumRole(userRole, role))) {
+    return false;
+  }
+  if (permission && !roles.some((userRole) => roleHasPermission(userRole, permission))) {
+    return customRoles.length > 0 && (await hasActivePermission(request, permission));
+  }
+  return true;
+}
@@ -0,0 +1,131 @@
+/**
+ * Mock OAuth Provider
+ *
+ * A tiny OAuth 2.0 server for tests and offline development, served from
+ * /api/mock-oauth/{authorize,token,userinfo} when AUTH_MOCK_OAUTH=true.
+ * The authorize step shows a form asking which email to sign in as -
+ * there are no passwords, so it returns 404 in production.
+ *
+ * The "code" and access token are just the user profile, base64url-encoded.
+ *
+ * @see lib/auth/oauth.ts for how it's registered with Better Auth
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { isMockOAuthEnabled } from "./oauth";
+
+interface MockProfile {
+  email: string;
+  name: string;
+}
+
+function encodeProfile(profile: MockProfile): string {
+  return Buffer.from(JSON.stringify(profile)).toString("base64url");
+}
+
+function decodeProfile(value: string | null | undefined): MockProfile | null {
+  if (!value) return null;
+  try {
+    const profile = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    return typeof profile?.email === "string" ? profile : null;
+  } catch {
+    return null;
+  }
+}
+
+function notFound() {
+  return new NextResponse(null, { status: 404 });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * GET /api/mock-oauth/authorize
+ * Without `email`: a form to pick the user. With it: redirect back with a code.
+ */
+export function handleAuthorize(request: NextRequest) {
+  if (!isMockOAuthEnabled()) return notFound();
+
+  const params = request.nextUrl.searchParams;
+  const redirectUri = params.get("redirect_uri");
+  if (!redirectUri || new URL(redirectUri, request.url).origin !== request.nextUrl.origin) {
+    return NextResponse.json({ error: "invalid_request" }, { status: 400 });
+  }
+
+  const email = params.get("email")?.trim().toLowerCase();
+  if (email) {
+    const callback = new URL(redirectUri, request.url);
+    callback.searchParams.set(
+      "code",
+      encodeProfile({ email, name: params.get("name")?.trim() || email.split("@")[0] })
+    );
+    const state = params.get("state");
+    if (state) callback.searchParams.set("state", state);
+    return NextResponse.redirect(callback);
+  }
+
+  const hiddenFields = [...params.entries()]
+    .map(
+      ([key, value]) =>
+        `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`
+    )
+    .join("");
+  const html = `<!doctype html>
+<html>
+  <body style="font-family:sans-serif;max-width:360px;margin:64px auto;">
+    <h1 style="font-size:20px;">Mock OAuth sign-in</h1>
+    <form method="get">
+      ${hiddenFields}
+      <p><label>Email<br><input name="email" type="email" value="mock.user@example.com" required style="width:100%;"></label></p>
+      <p><label>Name<br><input name="name" value="Mock User" style="width:100%;"></label></p>
+      <button type="submit">Continue</button>
+    </form>
+  </body>
+</html>`;
+  return new NextResponse(html, { headers: { "content-type": "text/html" } });
+}
+
+/**
+ * POST /api/mock-oauth/token
+ * Exchanges the code for an access token (the same encoded profile).
+ */
+export async function handleToken(request: NextRequest) {
+  if (!isMockOAuthEnabled()) return notFound();
+
+  const body = new URLSearchParams(await request.text());
+  const code = body.get("code");
+  if (!decodeProfile(code)) {
+    return NextResponse.json({ error: "invalid_grant" }, { status: 400 });
+  }
+  return NextResponse.json({
+    access_token: code,
+    token_type: "Bearer",
+    expires_in: 3600,
+    scope: "openid email profile",
+  });
+}
+
+/**
+ * GET /api/mock-oauth/userinfo
+ */
+export function handleUserInfo(request: NextRequest) {
+  if (!isMockOAuthEnabled()) return notFound();
+
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  const profile = decodeProfile(token);
+  if (!profile) {
+    return NextResponse.json({ error: "invalid_token" }, { status: 401 });
+  }
+  return NextResponse.json({
+    sub: `mock-${profile.email}`,
+    email: profile.email,
+    email_verified: true,
+    name: profile.name,
+  });
+}
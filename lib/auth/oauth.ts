@@ -0,0 +1,118 @@
+/**
+ * OAuth Providers
+ *
+ * Builds Better Auth's `socialProviders` from environment variables, so a
+ * provider is enabled by setting its credentials - no code changes:
+ *
+ * - Google: GOOGLE_CLIENT_ID + GOOGLE_CLIENT_SECRET
+ * - Microsoft: MICROSOFT_CLIENT_ID + MICROSOFT_CLIENT_SECRET
+ *   (MICROSOFT_TENANT_ID to restrict sign-in to one Entra tenant)
+ *
+ * AUTH_MOCK_OAUTH=true adds a local mock provider (see lib/auth/mock-oauth.ts)
+ * for tests and offline development. It is ignored in production.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import type { BetterAuthOptions } from "better-auth";
+import type { GenericOAuthConfig } from "better-auth/plugins";
+
+export const SocialProviderIds = ["google", "microsoft"] as const;
+
+export type SocialProviderId = (typeof SocialProviderIds)[number];
+
+export const MOCK_OAUTH_PROVIDER_ID = "mock";
+
+/**
+ * What the sign-in buttons need to know about a provider
+ */
+export interface OAuthProviderOption {
+  id: SocialProviderId | typeof MOCK_OAUTH_PROVIDER_ID;
+  name: string;
+  /** "social" uses signIn.social, "generic" uses signIn.oauth2 */
+  type: "social" | "generic";
+}
+
+const providerNames: Record<SocialProviderId, string> = {
+  google: "Google",
+  microsoft: "Microsoft",
+};
+
+type SocialProviders = NonNullable<BetterAuthOptions["socialProviders"]>;
+
+function credentials(env: NodeJS.ProcessEnv, prefix: string) {
+  const clientId = env[`${prefix}_CLIENT_ID`]?.trim();
+  const clientSecret = env[`${prefix}_CLIENT_SECRET`]?.trim();
+  return clientId && clientSecret ? { clientId, clientSecret } : null;
+}
+
+/**
+ * `socialProviders` for every provider with credentials in env
+ */
+export function getSocialProviders(env: NodeJS.ProcessEnv = process.env): SocialProviders {
+  const providers: SocialProviders = {};
+
+  const google = credentials(env, "GOOGLE");
+  if (google) {
+    providers.google = { ...google, prompt: "select_account" };
+  }
+
+  const microsoft = credentials(env, "MICROSOFT");
+  if (microsoft) {
+    providers.microsoft = {
+      ...microsoft,
+      tenantId: env.MICROSOFT_TENANT_ID?.trim() || "common",
+      prompt: "select_account",
+    };
+  }
+
+  return providers;
+}
+
+/**
+ * Whether the local mock provider is on (never in production)
+ */
+export function isMockOAuthEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return (
+    env.AUTH_MOCK_OAUTH?.trim().toLowerCase() === "true" &&
+    env.NODE_ENV !== "production"
+  );
+}
+
+/**
+ * genericOAuth config for the mock provider served by app/api/mock-oauth
+ */
+export function getMockOAuthConfig(
+  env: NodeJS.ProcessEnv = process.env
+): GenericOAuthConfig[] {
+  if (!isMockOAuthEnabled(env)) return [];
+  const baseUrl = env.BETTER_AUTH_URL || "http://localhost:3000";
+  return [
+    {
+      providerId: MOCK_OAUTH_PROVIDER_ID,
+      clientId: "mock-client",
+      clientSecret: "mock-secret",
+      authorizationUrl: `${baseUrl}/api/mock-oauth/authorize`,
+      tokenUrl: `${baseUrl}/api/mock-oauth/token`,
+      userInfoUrl: `${baseUrl}/api/mock-oauth/userinfo`,
+      scopes: ["openid", "email", "profile"],
+    },
+  ];
+}
+
+/**
+ * Providers to show as sign-in buttons, in display order
+ */
+export function getOAuthProviderOptions(
+  env: NodeJS.ProcessEnv = process.env
+): OAuthProviderOption[] {
+  const socialProviders = getSocialProviders(env);
+  const options: OAuthProviderOption[] = SocialProviderIds.filter(
+    (id) => socialProviders[id]
+  ).map((id) => ({ id, name: providerNames[id], type: "social" }));
+
+  if (isMockOAuthEnabled(env)) {
+    options.push({ id: MOCK_OAUTH_PROVIDER_ID, name: "Mock OAuth", type: "generic" });
+  }
+  return options;
+}
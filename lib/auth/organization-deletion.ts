@@ -0,0 +1,145 @@
+/**
+ * Organization Deletion
+ *
+ * Deleting an organization is a soft delete: it's marked under `deletion`
+ * in the organization's `metadata` and kept for a retention window
+ * (AUTH_ORGANIZATION_RETENTION_DAYS, default 30). Meanwhile:
+ *
+ * - members are locked out (`requireActiveOrganization` refuses it)
+ * - no one can be invited or join
+ * - an owner can restore it from /settings/organization
+ *
+ * Once the window has passed, `purgeDeletedOrganizations()` in
+ * organization-purge.ts hard-deletes the organization and its data.
+ * Better Auth's own `/organization/delete` endpoint is disabled.
+ *
+ * Takes the adapter as a parameter so lib/auth/index.ts hooks can use it.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import type { DBAdapter } from "better-auth";
+import { APIError } from "better-auth/api";
+import {
+  parseOrganizationMetadata,
+  readOrganizationMetadata,
+  writeOrganizationMetadataKey,
+} from "./organization-metadata";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export interface OrganizationDeletion {
+  /** ISO timestamps - metadata is stored as JSON */
+  requestedAt: string;
+  requestedBy: string;
+  purgeAfter: string;
+}
+
+export const DEFAULT_ORGANIZATION_RETENTION_DAYS = 30;
+
+const PURGE_SCAN_PAGE_SIZE = 100;
+
+/**
+ * Days a deleted organization can still be restored
+ */
+export function getOrganizationRetentionDays(env: NodeJS.ProcessEnv = process.env): number {
+  const days = Number.parseInt(env.AUTH_ORGANIZATION_RETENTION_DAYS ?? "", 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_ORGANIZATION_RETENTION_DAYS;
+}
+
+/**
+ * The pending deletion recorded in an organization's metadata, if any
+ */
+export function getOrganizationDeletion(metadata: unknown): OrganizationDeletion | null {
+  const deletion = parseOrganizationMetadata(metadata).deletion as
+    | Partial<OrganizationDeletion>
+    | undefined;
+  if (!deletion?.requestedAt || !deletion.purgeAfter || !deletion.requestedBy) return null;
+  return deletion as OrganizationDeletion;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+export async function findOrganizationDeletion(
+  adapter: DBAdapter,
+  organizationId: string
+): Promise<OrganizationDeletion | null> {
+  return getOrganizationDeletion(await readOrganizationMetadata(adapter, organizationId));
+}
+
+/**
+ * Refuse changes to an organization that is waiting to be purged
+ */
+export function assertNotDeleted(organization: { metadata?: unknown }): void {
+  if (getOrganizationDeletion(organization.metadata)) {
+    throw new APIError("FORBIDDEN", {
+      message: "This organization has been deleted",
+      code: "ORGANIZATION_DELETED",
+    });
+  }
+}
+
+// ============================================================================
+// Deletion
+// ============================================================================
+
+/**
+ * Soft-delete an organization; it can be restored until `purgeAfter`
+ */
+export async function scheduleOrganizationDeletion(
+  adapter: DBAdapter,
+  organizationId: string,
+  userId: string
+): Promise<OrganizationDeletion> {
+  const existing = await findOrganizationDeletion(adapter, organizationId);
+  if (existing) return existing;
+
+  const now = new Date();
+  const deletion: OrganizationDeletion = {
+    requestedAt: now.toISOString(),
+    requestedBy: userId,
+    purgeAfter: new Date(
+      now.getTime() + getOrganizationRetentionDays() * 24 * 60 * 60 * 1000
+    ).toISOString(),
+  };
+  await writeOrganizationMetadataKey(adapter, organizationId, "deletion", deletion);
+  return deletion;
+}
+
+/**
+ * Undo a soft delete during the retention window
+ */
+export async function restoreOrganization(
+  adapter: DBAdapter,
+  organizationId: string
+): Promise<void> {
+  await writeOrganizationMetadataKey(adapter, organizationId, "deletion", undefined);
+}
+
+/**
+ * IDs of deleted organizations whose retention window has passed
+ */
+export async function listOrganizationsDueForPurge(
+  adapter: DBAdapter,
+  now: Date = new Date()
+): Promise<string[]> {
+  const due: string[] = [];
+  // Adapters cap findMany, so page through every organization
+  for (let offset = 0; ; offset += PURGE_SCAN_PAGE_SIZE) {
+    const organizations = await adapter.findMany<{ id: string; metadata?: unknown }>({
+      model: "organization",
+      limit: PURGE_SCAN_PAGE_SIZE,
+      offset,
+      sortBy: { field: "createdAt", direction: "asc" },
+    });
+    for (const organization of organizations) {
+      const deletion = getOrganizationDeletion(organization.metadata);
+      if (deletion && new Date(deletion.purgeAfter) <= now) due.push(organization.id);
+    }
+    if (organizations.length < PURGE_SCAN_PAGE_SIZE) return due;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Organization Metadata
+ *
+ * Better Auth stores an organization's `metadata` as a JSON string. Firm
+ * settings live under their own key in it (`security`, `deletion`, `sso`),
+ * so features can keep small per-organization state without a new table.
+ *
+ * Reserved keys are written by server code alone: Better Auth's
+ * `/organization/update` replaces the whole metadata object, so the
+ * organization hooks keep the stored values (preserveReservedMetadata).
+ *
+ * Takes the adapter as a parameter so lib/auth/index.ts hooks can use it.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import type { DBAdapter } from "better-auth";
+
+export type OrganizationMetadata = Record<string, unknown>;
+
+/**
+ * Metadata keys clients can't set: the pending deletion goes through the
+ * delete and restore flows (organization-deletion.ts), the firm's
+ * security settings through the guarded /admin/security actions
+ * (organization-security.ts), and SSO settings through /admin/sso (sso.ts)
+ */
+const RESERVED_METADATA_KEYS = ["deletion", "security", "sso"] as const;
+
+export function parseOrganizationMetadata(value: unknown): OrganizationMetadata {
+  if (value && typeof value === "object") return value as OrganizationMetadata;
+  if (typeof value !== "string" || !value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function readOrganizationMetadata(
+  adapter: DBAdapter,
+  organizationId: string
+): Promise<OrganizationMetadata> {
+  const organization = await adapter.findOne<{ metadata?: unknown }>({
+    model: "organization",
+    where: [{ field: "id", value: organizationId }],
+  });
+  return parseOrganizationMetadata(organization?.metadata);
+}
+
+/**
+ * Set one key of the metadata (undefined removes it); other keys are kept
+ */
+export async function writeOrganizationMetadataKey(
+  adapter: DBAdapter,
+  organizationId: string,
+  key: string,
+  value: unknown
+): Promise<void> {
+  const next = { ...(await readOrganizationMetadata(adapter, organizationId)) };
+  if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+
+  await adapter.update({
+    model: "organization",
+    where: [{ field: "id", value: organizationId }],
+    update: { metadata: JSON.stringify(next) },
+  });
+}
+
+/**
+ * Metadata sent by a client, with the reserved keys as stored
+ * Clients can neither change nor drop them; pass a null organization ID
+ * for a new organization (which starts without them).
+ *
+ * @example
+ * const metadata = await preserveReservedMetadata(adapter, organizationId, data.metadata);
+ */
+export async function preserveReservedMetadata(
+  adapter: DBAdapter,
+  organizationId: string | null,
+  incoming: unknown
+): Promise<OrganizationMetadata> {
+  const stored = organizationId ? await readOrganizationMetadata(adapter, organizationId) : {};
+  const next = { ...parseOrganizationMetadata(incoming) };
+  for (const key of RESERVED_METADATA_KEYS) {
+    if (key in stored) next[key] = stored[key];
+    else delete next[key];
+  }
+  return next;
+}
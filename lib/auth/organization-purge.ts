@@ -0,0 +1,127 @@
+/**
+ * Organization Purge
+ *
+ * Hard-deletes organizations whose retention window has passed (see
+ * organization-deletion.ts). Run it on a schedule: the
+ * `/api/cron/purge-organizations` route calls it when requested with
+ * `Authorization: Bearer $CRON_SECRET` (Vercel Cron sends this header).
+ *
+ * Auth data (members, invitations, custom roles, SSO, SCIM, ethical
+ * walls and screening groups, matter access records and assignments) is
+ * removed here. Register a handler for your app's own data:
+ *
+ * @example
+ * registerOrganizationPurgeHandler(async (organizationId) => {
+ *   await db.delete(matters).where(eq(matters.organizationId, organizationId));
+ * });
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { getEthicalWallStore } from "./ethical-walls";
+import { auth } from "./index";
+import { getMatterAccessStore } from "./matter-access";
+import { listOrganizationsDueForPurge } from "./organization-deletion";
+import { getOwnershipTransferStore } from "./ownership";
+import { getScimStore } from "./scim";
+import { forgetOrganizationSessionPolicy } from "./session-status";
+import { getSsoSettingsStore } from "./sso";
+
+type PurgeHandler = (organizationId: string) => Promise<void>;
+
+const purgeHandlers: PurgeHandler[] = [];
+
+/**
+ * Delete app data when an organization is purged
+ * Handlers run before the auth data is removed.
+ */
+export function registerOrganizationPurgeHandler(handler: PurgeHandler): void {
+  purgeHandlers.push(handler);
+}
+
+/**
+ * Permanently delete an organization and everything attached to it
+ */
+export async function purgeOrganization(organizationId: string): Promise<void> {
+  for (const handler of purgeHandlers) {
+    await handler(organizationId);
+  }
+
+  const { adapter } = await auth.$context;
+  const byOrganization = [{ field: "organizationId", value: organizationId }];
+
+  const ssoStore = getSsoSettingsStore();
+  for (const connection of await ssoStore.listForOrganization(organizationId)) {
+    await ssoStore.remove(connection.providerId);
+  }
+  await adapter.deleteMany({ model: "ssoProvider", where: byOrganization });
+
+  const scimStore = getScimStore();
+  for (const token of await scimStore.listTokens(organizationId)) {
+    await scimStore.removeToken(organizationId, token.id);
+  }
+  for (const identity of await scimStore.listIdentities(organizationId)) {
+    await scimStore.removeIdentity(organizationId, identity.userId);
+  }
+
+  const wallStore = getEthicalWallStore();
+  for (const wall of await wallStore.listWalls(organizationId)) {
+    await wallStore.removeWall(organizationId, wall.id);
+  }
+  for (const group of await wallStore.listGroups(organizationId)) {
+    await wallStore.removeGroup(organizationId, group.id);
+  }
+
+  const matterStore = getMatterAccessStore();
+  for (const matter of await matterStore.listMatters(organizationId)) {
+    await matterStore.removeMatter(matter.id);
+  }
+
+  const transferStore = getOwnershipTransferStore();
+  const transfer = await transferStore.findForOrganization(organizationId);
+  if (transfer) await transferStore.remove(transfer.id);
+
+  await adapter.deleteMany({ model: "invitation", where: byOrganization });
+  await adapter.deleteMany({ model: "organizationRole", where: byOrganization });
+  await adapter.deleteMany({ model: "member", where: byOrganization });
+  await adapter.updateMany({
+    model: "session",
+    where: [{ field: "activeOrganizationId", value: organizationId }],
+    update: { activeOrganizationId: null },
+  });
+  await adapter.delete({ model: "organization", where: [{ field: "id", value: organizationId }] });
+  forgetOrganizationSessionPolicy(organizationId);
+}
+
+/**
+ * Purge every organization past its retention window
+ * Returns the IDs that were purged.
+ */
+export async function purgeDeletedOrganizations(now: Date = new Date()): Promise<string[]> {
+  const { adapter } = await auth.$context;
+  const due = await listOrganizationsDueForPurge(adapter, now);
+  for (const organizationId of due) {
+    await purgeOrganization(organizationId);
+  }
+  return due;
+}
+
+function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("authorization") ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * GET /api/cron/purge-organizations
+ */
+export async function handlePurgeOrganizations(request: Request): Promise<Response> {
+  if (!isAuthorizedCronRequest(request)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const purged = await purgeDeletedOrganizations();
+  return Response.json({ purged });
+}
@@ -0,0 +1,312 @@
+/**
+ * Organization Security Settings
+ *
+ * Firm-wide sign-in settings, stored under `security` in the
+ * organization's `metadata` JSON so no extra table is needed (a reserved
+ * key, so `/organization/update` can't change it):
+ *
+ * - passkeysSatisfyTwoFactor: a registered passkey counts as the second
+ *   factor wherever the firm requires 2FA (passkeys already combine
+ *   something you have with a fingerprint, face or PIN)
+ * - twoFactorRequirement: who must enroll in 2FA ("everyone", or
+ *   "associate-and-above" for associates, partners and owners)
+ * - twoFactorGraceDays: how long members have to enroll, counted from when
+ *   the requirement was turned on or they joined, whichever is later
+ * - sessionPolicy: idle timeouts, max session lifetimes and the
+ *   re-authentication window, per role (see session-policy.ts)
+ *
+ * Members past their deadline are sent to /settings/security by the
+ * server guards until they enroll.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { auth } from "./index";
+import { getOAuthProviderOptions } from "./oauth";
+import { readOrganizationMetadata, writeOrganizationMetadataKey } from "./organization-metadata";
+import { getPasswordlessMode } from "./passwordless";
+import { hasMinimumRole, isLegalRole, LegalRoles, type LegalRole } from "./roles";
+import {
+  DEFAULT_SESSION_POLICY,
+  normalizeSessionPolicy,
+  type SessionPolicy,
+} from "./session-policy";
+import { forgetOrganizationSessionPolicy } from "./session-status";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export const TwoFactorRequirements = ["off", "associate-and-above", "everyone"] as const;
+
+export type TwoFactorRequirement = (typeof TwoFactorRequirements)[number];
+
+export function isTwoFactorRequirement(value: string): value is TwoFactorRequirement {
+  return (TwoFactorRequirements as readonly string[]).includes(value);
+}
+
+export interface OrganizationSecuritySettings {
+  passkeysSatisfyTwoFactor: boolean;
+  twoFactorRequirement: TwoFactorRequirement;
+  twoFactorGraceDays: number;
+  /** ISO timestamp of when the requirement was last turned on */
+  twoFactorRequiredSince: string | null;
+  sessionPolicy: SessionPolicy;
+}
+
+export const DEFAULT_SECURITY_SETTINGS: OrganizationSecuritySettings = {
+  passkeysSatisfyTwoFactor: false,
+  twoFactorRequirement: "off",
+  twoFactorGraceDays: 7,
+  twoFactorRequiredSince: null,
+  sessionPolicy: DEFAULT_SESSION_POLICY,
+};
+
+/** Longest grace period an owner can choose */
+export const MAX_TWO_FACTOR_GRACE_DAYS = 90;
+
+/**
+ * Where 2FA enforcement sends members who missed their deadline
+ */
+export const TWO_FACTOR_ENROLLMENT_PATH = "/settings/security";
+
+function parseMemberRoles(role: string): LegalRole[] {
+  return role
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(isLegalRole);
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function parseSecuritySettings(stored: unknown): OrganizationSecuritySettings {
+  const security = stored as Partial<OrganizationSecuritySettings> | undefined;
+  return {
+    ...DEFAULT_SECURITY_SETTINGS,
+    ...security,
+    sessionPolicy: normalizeSessionPolicy(security?.sessionPolicy),
+  };
+}
+
+export async function getOrganizationSecuritySettings(
+  organizationId: string
+): Promise<OrganizationSecuritySettings> {
+  const { adapter } = await auth.$context;
+  const metadata = await readOrganizationMetadata(adapter, organizationId);
+  return parseSecuritySettings(metadata.security);
+}
+
+/**
+ * Merge changes into the stored settings (other metadata is kept)
+ * Turning the 2FA requirement on starts the grace period; turning it off
+ * clears it.
+ */
+export async function updateOrganizationSecuritySettings(
+  organizationId: string,
+  changes: Partial<OrganizationSecuritySettings>
+): Promise<OrganizationSecuritySettings> {
+  const { adapter } = await auth.$context;
+  const metadata = await readOrganizationMetadata(adapter, organizationId);
+  const current = parseSecuritySettings(metadata.security);
+  const security = { ...current, ...changes };
+
+  if (security.twoFactorRequirement === "off") {
+    security.twoFactorRequiredSince = null;
+  } else if (current.twoFactorRequirement === "off") {
+    security.twoFactorRequiredSince = new Date().toISOString();
+  }
+
+  await writeOrganizationMetadataKey(adapter, organizationId, "security", security);
+  forgetOrganizationSessionPolicy(organizationId);
+  return security;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+export async function hasPasskey(userId: string): Promise<boolean> {
+  const { adapter } = await auth.$context;
+  const count = await adapter.count({
+    model: "passkey",
+    where: [{ field: "userId", value: userId }],
+  });
+  return count > 0;
+}
+
+/**
+ * Whether a user has a second factor the organization accepts
+ * TOTP always counts; a passkey counts when the firm allows it.
+ */
+export async function hasAcceptedSecondFactor(
+  user: { id: string; twoFactorEnabled?: boolean | null },
+  settings: OrganizationSecuritySettings
+): Promise<boolean> {
+  if (user.twoFactorEnabled) return true;
+  return settings.passkeysSatisfyTwoFactor && (await hasPasskey(user.id));
+}
+
+/**
+ * Sign-in methods of this deployment that never ask for a TOTP code
+ * The 2FA requirement makes members enroll, but signing in this way stays
+ * single-factor (a passkey is two factors only when the firm accepts it).
+ * Single sign-on is left to the identity provider's own MFA.
+ *
+ * @example
+ * listSignInMethodsSkippingTwoFactor(settings); // ["Magic link", "Google", "Passkeys"]
+ */
+export function listSignInMethodsSkippingTwoFactor(
+  settings: OrganizationSecuritySettings,
+  env: NodeJS.ProcessEnv = process.env
+): string[] {
+  const methods: string[] = [];
+  const passwordlessMode = getPasswordlessMode(env);
+  if (passwordlessMode) {
+    methods.push(passwordlessMode === "magic-link" ? "Magic link" : "Email code");
+  }
+  methods.push(...getOAuthProviderOptions(env).map((provider) => provider.name));
+  if (!settings.passkeysSatisfyTwoFactor) methods.push("Passkeys");
+  return methods;
+}
+
+/**
+ * Whether the organization requires 2FA from a member with these roles
+ */
+export function isTwoFactorRequiredForRoles(
+  roles: LegalRole[],
+  settings: OrganizationSecuritySettings
+): boolean {
+  switch (settings.twoFactorRequirement) {
+    case "everyone":
+      return true;
+    case "associate-and-above":
+      return roles.some((role) => hasMinimumRole(role, LegalRoles.ASSOCIATE));
+    default:
+      return false;
+  }
+}
+
+/**
+ * When a member must have enrolled by
+ * The grace period starts when the requirement was turned on, or when the
+ * member joined if that was later.
+ */
+export function getTwoFactorDeadline(
+  memberSince: Date | string,
+  settings: OrganizationSecuritySettings
+): Date | null {
+  if (settings.twoFactorRequirement === "off" || !settings.twoFactorRequiredSince) {
+    return null;
+  }
+  const start = Math.max(
+    new Date(settings.twoFactorRequiredSince).getTime(),
+    new Date(memberSince).getTime()
+  );
+  return new Date(start + settings.twoFactorGraceDays * 24 * 60 * 60 * 1000);
+}
+
+export interface TwoFactorStatus {
+  required: boolean;
+  enrolled: boolean;
+  /** Null when 2FA isn't required */
+  deadline: Date | null;
+  /** Required, not enrolled and past the deadline - access is blocked */
+  overdue: boolean;
+}
+
+/**
+ * A member's standing against the organization's 2FA requirement
+ */
+export async function getTwoFactorStatus(
+  user: { id: string; twoFactorEnabled?: boolean | null },
+  member: { role: string; createdAt: Date | string },
+  settings: OrganizationSecuritySettings
+): Promise<TwoFactorStatus> {
+  const roles = parseMemberRoles(member.role);
+  if (!isTwoFactorRequiredForRoles(roles, settings)) {
+    return { required: false, enrolled: false, deadline: null, overdue: false };
+  }
+  const enrolled = await hasAcceptedSecondFactor(user, settings);
+  const deadline = getTwoFactorDeadline(member.createdAt, settings);
+  return {
+    required: true,
+    enrolled,
+    deadline,
+    overdue: !enrolled && deadline !== null && deadline <= new Date(),
+  };
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+export interface TwoFactorReportEntry {
+  userId: string;
+  name: string;
+  email: string;
+  roles: LegalRole[];
+  deadline: Date | null;
+  overdue: boolean;
+}
+
+/**
+ * Members the 2FA requirement applies to who haven't enrolled yet
+ * Sorted by deadline, so overdue members come first.
+ */
+export async function listMembersMissingTwoFactor(
+  organizationId: string
+): Promise<TwoFactorReportEntry[]> {
+  const settings = await getOrganizationSecuritySettings(organizationId);
+  if (settings.twoFactorRequirement === "off") return [];
+
+  const { adapter } = await auth.$context;
+  const members = await adapter.findMany<{ userId: string; role: string; createdAt: Date }>({
+    model: "member",
+    where: [{ field: "organizationId", value: organizationId }],
+  });
+  const required = members.filter((member) =>
+    isTwoFactorRequiredForRoles(parseMemberRoles(member.role), settings)
+  );
+  if (required.length === 0) return [];
+
+  const userIds = required.map((member) => member.userId);
+  const users = await adapter.findMany<{
+    id: string;
+    name: string;
+    email: string;
+    twoFactorEnabled?: boolean | null;
+  }>({
+    model: "user",
+    where: [{ field: "id", value: userIds, operator: "in" }],
+  });
+  const withPasskey = new Set<string>();
+  if (settings.passkeysSatisfyTwoFactor) {
+    const passkeys = await adapter.findMany<{ userId: string }>({
+      model: "passkey",
+      where: [{ field: "userId", value: userIds, operator: "in" }],
+    });
+    for (const passkey of passkeys) withPasskey.add(passkey.userId);
+  }
+
+  const usersById = new Map(users.map((user) => [user.id, user]));
+  const now = new Date();
+  return required
+    .flatMap((member) => {
+      const user = usersById.get(member.userId);
+      if (!user || user.twoFactorEnabled || withPasskey.has(user.id)) return [];
+      const deadline = getTwoFactorDeadline(member.createdAt, settings);
+      return [
+        {
+          userId: user.id,
+          name: user.name,
+          email: user.email,
+          roles: parseMemberRoles(member.role),
+          deadline,
+          overdue: deadline !== null && deadline <= now,
+        },
+      ];
+    })
+    .sort((a, b) => (a.deadline?.getTime() ?? 0) - (b.deadline?.getTime() ?? 0));
+}
@@ -0,0 +1,57 @@
+/**
+ * Organization Slug Rules
+ *
+ * Shared by the "create organization" dialog and enforced again on the
+ * server (see `organizationHooks` in lib/auth/index.ts), so the form and
+ * the API can never disagree. Slugs appear in URLs, so they're lowercase
+ * letters, numbers and single hyphens.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+export const ORGANIZATION_SLUG_MIN_LENGTH = 3;
+export const ORGANIZATION_SLUG_MAX_LENGTH = 48;
+
+const slugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Slugs that would clash with app routes
+ */
+const reservedSlugs = new Set(["admin", "api", "login", "settings", "signup"]);
+
+/**
+ * Suggest a slug from an organization name
+ *
+ * @example
+ * slugifyOrganizationName("Smith & Jones LLP"); // "smith-jones-llp"
+ */
+export function slugifyOrganizationName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, ORGANIZATION_SLUG_MAX_LENGTH)
+    .replace(/-+$/, "");
+}
+
+/**
+ * Error message for an invalid slug, or null if the slug is OK
+ * (availability is checked separately with `organization.checkSlug`)
+ */
+export function validateOrganizationSlug(slug: string): string | null {
+  if (slug.length < ORGANIZATION_SLUG_MIN_LENGTH) {
+    return `Slug must be at least ${ORGANIZATION_SLUG_MIN_LENGTH} characters`;
+  }
+  if (slug.length > ORGANIZATION_SLUG_MAX_LENGTH) {
+    return `Slug must be at most ${ORGANIZATION_SLUG_MAX_LENGTH} characters`;
+  }
+  if (!slugPattern.test(slug)) {
+    return "Slug can only use lowercase letters, numbers and single hyphens";
+  }
+  if (reservedSlugs.has(slug)) {
+    return "That slug is reserved";
+  }
+  return null;
+}
@@ -0,0 +1,278 @@
+/**
+ * Organization Ownership
+ *
+ * Only owners hold `organization: ["delete"]`, so an organization must
+ * never be left without one:
+ *
+ * - The last owner can't be removed, demoted or leave. The organization
+ *   plugin's hooks call `assertKeepsAnOwner` for every member change.
+ * - Ownership moves with a transfer: an owner offers it to another member,
+ *   who accepts it on /settings/organization. The recipient becomes an
+ *   owner and the sender steps down to partner. Offers expire after 7 days.
+ *
+ * Storage is pluggable like sso.ts: call `setOwnershipTransferStore()` at
+ * startup with a database-backed implementation.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import type { DBAdapter } from "better-auth";
+import { APIError } from "better-auth/api";
+import { LegalRoles } from "./roles";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export interface OwnershipTransfer {
+  id: string;
+  organizationId: string;
+  fromUserId: string;
+  toUserId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/** How long a transfer offer stays open, in seconds */
+export const OWNERSHIP_TRANSFER_EXPIRES_IN = 7 * 24 * 60 * 60;
+
+/** Role the previous owner keeps after a transfer */
+export const PREVIOUS_OWNER_ROLE = LegalRoles.PARTNER;
+
+interface MemberRecord {
+  id: string;
+  organizationId: string;
+  userId: string;
+  role: string;
+}
+
+function hasOwnerRole(role: string): boolean {
+  return role.split(",").some((entry) => entry.trim() === LegalRoles.OWNER);
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export interface OwnershipTransferStore {
+  get(id: string): Promise<OwnershipTransfer | null>;
+  /** The organization's open offer, if any (there is at most one) */
+  findForOrganization(organizationId: string): Promise<OwnershipTransfer | null>;
+  listForRecipient(userId: string): Promise<OwnershipTransfer[]>;
+  save(transfer: OwnershipTransfer): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * In-memory store for development
+ * Data is lost on restart - replace it with a database-backed store.
+ */
+export function createMemoryOwnershipTransferStore(): OwnershipTransferStore {
+  const transfers = new Map<string, OwnershipTransfer>();
+
+  return {
+    async get(id) {
+      return transfers.get(id) ?? null;
+    },
+    async findForOrganization(organizationId) {
+      return (
+        [...transfers.values()].find((transfer) => transfer.organizationId === organizationId) ??
+        null
+      );
+    },
+    async listForRecipient(userId) {
+      return [...transfers.values()].filter((transfer) => transfer.toUserId === userId);
+    },
+    async save(transfer) {
+      transfers.set(transfer.id, transfer);
+    },
+    async remove(id) {
+      transfers.delete(id);
+    },
+  };
+}
+
+let store: OwnershipTransferStore = createMemoryOwnershipTransferStore();
+
+/**
+ * Replace the ownership transfer store (call once at startup)
+ */
+export function setOwnershipTransferStore(next: OwnershipTransferStore): void {
+  store = next;
+}
+
+export function getOwnershipTransferStore(): OwnershipTransferStore {
+  return store;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Refuse a member change that would leave the organization without an owner
+ *
+ * @param nextRole - the member's role afterwards, or null if they're leaving
+ */
+export async function assertKeepsAnOwner(
+  adapter: DBAdapter,
+  member: MemberRecord,
+  nextRole: string | null
+): Promise<void> {
+  if (!hasOwnerRole(member.role)) return;
+  if (nextRole !== null && hasOwnerRole(nextRole)) return;
+
+  const members = await adapter.findMany<MemberRecord>({
+    model: "member",
+    where: [{ field: "organizationId", value: member.organizationId }],
+  });
+  const otherOwners = members.filter(
+    (other) => other.id !== member.id && hasOwnerRole(other.role)
+  );
+  if (otherOwners.length === 0) {
+    throw new APIError("BAD_REQUEST", {
+      message: "The organization needs another owner first - transfer ownership instead",
+      code: "LAST_OWNER",
+    });
+  }
+}
+
+/**
+ * Open offers are dropped once they expire
+ */
+function isOpen(transfer: OwnershipTransfer | null): transfer is OwnershipTransfer {
+  return transfer !== null && transfer.expiresAt > new Date();
+}
+
+export async function getPendingOwnershipTransfer(
+  organizationId: string
+): Promise<OwnershipTransfer | null> {
+  const transfer = await store.findForOrganization(organizationId);
+  return isOpen(transfer) ? transfer : null;
+}
+
+export async function listOwnershipTransfersForUser(userId: string): Promise<OwnershipTransfer[]> {
+  const transfers = await store.listForRecipient(userId);
+  return transfers.filter(isOpen);
+}
+
+// ============================================================================
+// Transfers
+// ============================================================================
+
+async function findMember(
+  adapter: DBAdapter,
+  organizationId: string,
+  userId: string
+): Promise<MemberRecord | null> {
+  return adapter.findOne<MemberRecord>({
+    model: "member",
+    where: [
+      { field: "organizationId", value: organizationId },
+      { field: "userId", value: userId },
+    ],
+  });
+}
+
+/**
+ * Offer ownership to another member, replacing any open offer
+ */
+export async function startOwnershipTransfer(
+  adapter: DBAdapter,
+  input: { organizationId: string; fromUserId: string; toMemberId: string }
+): Promise<OwnershipTransfer> {
+  const [from, to] = await Promise.all([
+    findMember(adapter, input.organizationId, input.fromUserId),
+    adapter.findOne<MemberRecord>({
+      model: "member",
+      where: [{ field: "id", value: input.toMemberId }],
+    }),
+  ]);
+  if (!from || !hasOwnerRole(from.role)) {
+    throw new APIError("FORBIDDEN", {
+      message: "Only owners can transfer ownership",
+      code: "NOT_AN_OWNER",
+    });
+  }
+  if (!to || to.organizationId !== input.organizationId) {
+    throw new APIError("BAD_REQUEST", { message: "Member not found", code: "MEMBER_NOT_FOUND" });
+  }
+  if (hasOwnerRole(to.role)) {
+    throw new APIError("BAD_REQUEST", {
+      message: "That member is already an owner",
+      code: "ALREADY_AN_OWNER",
+    });
+  }
+
+  const existing = await store.findForOrganization(input.organizationId);
+  if (existing) await store.remove(existing.id);
+
+  const now = new Date();
+  const transfer: OwnershipTransfer = {
+    id: crypto.randomUUID(),
+    organizationId: input.organizationId,
+    fromUserId: input.fromUserId,
+    toUserId: to.userId,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + OWNERSHIP_TRANSFER_EXPIRES_IN * 1000),
+  };
+  await store.save(transfer);
+  return transfer;
+}
+
+/**
+ * Accept an offer as its recipient
+ * The recipient becomes an owner first, so the sender can step down.
+ */
+export async function acceptOwnershipTransfer(
+  adapter: DBAdapter,
+  transferId: string,
+  userId: string
+): Promise<OwnershipTransfer> {
+  const transfer = await store.get(transferId);
+  if (!isOpen(transfer) || transfer.toUserId !== userId) {
+    throw new APIError("BAD_REQUEST", {
+      message: "This ownership transfer is no longer available",
+      code: "TRANSFER_NOT_FOUND",
+    });
+  }
+
+  const [from, to] = await Promise.all([
+    findMember(adapter, transfer.organizationId, transfer.fromUserId),
+    findMember(adapter, transfer.organizationId, transfer.toUserId),
+  ]);
+  if (!from || !hasOwnerRole(from.role) || !to) {
+    await store.remove(transfer.id);
+    throw new APIError("BAD_REQUEST", {
+      message: "This ownership transfer is no longer available",
+      code: "TRANSFER_NOT_FOUND",
+    });
+  }
+
+  await adapter.update({
+    model: "member",
+    where: [{ field: "id", value: to.id }],
+    update: { role: LegalRoles.OWNER },
+  });
+  await adapter.update({
+    model: "member",
+    where: [{ field: "id", value: from.id }],
+    update: { role: PREVIOUS_OWNER_ROLE },
+  });
+  await store.remove(transfer.id);
+  return transfer;
+}
+
+/**
+ * Withdraw (sender) or decline (recipient) an offer
+ */
+export async function cancelOwnershipTransfer(transferId: string, userId: string): Promise<void> {
+  const transfer = await store.get(transferId);
+  if (!transfer || (transfer.fromUserId !== userId && transfer.toUserId !== userId)) {
+    throw new APIError("BAD_REQUEST", {
+      message: "This ownership transfer is no longer available",
+      code: "TRANSFER_NOT_FOUND",
+    });
+  }
+  await store.remove(transfer.id);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { checkPassword, PASSWORD_MAX_LENGTH, validatePassword } from "./password";
+
+describe("validatePassword", () => {
+  test("accepts a password meeting every rule", () => {
+    expect(validatePassword("Correct-Horse-42")).toBeNull();
+  });
+
+  test("reports the first unmet requirement", () => {
+    expect(validatePassword("Ab1")).toBe("Password needs at least 8 characters");
+    expect(validatePassword("CORRECT-HORSE-42")).toBe("Password needs a lowercase letter");
+    expect(validatePassword("correct-horse-42")).toBe("Password needs an uppercase letter");
+    expect(validatePassword("Correct-Horse")).toBe("Password needs a number");
+  });
+
+  test("rejects passwords over the maximum length", () => {
+    expect(validatePassword(`Aa1${"x".repeat(PASSWORD_MAX_LENGTH)}`)).toBe(
+      `Password must be at most ${PASSWORD_MAX_LENGTH} characters`
+    );
+    expect(validatePassword(`Aa1${"x".repeat(PASSWORD_MAX_LENGTH - 3)}`)).toBeNull();
+  });
+});
+
+describe("checkPassword", () => {
+  test("marks each rule for the requirements checklist", () => {
+    const results = checkPassword("horse42");
+    expect(results.map(({ id, passed }) => ({ id, passed }))).toEqual([
+      { id: "length", passed: false },
+      { id: "lowercase", passed: true },
+      { id: "uppercase", passed: false },
+      { id: "number", passed: true },
+    ]);
+  });
+
+  test("agrees with validatePassword", () => {
+    for (const password of ["Correct-Horse-42", "short", "NoDigitsHere", "12345678"]) {
+      const passedAll = checkPassword(password).every((rule) => rule.passed);
+      expect(validatePassword(password) === null).toBe(passedAll);
+    }
+  });
+});
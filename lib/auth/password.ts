@@ -0,0 +1,60 @@
+/**
+ * Password Rules
+ *
+ * Strength rules shared by the signup and reset-password forms and
+ * enforced again on the server (see the `hooks.before` in lib/auth/index.ts),
+ * so the client checklist and the API can never disagree.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+export interface PasswordRule {
+  id: string;
+  /** Shown in the requirements checklist */
+  label: string;
+  test: (password: string) => boolean;
+}
+
+export const passwordRules: PasswordRule[] = [
+  {
+    id: "length",
+    label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+    test: (password) => password.length >= PASSWORD_MIN_LENGTH,
+  },
+  {
+    id: "lowercase",
+    label: "A lowercase letter",
+    test: (password) => /[a-z]/.test(password),
+  },
+  {
+    id: "uppercase",
+    label: "An uppercase letter",
+    test: (password) => /[A-Z]/.test(password),
+  },
+  {
+    id: "number",
+    label: "A number",
+    test: (password) => /[0-9]/.test(password),
+  },
+];
+
+/**
+ * Check a password against every rule
+ */
+export function checkPassword(password: string) {
+  return passwordRules.map((rule) => ({ ...rule, passed: rule.test(password) }));
+}
+
+/**
+ * First unmet requirement as an error message, or null if the password is OK
+ */
+export function validatePassword(password: string): string | null {
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  const failed = passwordRules.find((rule) => !rule.test(password));
+  return failed ? `Password needs ${failed.label.toLowerCase()}` : null;
+}
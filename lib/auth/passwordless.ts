@@ -0,0 +1,124 @@
+/**
+ * Passwordless Sign-In
+ *
+ * Client-portal users rarely remember passwords, so a deployment can offer
+ * email-only sign-in. AUTH_PASSWORDLESS_MODE picks the method:
+ *
+ * - "magic-link": a one-click sign-in link
+ * - "email-otp": a 6-digit code typed into the login page
+ * - unset: passwordless sign-in is off
+ *
+ * Links and codes work once and expire after 10 minutes. The endpoints of
+ * the method that isn't selected are disabled.
+ *
+ * AUTH_CLIENTS_PASSWORDLESS_ONLY=true stops users whose only role is
+ * `client` from signing in with a password. It needs a passwordless mode -
+ * the server refuses to start without one, as clients couldn't sign in.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import type { AuthContext } from "better-auth";
+import { LegalRoles } from "./roles";
+
+export const PasswordlessModes = ["magic-link", "email-otp"] as const;
+
+export type PasswordlessMode = (typeof PasswordlessModes)[number];
+
+/** Lifetime of a sign-in link or code, in seconds */
+export const PASSWORDLESS_TOKEN_EXPIRES_IN = 10 * 60;
+
+const modePaths: Record<PasswordlessMode, string[]> = {
+  "magic-link": ["/sign-in/magic-link", "/magic-link/verify"],
+  "email-otp": [
+    "/email-otp/send-verification-otp",
+    "/email-otp/check-verification-otp",
+    "/sign-in/email-otp",
+  ],
+};
+
+/**
+ * Email OTP endpoints never used - email verification and password reset
+ * keep their link-based flows
+ */
+const unusedOtpPaths = [
+  "/email-otp/verify-email",
+  "/forget-password/email-otp",
+  "/email-otp/reset-password",
+];
+
+/**
+ * The deployment's passwordless method, or null when it's off
+ */
+export function getPasswordlessMode(
+  env: NodeJS.ProcessEnv = process.env
+): PasswordlessMode | null {
+  const mode = env.AUTH_PASSWORDLESS_MODE?.trim().toLowerCase();
+  return PasswordlessModes.find((value) => value === mode) ?? null;
+}
+
+/**
+ * Endpoints of the methods that aren't selected (for `disabledPaths`)
+ */
+export function getDisabledPasswordlessPaths(env: NodeJS.ProcessEnv = process.env): string[] {
+  const mode = getPasswordlessMode(env);
+  return [
+    ...PasswordlessModes.filter((value) => value !== mode).flatMap((value) => modePaths[value]),
+    ...unusedOtpPaths,
+  ];
+}
+
+/**
+ * Whether client-only users must use passwordless sign-in
+ */
+export function isClientPasswordlessOnly(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.AUTH_CLIENTS_PASSWORDLESS_ONLY?.trim().toLowerCase() === "true";
+}
+
+/**
+ * Throw at startup when client-only users would have no way to sign in
+ *
+ * @example
+ * assertPasswordlessConfig(); // in lib/auth/index.ts
+ */
+export function assertPasswordlessConfig(env: NodeJS.ProcessEnv = process.env): void {
+  if (isClientPasswordlessOnly(env) && !getPasswordlessMode(env)) {
+    throw new Error(
+      "AUTH_CLIENTS_PASSWORDLESS_ONLY=true needs AUTH_PASSWORDLESS_MODE set to " +
+        `${PasswordlessModes.join(" or ")} - clients couldn't sign in otherwise`
+    );
+  }
+}
+
+/**
+ * Whether a password sign-in must be refused because the user is a client
+ *
+ * Only says yes once the password is correct, so the refusal can't be used
+ * to find out which emails belong to clients. Users with any other role
+ * (e.g. a partner at one firm who is a client of another) keep passwords.
+ */
+export async function mustUsePasswordless(
+  context: AuthContext,
+  email: string,
+  password: string
+): Promise<boolean> {
+  const found = await context.internalAdapter.findUserByEmail(email.toLowerCase(), {
+    includeAccounts: true,
+  });
+  if (!found) return false;
+
+  const memberships = await context.adapter.findMany<{ role: string }>({
+    model: "member",
+    where: [{ field: "userId", value: found.user.id }],
+  });
+  const roles = memberships.flatMap((member) =>
+    member.role
+      .split(",")
+      .map((role) => role.trim())
+      .filter(Boolean)
+  );
+  if (roles.length === 0 || roles.some((role) => role !== LegalRoles.CLIENT)) return false;
+
+  const hash = found.accounts.find((account) => account.providerId === "credential")?.password;
+  return hash ? context.password.verify({ hash, password }) : false;
+}
@@ -0,0 +1,186 @@
+/**
+ * Permission Registry
+ *
+ * Builds the access control statement and the legal roles from resource
+ * definitions, so adding a resource is one definition instead of edits to
+ * `statement` and six role objects. Each resource lists its actions and
+ * what every legal role gets by default:
+ *
+ * @example
+ * // lib/calendar/permissions.ts
+ * export const calendarPermissions = definePermissionResource("calendar", {
+ *   label: "Calendar",
+ *   actions: ["read", "create", "update", "delete"],
+ *   grants: {
+ *     owner: ["read", "create", "update", "delete"],
+ *     partner: ["read", "create", "update", "delete"],
+ *     associate: ["read", "create", "update"],
+ *     paralegal: ["read", "create", "update"],
+ *     staff: ["read", "create"],
+ *     client: [], // deliberately nothing
+ *   },
+ * });
+ *
+ * Then add it to the registry in permissions.ts. Types flow through, so
+ * `requirePermission({ calendar: ["read"] })` is checked by TypeScript.
+ *
+ * Definitions are validated when the registry is built: an unknown role,
+ * an action a resource doesn't have or a duplicate resource throws a
+ * PermissionRegistryError. A role left out of `grants` gets nothing and
+ * is reported by `findMissingGrants()` - write `[]` when that's intended.
+ *
+ * Feature modules must import from this file, never permissions.ts, so
+ * the registry can import them.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { createAccessControl } from "better-auth/plugins/access";
+import { isLegalRole, RoleHierarchy, type LegalRole } from "./roles";
+
+// ============================================================================
+// Definitions
+// ============================================================================
+
+export interface PermissionResourceDefinition<
+  TResource extends string = string,
+  TActions extends readonly string[] = readonly string[],
+> {
+  resource: TResource;
+  /** Shown in the custom role matrix */
+  label: string;
+  actions: TActions;
+  /** Default actions per legal role - omitted roles are reported as missing */
+  grants: Partial<Record<LegalRole, readonly TActions[number][]>>;
+}
+
+const resourceNamePattern = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Define a resource, its actions and each legal role's default grants
+ */
+export function definePermissionResource<
+  const TResource extends string,
+  const TActions extends readonly string[],
+>(
+  resource: TResource,
+  definition: {
+    label: string;
+    actions: TActions;
+    grants: Partial<Record<LegalRole, readonly NoInfer<TActions>[number][]>>;
+  }
+): PermissionResourceDefinition<TResource, TActions> {
+  return { resource, ...definition };
+}
+
+/**
+ * The statement a list of definitions adds up to, e.g.
+ * { matter: readonly ["create", "read"], calendar: readonly ["read"] }
+ */
+export type StatementOf<TDefinitions extends readonly PermissionResourceDefinition[]> = {
+  readonly [TDefinition in TDefinitions[number] as TDefinition["resource"]]: TDefinition["actions"];
+};
+
+export class PermissionRegistryError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid permission registry:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "PermissionRegistryError";
+  }
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export interface MissingGrants {
+  resource: string;
+  /** Legal roles with no entry in the resource's `grants` */
+  roles: LegalRole[];
+}
+
+function validateDefinitions(definitions: readonly PermissionResourceDefinition[]): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  for (const { resource, actions, grants } of definitions) {
+    if (!resourceNamePattern.test(resource)) {
+      issues.push(`"${resource}" must be lowercase letters, numbers and underscores`);
+    }
+    if (seen.has(resource)) {
+      issues.push(`"${resource}" is registered more than once`);
+    }
+    seen.add(resource);
+
+    if (actions.length === 0) {
+      issues.push(`"${resource}" has no actions`);
+    }
+    if (new Set(actions).size !== actions.length) {
+      issues.push(`"${resource}" lists an action more than once`);
+    }
+
+    for (const [role, granted] of Object.entries(grants)) {
+      if (!isLegalRole(role)) {
+        issues.push(`"${resource}" grants to an unknown role "${role}"`);
+        continue;
+      }
+      for (const action of granted ?? []) {
+        if (!actions.includes(action)) {
+          issues.push(`"${resource}" grants ${role} an unknown action "${action}"`);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Build `statement`, `ac` and the legal `roles` from resource definitions
+ *
+ * Throws a PermissionRegistryError listing every problem found.
+ */
+export function createPermissionRegistry<
+  const TDefinitions extends readonly PermissionResourceDefinition[],
+>(definitions: TDefinitions) {
+  const issues = validateDefinitions(definitions);
+  if (issues.length > 0) {
+    throw new PermissionRegistryError(issues);
+  }
+
+  const statement = Object.fromEntries(
+    definitions.map((definition) => [definition.resource, definition.actions])
+  ) as StatementOf<TDefinitions>;
+
+  const ac = createAccessControl(statement);
+
+  const roles = Object.fromEntries(
+    RoleHierarchy.map((role) => [
+      role,
+      ac.newRole(
+        Object.fromEntries(
+          definitions
+            .filter((definition) => (definition.grants[role] ?? []).length > 0)
+            .map((definition) => [definition.resource, definition.grants[role]])
+        ) as Parameters<typeof ac.newRole>[0]
+      ),
+    ])
+  ) as Record<LegalRole, ReturnType<typeof ac.newRole>>;
+
+  return {
+    definitions,
+    statement,
+    ac,
+    roles,
+    /**
+     * Resources that don't say what some legal roles get
+     */
+    findMissingGrants(): MissingGrants[] {
+      return definitions
+        .map((definition) => ({
+          resource: definition.resource,
+          roles: RoleHierarchy.filter((role) => definition.grants[role] === undefined),
+        }))
+        .filter((missing) => missing.roles.length > 0);
+    },
+  };
+}
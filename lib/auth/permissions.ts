@@ -2,114 +2,211 @@
  * Access Control & Permissions
  *
  * Defines what each role can do in the application.
- * Uses Better Auth's access control system.
+ * Uses Better Auth's access control system, built by the permission
+ * registry (permission-registry.ts) from one definition per resource.
  *
  * @see skills/auth/SKILL.md for detailed documentation
  */
 
-import { createAccessControl } from "better-auth/plugins/access";
+import type { Role } from "better-auth/plugins/access";
+import {
+  createPermissionRegistry,
+  definePermissionResource,
+} from "./permission-registry";
+import type { LegalRole } from "./roles";
+
+// ============================================================================
+// Resources
+// ============================================================================
 
 /**
- * Permission statements define all possible actions on each resource.
- * Add new resources and actions here as your app grows.
+ * Organization management
  */
-const statement = {
-  // Organization management
-  organization: ["update", "delete"],
-
-  // Member management
-  member: ["create", "read", "update", "delete"],
-
-  // Invitation management
-  invitation: ["create", "cancel"],
-
-  // Matter/case management (legal-specific)
-  matter: ["create", "read", "update", "delete", "assign"],
-
-  // Document management
-  document: ["create", "read", "update", "delete", "share"],
-
-  // Billing/financial (legal-specific)
-  billing: ["read", "create", "approve"],
-} as const;
+const organizationPermissions = definePermissionResource("organization", {
+  label: "Organization",
+  actions: ["update", "delete"],
+  grants: {
+    owner: ["update", "delete"],
+    partner: [],
+    associate: [],
+    paralegal: [],
+    staff: [],
+    client: [],
+  },
+});
 
-export const ac = createAccessControl(statement);
+/**
+ * Member management
+ */
+const memberPermissions = definePermissionResource("member", {
+  label: "Members",
+  actions: ["create", "read", "update", "delete"],
+  grants: {
+    owner: ["create", "read", "update", "delete"],
+    partner: ["create", "read", "update", "delete"],
+    associate: ["read"],
+    paralegal: ["read"],
+    staff: ["read"],
+    client: [],
+  },
+});
 
 /**
- * Owner Role
- * Full control over everything in the organization
+ * Invitation management
  */
-export const owner = ac.newRole({
-  organization: ["update", "delete"],
-  member: ["create", "read", "update", "delete"],
-  invitation: ["create", "cancel"],
-  matter: ["create", "read", "update", "delete", "assign"],
-  document: ["create", "read", "update", "delete", "share"],
-  billing: ["read", "create", "approve"],
+const invitationPermissions = definePermissionResource("invitation", {
+  label: "Invitations",
+  actions: ["create", "cancel"],
+  grants: {
+    owner: ["create", "cancel"],
+    partner: ["create", "cancel"],
+    associate: [],
+    paralegal: [],
+    staff: [],
+    client: [],
+  },
 });
 
 /**
- * Partner Role
- * Can manage staff and matters, but can't delete the organization
+ * Matter/case management (legal-specific)
+ * Associates, paralegals and clients only reach assigned or their own
+ * matters (see matter-access.ts)
  */
-export const partner = ac.newRole({
-  member: ["create", "read", "update", "delete"],
-  invitation: ["create", "cancel"],
-  matter: ["create", "read", "update", "delete", "assign"],
-  document: ["create", "read", "update", "delete", "share"],
-  billing: ["read", "create", "approve"],
+const matterPermissions = definePermissionResource("matter", {
+  label: "Matters",
+  actions: ["create", "read", "update", "delete", "assign"],
+  grants: {
+    owner: ["create", "read", "update", "delete", "assign"],
+    partner: ["create", "read", "update", "delete", "assign"],
+    associate: ["read", "update"],
+    paralegal: ["read"],
+    staff: ["read"],
+    client: ["read"],
+  },
 });
 
 /**
- * Associate Role
- * Works on matters, can manage documents
+ * Document management
  */
-export const associate = ac.newRole({
-  member: ["read"],
-  matter: ["read", "update"], // Assigned matters only (enforced at query level)
-  document: ["create", "read", "update", "delete"],
-  billing: ["read"],
+const documentPermissions = definePermissionResource("document", {
+  label: "Documents",
+  actions: ["create", "read", "update", "delete", "share"],
+  grants: {
+    owner: ["create", "read", "update", "delete", "share"],
+    partner: ["create", "read", "update", "delete", "share"],
+    associate: ["create", "read", "update", "delete"],
+    paralegal: ["create", "read", "update"],
+    staff: ["read"],
+    client: ["read"], // Their documents only
+  },
 });
 
 /**
- * Paralegal Role
- * Support on matters, limited document editing
+ * Billing/financial (legal-specific)
  */
-export const paralegal = ac.newRole({
-  member: ["read"],
-  matter: ["read"],
-  document: ["create", "read", "update"],
-  billing: ["read"],
+const billingPermissions = definePermissionResource("billing", {
+  label: "Billing",
+  actions: ["read", "create", "approve"],
+  grants: {
+    owner: ["read", "create", "approve"],
+    partner: ["read", "create", "approve"],
+    associate: ["read"],
+    paralegal: ["read"],
+    staff: ["read", "create"],
+    client: [],
+  },
 });
 
 /**
- * Staff Role
- * Administrative access, primarily read-only for legal matters
+ * Signing members out of every device (/settings/members)
+ * Everyone can always end their own sessions on /settings/security.
  */
-export const staff = ac.newRole({
-  member: ["read"],
-  matter: ["read"],
-  document: ["read"],
-  billing: ["read", "create"],
+const sessionPermissions = definePermissionResource("session", {
+  label: "Sessions",
+  actions: ["revoke"],
+  grants: {
+    owner: ["revoke"],
+    partner: ["revoke"],
+    associate: [],
+    paralegal: [],
+    staff: [],
+    client: [],
+  },
 });
 
 /**
- * Client Role
- * External client with read-only access to their own matters
+ * Custom role management (Better Auth dynamic access control)
  */
-export const client = ac.newRole({
-  matter: ["read"], // Own matters only (enforced at query level)
-  document: ["read"], // Their documents only
+const acPermissions = definePermissionResource("ac", {
+  label: "Roles",
+  actions: ["create", "read", "update", "delete"],
+  grants: {
+    owner: ["create", "read", "update", "delete"],
+    partner: ["read"],
+    associate: [],
+    paralegal: [],
+    staff: [],
+    client: [],
+  },
 });
 
+// ============================================================================
+// Registry
+// ============================================================================
+
 /**
- * All roles for export to Better Auth config
+ * Every resource the app checks permissions for
+ * Add new resources here - feature modules define theirs with
+ * `definePermissionResource` and are listed after the core ones.
+ * Custom roles (lib/auth/custom-roles.ts) are built from the same resources.
  */
-export const roles = {
-  owner,
-  partner,
-  associate,
-  paralegal,
-  staff,
-  client,
+export const permissionRegistry = createPermissionRegistry([
+  organizationPermissions,
+  memberPermissions,
+  invitationPermissions,
+  matterPermissions,
+  documentPermissions,
+  billingPermissions,
+  sessionPermissions,
+  acPermissions,
+]);
+
+/**
+ * Resource definitions, in registry order (e.g. for the custom role matrix)
+ */
+export const permissionResources = permissionRegistry.definitions;
+
+/**
+ * Permission statements define all possible actions on each resource
+ */
+export const statement = permissionRegistry.statement;
+
+export const ac = permissionRegistry.ac;
+
+/**
+ * A subset of the permission statement, e.g. { matter: ["update"] }
+ */
+export type PermissionStatement = {
+  [K in keyof typeof statement]?: (typeof statement)[K][number][];
 };
+
+/**
+ * All roles for export to Better Auth config
+ */
+export const roles = permissionRegistry.roles;
+
+export const { owner, partner, associate, paralegal, staff, client } = roles;
+
+/**
+ * Check whether a legal role grants every action in a permission statement
+ *
+ * @example
+ * roleHasPermission("associate", { matter: ["update"] }); // true
+ * roleHasPermission("paralegal", { document: ["share"] }); // false
+ */
+export function roleHasPermission(
+  role: LegalRole,
+  permission: PermissionStatement
+): boolean {
+  return (roles[role] as Role).authorize(permission).success;
+}
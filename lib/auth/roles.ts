@@ -24,6 +24,13 @@ export const LegalRoles = {
 
 export type LegalRole = (typeof LegalRoles)[keyof typeof LegalRoles];
 
+/**
+ * Type guard for role strings coming from the session or database
+ */
+export function isLegalRole(value: string): value is LegalRole {
+  return (Object.values(LegalRoles) as string[]).includes(value);
+}
+
 /**
  * Human-readable descriptions for displaying in UI
  */
@@ -60,3 +67,11 @@ export function hasMinimumRole(
   const requiredLevel = RoleHierarchy.indexOf(requiredRole);
   return userLevel >= requiredLevel;
 }
+
+/**
+ * Check if someone holding `userRoles` may give another member `role`
+ * Nobody can hand out a role above their own, so only owners appoint owners.
+ */
+export function canAssignRole(userRoles: LegalRole[], role: LegalRole): boolean {
+  return userRoles.some((userRole) => hasMinimumRole(userRole, role));
+}
@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test";
+import { createRoutePolicy, RoutePolicyError, type RoutePolicyConfig } from "./route-policy";
+
+const config: RoutePolicyConfig = {
+  mode: "private-by-default",
+  protectedRoutes: ["/dashboard"],
+  publicRoutes: ["/", "/login", "/pricing"],
+  alwaysPublicRoutes: ["/api/auth"],
+};
+
+function issuesOf(build: () => unknown): string[] {
+  try {
+    build();
+  } catch (error) {
+    if (error instanceof RoutePolicyError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe("private-by-default", () => {
+  const policy = createRoutePolicy(config, {});
+
+  test("protects routes that aren't listed as public", () => {
+    expect(policy.resolve("/matters/42")).toEqual({ access: "protected" });
+  });
+
+  test("leaves public routes and everything below them open", () => {
+    expect(policy.resolve("/login")).toEqual({ access: "public", matchedPattern: "/login" });
+    expect(policy.resolve("/pricing/firms")).toEqual({
+      access: "public",
+      matchedPattern: "/pricing",
+    });
+  });
+
+  test("only matches the root pattern on the root itself", () => {
+    expect(policy.resolve("/").access).toBe("public");
+    expect(policy.resolve("/settings").access).toBe("protected");
+  });
+});
+
+describe("public-by-default", () => {
+  const policy = createRoutePolicy({ ...config, mode: "public-by-default" }, {});
+
+  test("only protects the listed routes", () => {
+    expect(policy.resolve("/dashboard/matters")).toEqual({
+      access: "protected",
+      matchedPattern: "/dashboard",
+    });
+    expect(policy.resolve("/matters/42")).toEqual({ access: "public" });
+  });
+});
+
+describe("overrides", () => {
+  const policy = createRoutePolicy(
+    {
+      ...config,
+      overrides: [
+        { pattern: "/matters/:id/*", access: "protected", role: "associate" },
+        { pattern: "/matters/:id/share", access: "public" },
+        { pattern: "/billing", access: "protected", permission: { billing: ["read"] } },
+      ],
+    },
+    {}
+  );
+
+  test("carry their role and permission guards", () => {
+    expect(policy.resolve("/matters/42/documents")).toEqual({
+      access: "protected",
+      matchedPattern: "/matters/:id/*",
+      role: "associate",
+      permission: undefined,
+    });
+    expect(policy.resolve("/billing/invoices").permission).toEqual({ billing: ["read"] });
+  });
+
+  test("let the most specific pattern win", () => {
+    expect(policy.resolve("/matters/42/share").access).toBe("public");
+  });
+
+  test("never apply to always-public routes", () => {
+    expect(policy.resolve("/api/auth/get-session")).toEqual({
+      access: "public",
+      matchedPattern: "/api/auth",
+    });
+  });
+});
+
+describe("disabled", () => {
+  test("leaves every route public", () => {
+    const policy = createRoutePolicy({ ...config, mode: "disabled" }, {});
+    expect(policy.resolve("/dashboard")).toEqual({ access: "public" });
+  });
+});
+
+describe("environment", () => {
+  test("overrides the mode, route lists and session validation", () => {
+    const policy = createRoutePolicy(config, {
+      AUTH_MODE: "public-by-default",
+      AUTH_PROTECTED_ROUTES: " /admin , /settings ",
+      AUTH_SESSION_VALIDATION: "verified",
+    });
+
+    expect(policy.config.mode).toBe("public-by-default");
+    expect(policy.config.protectedRoutes).toEqual(["/admin", "/settings"]);
+    expect(policy.config.sessionValidation).toBe("verified");
+    expect(policy.resolve("/dashboard").access).toBe("public");
+  });
+
+  test("defaults to cookie validation", () => {
+    expect(createRoutePolicy(config, {}).config.sessionValidation).toBe("cookie");
+  });
+
+  test("rejects unknown values", () => {
+    expect(issuesOf(() => createRoutePolicy(config, { AUTH_MODE: "open" }))).toEqual([
+      'AUTH_MODE "open" must be one of: disabled, public-by-default, private-by-default',
+    ]);
+  });
+});
+
+describe("validation", () => {
+  test("reports every problem at once", () => {
+    const issues = issuesOf(() =>
+      createRoutePolicy(
+        {
+          ...config,
+          publicRoutes: ["/pricing", "/pricing/firms", "dashboard", "/a/:id/:id"],
+        },
+        {}
+      )
+    );
+
+    expect(issues).toEqual([
+      'publicRoutes: "/pricing/firms" is already covered by "/pricing"',
+      '"dashboard" must start with "/"',
+      '"/a/:id/:id" repeats the parameter ":id"',
+    ]);
+  });
+
+  test("rejects a route that is both protected and public", () => {
+    expect(
+      issuesOf(() => createRoutePolicy({ ...config, publicRoutes: ["/dashboard"] }, {}))
+    ).toEqual(['"/dashboard" is listed in both protectedRoutes and publicRoutes']);
+  });
+
+  test("rejects protection that an always-public route would discard", () => {
+    expect(
+      issuesOf(() =>
+        createRoutePolicy(
+          { ...config, overrides: [{ pattern: "/api/auth/admin", access: "protected" }] },
+          {}
+        )
+      )
+    ).toEqual([
+      'overrides: "/api/auth/admin" can never be protected because "/api/auth" is always public',
+    ]);
+  });
+
+  test("rejects guards on public routes and unknown roles or actions", () => {
+    const issues = issuesOf(() =>
+      createRoutePolicy(
+        {
+          ...config,
+          overrides: [
+            { pattern: "/pricing", access: "public", role: "partner" },
+            { pattern: "/vault", access: "protected", role: "intern" as never },
+            { pattern: "/reports", access: "protected", permission: { matter: ["shred" as never] } },
+          ],
+        },
+        {}
+      )
+    );
+
+    expect(issues).toEqual([
+      'overrides: "/pricing" is public but requires a role or permission',
+      'overrides: "/vault" requires an unknown role "intern"',
+      'overrides: "/reports" requires an unknown action "matter:shred"',
+    ]);
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * Route Policy
+ *
+ * Typed configuration for the route protection performed in `middleware.ts`.
+ * The policy lives in `auth.config.ts` at the project root and can be
+ * overridden per deployment with environment variables, so teams no longer
+ * need to fork the middleware to change which routes are protected.
+ *
+ * Patterns:
+ * - "/dashboard"          matches /dashboard and everything below it
+ * - "/matters/:id"        `:name` matches exactly one path segment
+ * - "/matters/:id/*"      `*` matches exactly one path segment (unnamed)
+ * - "/"                   matches the home page only
+ *
+ * Overrides can also require a minimum LegalRole or a permission statement
+ * in the user's active organization. Authenticated users who fall short
+ * get a 403 page instead of a redirect to /login.
+ *
+ * The policy is validated when it is loaded. Overlapping or contradictory
+ * rules throw a RoutePolicyError instead of silently shadowing each other.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { ac, type PermissionStatement } from "./permissions";
+import { isLegalRole, type LegalRole } from "./roles";
+
+/**
+ * Auth mode determines the overall protection strategy:
+ * - "disabled": No route protection (for MVPs, prototypes)
+ * - "public-by-default": Only protect routes in `protectedRoutes`
+ * - "private-by-default": Protect everything except `publicRoutes`
+ */
+export const AuthModes = [
+  "disabled",
+  "public-by-default",
+  "private-by-default",
+] as const;
+
+export type AuthMode = (typeof AuthModes)[number];
+
+/**
+ * How the middleware checks sessions on protected routes:
+ * - "cookie": Session cookie presence only (fast, no lookup)
+ * - "verified": Validate the session (signed cookie cache, then the
+ *   Better Auth API). Expired or revoked sessions are cleared and
+ *   redirected to /login?reason=expired
+ */
+export const SessionValidationModes = ["cookie", "verified"] as const;
+
+export type SessionValidation = (typeof SessionValidationModes)[number];
+
+/**
+ * Whether a route requires a session
+ */
+export type RouteAccess = "public" | "protected";
+
+/**
+ * Per-route override
+ *
+ * Overrides win over the mode-based lists, so a single route can be opened
+ * up inside a protected area (or locked down inside a public one).
+ * When several overrides match, the most specific pattern wins.
+ */
+export interface RouteRule {
+  /** Route pattern, e.g. "/matters/:id/*" */
+  pattern: string;
+  /** Whether the route requires a session */
+  access: RouteAccess;
+  /** Minimum role in the active organization (protected routes only) */
+  role?: LegalRole;
+  /** Permission statement the active role must grant (protected routes only) */
+  permission?: PermissionStatement;
+}
+
+export interface RoutePolicyConfig {
+  /** Overall protection strategy */
+  mode: AuthMode;
+  /** How sessions are checked on protected routes (default: "cookie") */
+  sessionValidation?: SessionValidation;
+  /** Routes that require authentication (used in "public-by-default" mode) */
+  protectedRoutes: string[];
+  /** Routes that don't require authentication (used in "private-by-default" mode) */
+  publicRoutes: string[];
+  /** Routes that never require auth regardless of mode or overrides */
+  alwaysPublicRoutes: string[];
+  /** Per-route overrides, evaluated before the mode-based lists */
+  overrides?: RouteRule[];
+}
+
+/**
+ * Result of resolving a pathname against the policy
+ */
+export interface RouteDecision {
+  access: RouteAccess;
+  /** The pattern that decided the outcome, if any */
+  matchedPattern?: string;
+  /** Minimum role required, from the matching override */
+  role?: LegalRole;
+  /** Permission required, from the matching override */
+  permission?: PermissionStatement;
+}
+
+export interface RoutePolicy {
+  /** The validated configuration, after environment overrides */
+  readonly config: RoutePolicyConfig;
+  /** Decide whether a pathname requires a session */
+  resolve(pathname: string): RouteDecision;
+}
+
+/**
+ * Thrown when the route policy is invalid
+ */
+export class RoutePolicyError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid route policy:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "RoutePolicyError";
+  }
+}
+
+/**
+ * Helper for typing `auth.config.ts`
+ */
+export function defineAuthConfig(config: RoutePolicyConfig): RoutePolicyConfig {
+  return config;
+}
+
+// ============================================================================
+// Pattern compilation
+// ============================================================================
+
+type Segment =
+  | { type: "literal"; value: string }
+  | { type: "param"; name: string }
+  | { type: "wildcard" };
+
+interface CompiledPattern {
+  source: string;
+  segments: Segment[];
+  /** Shape of the pattern with params and wildcards normalized, for comparisons */
+  key: string;
+}
+
+const PARAM_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function compilePattern(source: string, issues: string[]): CompiledPattern | null {
+  if (!source.startsWith("/")) {
+    issues.push(`"${source}" must start with "/"`);
+    return null;
+  }
+  if (source.length > 1 && (source.includes("//") || source.endsWith("/"))) {
+    issues.push(`"${source}" must not contain empty segments or a trailing slash`);
+    return null;
+  }
+
+  const segments: Segment[] = [];
+  const paramNames = new Set<string>();
+
+  for (const part of splitPath(source)) {
+    if (part === "*") {
+      segments.push({ type: "wildcard" });
+    } else if (part.startsWith(":")) {
+      const name = part.slice(1);
+      if (!PARAM_NAME.test(name)) {
+        issues.push(`"${source}" has an invalid parameter name "${part}"`);
+        return null;
+      }
+      if (paramNames.has(name)) {
+        issues.push(`"${source}" repeats the parameter "${part}"`);
+        return null;
+      }
+      paramNames.add(name);
+      segments.push({ type: "param", name });
+    } else if (part.includes("*") || part.includes(":")) {
+      issues.push(`"${source}" mixes "*" or ":" with other characters in "${part}"`);
+      return null;
+    } else {
+      segments.push({ type: "literal", value: part });
+    }
+  }
+
+  const key =
+    "/" +
+    segments
+      .map((segment) => (segment.type === "literal" ? segment.value : "*"))
+      .join("/");
+
+  return { source, segments, key };
+}
+
+function segmentMatches(segment: Segment, value: string): boolean {
+  return segment.type === "literal" ? segment.value === value : true;
+}
+
+/**
+ * A pattern matches a path when every pattern segment matches the
+ * corresponding path segment. Extra path segments are allowed, so a
+ * pattern covers everything below it. The root pattern only matches "/".
+ */
+function matchesPath(pattern: CompiledPattern, pathname: string): boolean {
+  const parts = splitPath(pathname);
+  if (pattern.segments.length === 0) return parts.length === 0;
+  if (parts.length < pattern.segments.length) return false;
+  return pattern.segments.every((segment, index) =>
+    segmentMatches(segment, parts[index])
+  );
+}
+
+/**
+ * Whether every path matched by `inner` is also matched by `outer`
+ */
+function covers(outer: CompiledPattern, inner: CompiledPattern): boolean {
+  if (outer.segments.length === 0) return inner.segments.length === 0;
+  if (inner.segments.length < outer.segments.length) return false;
+  return outer.segments.every((segment, index) => {
+    const other = inner.segments[index];
+    if (segment.type !== "literal") return true;
+    return other.type === "literal" && other.value === segment.value;
+  });
+}
+
+/**
+ * Positive when `a` is more specific than `b`.
+ * Longer patterns win; on equal length, the first literal segment wins.
+ */
+function compareSpecificity(a: CompiledPattern, b: CompiledPattern): number {
+  if (a.segments.length !== b.segments.length) {
+    return a.segments.length - b.segments.length;
+  }
+  for (let i = 0; i < a.segments.length; i++) {
+    const aLiteral = a.segments[i].type === "literal" ? 1 : 0;
+    const bLiteral = b.segments[i].type === "literal" ? 1 : 0;
+    if (aLiteral !== bLiteral) return aLiteral - bLiteral;
+  }
+  return 0;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function compileList(
+  name: string,
+  patterns: string[],
+  issues: string[]
+): CompiledPattern[] {
+  const compiled: CompiledPattern[] = [];
+
+  for (const source of patterns) {
+    const pattern = compilePattern(source, issues);
+    if (!pattern) continue;
+
+    for (const existing of compiled) {
+      if (existing.key === pattern.key) {
+        issues.push(`${name}: "${source}" duplicates "${existing.source}"`);
+      } else if (covers(existing, pattern)) {
+        issues.push(`${name}: "${source}" is already covered by "${existing.source}"`);
+      } else if (covers(pattern, existing)) {
+        issues.push(`${name}: "${existing.source}" is already covered by "${source}"`);
+      }
+    }
+    compiled.push(pattern);
+  }
+
+  return compiled;
+}
+
+/**
+ * Role and permission guards only make sense on protected routes,
+ * and must reference roles and actions that actually exist.
+ */
+function validateGuards(rule: RouteRule, issues: string[]): void {
+  if (rule.access === "public" && (rule.role || rule.permission)) {
+    issues.push(`overrides: "${rule.pattern}" is public but requires a role or permission`);
+  }
+  if (rule.role && !isLegalRole(rule.role)) {
+    issues.push(`overrides: "${rule.pattern}" requires an unknown role "${rule.role}"`);
+  }
+  if (rule.permission) {
+    const statements: Record<string, readonly string[]> = ac.statements;
+    for (const [resource, actions] of Object.entries(rule.permission)) {
+      const allowed = statements[resource];
+      if (!allowed) {
+        issues.push(`overrides: "${rule.pattern}" requires an unknown resource "${resource}"`);
+        continue;
+      }
+      for (const action of actions ?? []) {
+        if (!allowed.includes(action)) {
+          issues.push(
+            `overrides: "${rule.pattern}" requires an unknown action "${resource}:${action}"`
+          );
+        }
+      }
+    }
+  }
+}
+
+function compileOverrides(
+  rules: RouteRule[],
+  issues: string[]
+): { pattern: CompiledPattern; rule: RouteRule }[] {
+  const compiled: { pattern: CompiledPattern; rule: RouteRule }[] = [];
+
+  for (const rule of rules) {
+    if (rule.access !== "public" && rule.access !== "protected") {
+      issues.push(`overrides: "${rule.pattern}" has an unknown access "${rule.access}"`);
+      continue;
+    }
+    const pattern = compilePattern(rule.pattern, issues);
+    if (!pattern) continue;
+
+    validateGuards(rule, issues);
+
+    const duplicate = compiled.find((entry) => entry.pattern.key === pattern.key);
+    if (duplicate) {
+      issues.push(
+        duplicate.rule.access === rule.access
+          ? `overrides: "${rule.pattern}" duplicates "${duplicate.rule.pattern}"`
+          : `overrides: "${rule.pattern}" is both ${duplicate.rule.access} and ${rule.access}`
+      );
+      continue;
+    }
+    compiled.push({ pattern, rule });
+  }
+
+  return compiled;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Apply environment overrides to a config
+ *
+ * - AUTH_MODE: one of "disabled", "public-by-default", "private-by-default"
+ * - AUTH_PROTECTED_ROUTES: comma-separated list, replaces `protectedRoutes`
+ * - AUTH_PUBLIC_ROUTES: comma-separated list, replaces `publicRoutes`
+ * - AUTH_SESSION_VALIDATION: "cookie" or "verified"
+ */
+function applyEnv(
+  config: RoutePolicyConfig,
+  env: Record<string, string | undefined>,
+  issues: string[]
+): RoutePolicyConfig {
+  const mode = env.AUTH_MODE?.trim();
+  if (mode && !AuthModes.includes(mode as AuthMode)) {
+    issues.push(`AUTH_MODE "${mode}" must be one of: ${AuthModes.join(", ")}`);
+  }
+
+  const sessionValidation = env.AUTH_SESSION_VALIDATION?.trim();
+  if (
+    sessionValidation &&
+    !SessionValidationModes.includes(sessionValidation as SessionValidation)
+  ) {
+    issues.push(
+      `AUTH_SESSION_VALIDATION "${sessionValidation}" must be one of: ${SessionValidationModes.join(", ")}`
+    );
+  }
+
+  return {
+    ...config,
+    mode: mode && AuthModes.includes(mode as AuthMode) ? (mode as AuthMode) : config.mode,
+    sessionValidation:
+      sessionValidation &&
+      SessionValidationModes.includes(sessionValidation as SessionValidation)
+        ? (sessionValidation as SessionValidation)
+        : (config.sessionValidation ?? "cookie"),
+    protectedRoutes: parseList(env.AUTH_PROTECTED_ROUTES) ?? config.protectedRoutes,
+    publicRoutes: parseList(env.AUTH_PUBLIC_ROUTES) ?? config.publicRoutes,
+  };
+}
+
+/**
+ * Build a validated route policy
+ *
+ * Throws a RoutePolicyError listing every problem found, so a broken
+ * config fails at startup rather than on the first unlucky request.
+ */
+export function createRoutePolicy(
+  baseConfig: RoutePolicyConfig,
+  env: Record<string, string | undefined> = process.env
+): RoutePolicy {
+  const issues: string[] = [];
+  const config = applyEnv(baseConfig, env, issues);
+
+  const protectedPatterns = compileList("protectedRoutes", config.protectedRoutes, issues);
+  const publicPatterns = compileList("publicRoutes", config.publicRoutes, issues);
+  const alwaysPublicPatterns = compileList(
+    "alwaysPublicRoutes",
+    config.alwaysPublicRoutes,
+    issues
+  );
+  const overrides = compileOverrides(config.overrides ?? [], issues);
+
+  // The same route can't be both protected and public
+  for (const pattern of protectedPatterns) {
+    const conflict = publicPatterns.find((other) => other.key === pattern.key);
+    if (conflict) {
+      issues.push(`"${pattern.source}" is listed in both protectedRoutes and publicRoutes`);
+    }
+  }
+
+  // Protection that alwaysPublicRoutes would silently discard
+  const protectedSources = [
+    ...protectedPatterns.map((pattern) => ({ pattern, label: "protectedRoutes" })),
+    ...overrides
+      .filter((entry) => entry.rule.access === "protected")
+      .map((entry) => ({ pattern: entry.pattern, label: "overrides" })),
+  ];
+  for (const { pattern, label } of protectedSources) {
+    const shadow = alwaysPublicPatterns.find((always) => covers(always, pattern));
+    if (shadow) {
+      issues.push(
+        `${label}: "${pattern.source}" can never be protected because "${shadow.source}" is always public`
+      );
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new RoutePolicyError(issues);
+  }
+
+  const mostSpecific = (patterns: CompiledPattern[], pathname: string) =>
+    patterns
+      .filter((pattern) => matchesPath(pattern, pathname))
+      .sort((a, b) => compareSpecificity(b, a))[0];
+
+  return {
+    config,
+    resolve(pathname) {
+      // Always allow certain routes regardless of auth mode
+      const always = mostSpecific(alwaysPublicPatterns, pathname);
+      if (always) {
+        return { access: "public", matchedPattern: always.source };
+      }
+
+      if (config.mode === "disabled") {
+        return { access: "public" };
+      }
+
+      const override = overrides
+        .filter((entry) => matchesPath(entry.pattern, pathname))
+        .sort((a, b) => compareSpecificity(b.pattern, a.pattern))[0];
+      if (override) {
+        return {
+          access: override.rule.access,
+          matchedPattern: override.rule.pattern,
+          role: override.rule.role,
+          permission: override.rule.permission,
+        };
+      }
+
+      if (config.mode === "public-by-default") {
+        const match = mostSpecific(protectedPatterns, pathname);
+        return match
+          ? { access: "protected", matchedPattern: match.source }
+          : { access: "public" };
+      }
+
+      const match = mostSpecific(publicPatterns, pathname);
+      return match
+        ? { access: "public", matchedPattern: match.source }
+        : { access: "protected" };
+    },
+  };
+}
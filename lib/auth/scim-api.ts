@@ -0,0 +1,518 @@
+/**
+ * SCIM 2.0 HTTP API
+ *
+ * Request handlers for /api/scim/v2 - the route files just re-export them.
+ * Every request needs `Authorization: Bearer <token>` with a token created
+ * at /admin/scim; the token decides which organization is being managed.
+ *
+ * Supported: Users (list, filter, create, replace, patch, delete) and
+ * Groups (one per LegalRole; list, filter, patch/replace members).
+ * Filters are limited to `<attribute> eq "<value>"`, which is what Okta
+ * and Entra ID send.
+ *
+ * @see lib/auth/scim.ts for the provisioning rules
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  authenticateScimToken,
+  getScimMember,
+  listScimMembers,
+  provisionScimUser,
+  removeScimUser,
+  resolveScimGroupRole,
+  ScimError,
+  ScimGroupNames,
+  ScimGroupRoles,
+  updateScimGroupMembers,
+  updateScimUser,
+  type ScimGroupRole,
+  type ScimMember,
+  type ScimUserInput,
+} from "./scim";
+
+const USER_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:User";
+const GROUP_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:Group";
+const LIST_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:ListResponse";
+const ERROR_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:Error";
+const PATCH_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:PatchOp";
+
+/** Page size when the IdP doesn't send `count` */
+const DEFAULT_PAGE_SIZE = 100;
+
+type ScimBody = Record<string, unknown>;
+
+interface PatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+function scimJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { "content-type": "application/scim+json" },
+  });
+}
+
+function scimError(error: ScimError) {
+  return scimJson(
+    {
+      schemas: [ERROR_SCHEMA],
+      status: String(error.status),
+      ...(error.scimType && { scimType: error.scimType }),
+      detail: error.message,
+    },
+    error.status
+  );
+}
+
+function baseUrl(): string {
+  return `${process.env.BETTER_AUTH_URL || "http://localhost:3000"}/api/scim/v2`;
+}
+
+function listResponse(request: NextRequest, resources: unknown[]) {
+  const params = request.nextUrl.searchParams;
+  const startIndex = Math.max(1, Number(params.get("startIndex")) || 1);
+  const count = Math.max(0, Number(params.get("count") ?? DEFAULT_PAGE_SIZE) || 0);
+  const page = resources.slice(startIndex - 1, startIndex - 1 + count);
+
+  return scimJson({
+    schemas: [LIST_SCHEMA],
+    totalResults: resources.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page,
+  });
+}
+
+function userResource(member: ScimMember) {
+  const [givenName, ...rest] = member.user.name.split(" ");
+  return {
+    schemas: [USER_SCHEMA],
+    id: member.user.id,
+    ...(member.externalId && { externalId: member.externalId }),
+    userName: member.user.email,
+    name: { formatted: member.user.name, givenName, familyName: rest.join(" ") },
+    displayName: member.user.name,
+    emails: [{ value: member.user.email, type: "work", primary: true }],
+    active: member.active,
+    roles: member.roles.map((value, index) => ({ value, primary: index === 0 })),
+    groups: ScimGroupRoles.filter((role) => member.roles.includes(role)).map((role) => ({
+      value: role,
+      display: ScimGroupNames[role],
+    })),
+    meta: {
+      resourceType: "User",
+      created: member.user.createdAt,
+      lastModified: member.user.updatedAt,
+      location: `${baseUrl()}/Users/${member.user.id}`,
+    },
+  };
+}
+
+function groupResource(role: ScimGroupRole, members: ScimMember[]) {
+  return {
+    schemas: [GROUP_SCHEMA],
+    id: role,
+    displayName: ScimGroupNames[role],
+    members: members
+      .filter((member) => member.roles.includes(role))
+      .map((member) => ({
+        value: member.user.id,
+        display: member.user.email,
+        $ref: `${baseUrl()}/Users/${member.user.id}`,
+      })),
+    meta: { resourceType: "Group", location: `${baseUrl()}/Groups/${role}` },
+  };
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+async function readBody(request: NextRequest): Promise<ScimBody> {
+  try {
+    const body = await request.json();
+    if (body && typeof body === "object") return body;
+  } catch {
+    // fall through
+  }
+  throw new ScimError("Request body must be a JSON object", 400, "invalidSyntax");
+}
+
+/**
+ * `userName eq "jane@firm.com"` -> ["username", "jane@firm.com"]
+ */
+function parseFilter(request: NextRequest): [string, string] | null {
+  const filter = request.nextUrl.searchParams.get("filter");
+  if (!filter) return null;
+
+  const match = filter.match(/^\s*([\w.]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i);
+  if (!match) {
+    throw new ScimError('Only `<attribute> eq "<value>"` filters are supported', 400, "invalidFilter");
+  }
+  return [match[1].toLowerCase(), match[2].replace(/\\(.)/g, "$1")];
+}
+
+function toBoolean(value: unknown): boolean {
+  // Entra ID sends "True" / "False" strings
+  return typeof value === "string" ? value.toLowerCase() === "true" : Boolean(value);
+}
+
+function firstValue(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) {
+    const entries = value as { value?: unknown; primary?: boolean }[];
+    const entry = entries.find((item) => item?.primary) ?? entries[0];
+    return typeof entry?.value === "string" ? entry.value : undefined;
+  }
+  return undefined;
+}
+
+function roleFromValue(value: unknown): ScimGroupRole | undefined {
+  const role = firstValue(value);
+  return role ? resolveScimGroupRole(role) ?? undefined : undefined;
+}
+
+/**
+ * A full User resource (POST / PUT) -> provisioning input
+ */
+function parseUser(body: ScimBody): ScimUserInput {
+  const name = (body.name ?? {}) as Record<string, unknown>;
+  const email = firstValue(body.emails) ?? (typeof body.userName === "string" ? body.userName : "");
+  if (!email.includes("@")) {
+    throw new ScimError("userName or emails must contain an email address", 400, "invalidValue");
+  }
+
+  const fullName =
+    [name.givenName, name.familyName].filter((part) => typeof part === "string" && part).join(" ") ||
+    (typeof name.formatted === "string" ? name.formatted : "") ||
+    (typeof body.displayName === "string" ? body.displayName : "");
+
+  return {
+    email,
+    name: fullName,
+    externalId: typeof body.externalId === "string" ? body.externalId : null,
+    role: roleFromValue(body.roles),
+    active: body.active === undefined ? true : toBoolean(body.active),
+  };
+}
+
+function readOperations(body: ScimBody): PatchOperation[] {
+  const operations = body.Operations;
+  if (!Array.isArray(operations)) {
+    throw new ScimError(`PATCH needs ${PATCH_SCHEMA} Operations`, 400, "invalidSyntax");
+  }
+  return operations as PatchOperation[];
+}
+
+/**
+ * PatchOp -> the fields it changes
+ * Name parts are merged with the current name.
+ */
+function parseUserPatch(body: ScimBody, current: ScimMember): Partial<ScimUserInput> {
+  const changes: Partial<ScimUserInput> = {};
+  const [currentGiven, ...currentFamily] = current.user.name.split(" ");
+  let givenName: string | undefined;
+  let familyName: string | undefined;
+
+  for (const operation of readOperations(body)) {
+    const op = operation.op?.toLowerCase();
+    const entries: [string, unknown][] = operation.path
+      ? [[operation.path, operation.value]]
+      : Object.entries((operation.value ?? {}) as ScimBody);
+
+    for (const [path, value] of entries) {
+      const key = path.toLowerCase();
+      if (key === "active") {
+        changes.active = op === "remove" ? false : toBoolean(value);
+      } else if (key === "username" || key.startsWith("emails")) {
+        const email = typeof value === "string" ? value : firstValue(value);
+        if (email) changes.email = email;
+      } else if (key === "displayname" || key === "name.formatted") {
+        if (typeof value === "string") changes.name = value;
+      } else if (key === "name.givenname") {
+        givenName = String(value ?? "");
+      } else if (key === "name.familyname") {
+        familyName = String(value ?? "");
+      } else if (key === "name" && value && typeof value === "object") {
+        const parts = value as Record<string, unknown>;
+        if (typeof parts.givenName === "string") givenName = parts.givenName;
+        if (typeof parts.familyName === "string") familyName = parts.familyName;
+        if (typeof parts.formatted === "string") changes.name = parts.formatted;
+      } else if (key === "externalid") {
+        changes.externalId = op === "remove" ? null : String(value ?? "");
+      } else if (key.startsWith("roles")) {
+        changes.role = roleFromValue(value);
+      }
+    }
+  }
+
+  if (givenName !== undefined || familyName !== undefined) {
+    changes.name = [givenName ?? currentGiven, familyName ?? currentFamily.join(" ")]
+      .filter(Boolean)
+      .join(" ");
+  }
+  return changes;
+}
+
+function memberIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => (item as { value?: unknown })?.value)
+    .filter((id): id is string => typeof id === "string");
+}
+
+function requireGroupRole(id: string): ScimGroupRole {
+  const role = resolveScimGroupRole(id);
+  if (!role) throw new ScimError("Group not found", 404);
+  return role;
+}
+
+// ============================================================================
+// Routing
+// ============================================================================
+
+type ScimHandler<Params> = (
+  request: NextRequest,
+  organizationId: string,
+  params: Params
+) => Promise<NextResponse>;
+
+/**
+ * Authenticate the bearer token and turn ScimErrors into SCIM responses
+ */
+function scimRoute<Params = Record<string, never>>(handler: ScimHandler<Params>) {
+  return async (request: NextRequest, context: { params: Promise<Params> }) => {
+    try {
+      const organizationId = await authenticateScimToken(request.headers.get("authorization"));
+      if (!organizationId) {
+        throw new ScimError("Invalid or missing bearer token", 401);
+      }
+      return await handler(request, organizationId, await context.params);
+    } catch (error) {
+      if (error instanceof ScimError) return scimError(error);
+      throw error;
+    }
+  };
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+const userFilterAttributes: Record<string, (member: ScimMember) => string | null> = {
+  username: (member) => member.user.email,
+  emails: (member) => member.user.email,
+  "emails.value": (member) => member.user.email,
+  externalid: (member) => member.externalId,
+  id: (member) => member.user.id,
+};
+
+/**
+ * GET /api/scim/v2/Users
+ */
+export const handleListUsers = scimRoute(async (request, organizationId) => {
+  const filter = parseFilter(request);
+  let members = await listScimMembers(organizationId);
+
+  if (filter) {
+    const [attribute, value] = filter;
+    const read = userFilterAttributes[attribute];
+    if (!read) {
+      throw new ScimError(`Filtering on ${attribute} is not supported`, 400, "invalidFilter");
+    }
+    // userName and emails are case-insensitive; ids are exact
+    const caseInsensitive = attribute.startsWith("username") || attribute.startsWith("emails");
+    members = members.filter((member) => {
+      const actual = read(member);
+      return caseInsensitive ? actual?.toLowerCase() === value.toLowerCase() : actual === value;
+    });
+  }
+  return listResponse(request, members.map(userResource));
+});
+
+/**
+ * POST /api/scim/v2/Users
+ */
+export const handleCreateUser = scimRoute(async (request, organizationId) => {
+  const member = await provisionScimUser(organizationId, parseUser(await readBody(request)));
+  return scimJson(userResource(member), 201);
+});
+
+/**
+ * GET /api/scim/v2/Users/:id
+ */
+export const handleGetUser = scimRoute<{ id: string }>(async (_request, organizationId, { id }) => {
+  const member = await getScimMember(organizationId, id);
+  if (!member) throw new ScimError("User not found", 404);
+  return scimJson(userResource(member));
+});
+
+/**
+ * PUT /api/scim/v2/Users/:id
+ */
+export const handleReplaceUser = scimRoute<{ id: string }>(
+  async (request, organizationId, { id }) => {
+    const member = await updateScimUser(organizationId, id, parseUser(await readBody(request)));
+    return scimJson(userResource(member));
+  }
+);
+
+/**
+ * PATCH /api/scim/v2/Users/:id
+ */
+export const handlePatchUser = scimRoute<{ id: string }>(
+  async (request, organizationId, { id }) => {
+    const current = await getScimMember(organizationId, id);
+    if (!current) throw new ScimError("User not found", 404);
+
+    const changes = parseUserPatch(await readBody(request), current);
+    const member = await updateScimUser(organizationId, id, changes);
+    return scimJson(userResource(member));
+  }
+);
+
+/**
+ * DELETE /api/scim/v2/Users/:id
+ */
+export const handleDeleteUser = scimRoute<{ id: string }>(
+  async (_request, organizationId, { id }) => {
+    await removeScimUser(organizationId, id);
+    return new NextResponse(null, { status: 204 });
+  }
+);
+
+// ============================================================================
+// Groups
+// ============================================================================
+
+/**
+ * GET /api/scim/v2/Groups
+ */
+export const handleListGroups = scimRoute(async (request, organizationId) => {
+  const filter = parseFilter(request);
+  let roles: ScimGroupRole[] = [...ScimGroupRoles];
+
+  if (filter) {
+    const [attribute, value] = filter;
+    if (attribute !== "displayname" && attribute !== "id") {
+      throw new ScimError(`Filtering on ${attribute} is not supported`, 400, "invalidFilter");
+    }
+    const role = resolveScimGroupRole(value);
+    roles = role ? [role] : [];
+  }
+
+  const excludeMembers = request.nextUrl.searchParams.get("excludedAttributes") === "members";
+  const members = excludeMembers ? [] : await listScimMembers(organizationId);
+  return listResponse(
+    request,
+    roles.map((role) => groupResource(role, members))
+  );
+});
+
+/**
+ * POST /api/scim/v2/Groups
+ * Groups are fixed (one per role), so this links the IdP group to the
+ * matching role's group instead of creating a new one.
+ */
+export const handleCreateGroup = scimRoute(async (request, organizationId) => {
+  const body = await readBody(request);
+  const role = resolveScimGroupRole(String(body.displayName ?? ""));
+  if (!role) {
+    const names = ScimGroupRoles.map((r) => ScimGroupNames[r]).join(", ");
+    throw new ScimError(`Group name must match a role: ${names}`, 400, "invalidValue");
+  }
+
+  const add = memberIds(body.members);
+  if (add.length > 0) await updateScimGroupMembers(organizationId, role, { add });
+  return scimJson(groupResource(role, await listScimMembers(organizationId)), 201);
+});
+
+/**
+ * GET /api/scim/v2/Groups/:id
+ */
+export const handleGetGroup = scimRoute<{ id: string }>(async (_request, organizationId, { id }) => {
+  const role = requireGroupRole(id);
+  return scimJson(groupResource(role, await listScimMembers(organizationId)));
+});
+
+/**
+ * PUT /api/scim/v2/Groups/:id - replaces the member list
+ */
+export const handleReplaceGroup = scimRoute<{ id: string }>(
+  async (request, organizationId, { id }) => {
+    const role = requireGroupRole(id);
+    const body = await readBody(request);
+    await updateScimGroupMembers(organizationId, role, { replace: memberIds(body.members) });
+    return scimJson(groupResource(role, await listScimMembers(organizationId)));
+  }
+);
+
+/**
+ * PATCH /api/scim/v2/Groups/:id - add / remove / replace members
+ */
+export const handlePatchGroup = scimRoute<{ id: string }>(
+  async (request, organizationId, { id }) => {
+    const role = requireGroupRole(id);
+
+    for (const operation of readOperations(await readBody(request))) {
+      const op = operation.op?.toLowerCase();
+      const path = operation.path ?? "";
+      // `members[value eq "<id>"]` targets a single member
+      const single = path.match(/^members\[value eq "([^"]+)"\]$/i)?.[1];
+      const ids = single ? [single] : memberIds(operation.value);
+
+      if (!single && path && path.toLowerCase() !== "members") continue;
+      if (op === "add") {
+        await updateScimGroupMembers(organizationId, role, { add: ids });
+      } else if (op === "remove") {
+        await updateScimGroupMembers(organizationId, role, { remove: ids });
+      } else if (op === "replace" && path) {
+        await updateScimGroupMembers(organizationId, role, { replace: ids });
+      }
+    }
+
+    return scimJson(groupResource(role, await listScimMembers(organizationId)));
+  }
+);
+
+/**
+ * DELETE /api/scim/v2/Groups/:id - role groups can't be deleted
+ */
+export const handleDeleteGroup = scimRoute<{ id: string }>(async (_request, _organizationId, { id }) => {
+  requireGroupRole(id);
+  throw new ScimError("Role groups can't be deleted - remove their members instead", 400, "mutability");
+});
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+/**
+ * GET /api/scim/v2/ServiceProviderConfig
+ */
+export const handleServiceProviderConfig = scimRoute(async () =>
+  scimJson({
+    schemas: ["urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig"],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: DEFAULT_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: "oauthbearertoken",
+        name: "Bearer token",
+        description: "Token created at /admin/scim",
+        primary: true,
+      },
+    ],
+  })
+);
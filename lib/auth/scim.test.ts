@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { auth } from "./index";
+import {
+  createMemoryScimStore,
+  provisionScimUser,
+  resolveScimGroupRole,
+  ScimError,
+  setScimStore,
+  updateScimGroupMembers,
+  updateScimUser,
+} from "./scim";
+import { createSsoConnectionSettings, getSsoSettingsStore } from "./sso";
+
+let organizationId: string;
+
+async function memberRole(userId: string): Promise<string | null> {
+  const { adapter } = await auth.$context;
+  const member = await adapter.findOne<{ role: string }>({
+    model: "member",
+    where: [
+      { field: "organizationId", value: organizationId },
+      { field: "userId", value: userId },
+    ],
+  });
+  return member?.role ?? null;
+}
+
+async function setMemberRole(userId: string, role: string): Promise<void> {
+  const { adapter } = await auth.$context;
+  await adapter.update({
+    model: "member",
+    where: [
+      { field: "organizationId", value: organizationId },
+      { field: "userId", value: userId },
+    ],
+    update: { role },
+  });
+}
+
+async function provision(email: string, role?: "associate" | "paralegal"): Promise<string> {
+  const member = await provisionScimUser(organizationId, { email, name: "Jane Smith", role });
+  return member.user.id;
+}
+
+beforeEach(async () => {
+  setScimStore(createMemoryScimStore());
+
+  // A firm that has verified smithlaw.com for SSO
+  const { adapter } = await auth.$context;
+  const suffix = crypto.randomUUID().slice(0, 8);
+  const organization = await adapter.create<Record<string, unknown>, { id: string }>({
+    model: "organization",
+    data: { name: "Smith Law", slug: `smith-law-${suffix}`, createdAt: new Date() },
+  });
+  organizationId = organization.id;
+
+  const providerId = `smithlaw-${suffix}`;
+  await adapter.create({
+    model: "ssoProvider",
+    data: {
+      providerId,
+      issuer: "https://idp.smithlaw.com",
+      domain: "smithlaw.com",
+      organizationId,
+    },
+  });
+  // Only the newest firm holds the domain
+  for (const settings of await getSsoSettingsStore().listByDomain("smithlaw.com")) {
+    await getSsoSettingsStore().remove(settings.providerId);
+  }
+  await getSsoSettingsStore().save({
+    ...createSsoConnectionSettings({ providerId, organizationId, domain: "smithlaw.com" }),
+    domainVerifiedAt: new Date(),
+  });
+});
+
+describe("resolveScimGroupRole", () => {
+  test("matches role names and group display names in any case", () => {
+    expect(resolveScimGroupRole("partner")).toBe("partner");
+    expect(resolveScimGroupRole(" Partners ")).toBe("partner");
+    expect(resolveScimGroupRole("PARALEGALS")).toBe("paralegal");
+  });
+
+  test("never maps to owner or unknown groups", () => {
+    expect(resolveScimGroupRole("owner")).toBeNull();
+    expect(resolveScimGroupRole("Everyone")).toBeNull();
+  });
+});
+
+describe("provisioning", () => {
+  test("gives users without a group the default role", async () => {
+    const userId = await provision(`jane-${crypto.randomUUID()}@smithlaw.com`);
+    expect(await memberRole(userId)).toBe("staff");
+  });
+
+  test("refuses emails off the firm's verified domains", async () => {
+    const attempt = provisionScimUser(organizationId, { email: "jane@gmail.com", name: "Jane" });
+    await expect(attempt).rejects.toBeInstanceOf(ScimError);
+    await expect(attempt).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+describe("group membership", () => {
+  test("adds and removes one role, keeping the others", async () => {
+    const userId = await provision(`jane-${crypto.randomUUID()}@smithlaw.com`, "associate");
+    await setMemberRole(userId, "associate,billing_admin");
+
+    await updateScimGroupMembers(organizationId, "paralegal", { add: [userId] });
+    expect(await memberRole(userId)).toBe("associate,billing_admin,paralegal");
+
+    await updateScimGroupMembers(organizationId, "associate", { remove: [userId] });
+    expect(await memberRole(userId)).toBe("billing_admin,paralegal");
+  });
+
+  test("falls back to the default role once no role is left", async () => {
+    const userId = await provision(`jane-${crypto.randomUUID()}@smithlaw.com`, "paralegal");
+
+    await updateScimGroupMembers(organizationId, "paralegal", { remove: [userId] });
+    expect(await memberRole(userId)).toBe("staff");
+  });
+
+  test("never changes owners", async () => {
+    const userId = await provision(`jane-${crypto.randomUUID()}@smithlaw.com`);
+    await setMemberRole(userId, "owner");
+
+    const attempt = updateScimGroupMembers(organizationId, "partner", { add: [userId] });
+    await expect(attempt).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+describe("user roles", () => {
+  test("replace the SCIM-managed roles and keep custom roles", async () => {
+    const userId = await provision(`jane-${crypto.randomUUID()}@smithlaw.com`, "associate");
+    await setMemberRole(userId, "associate,paralegal,billing_admin");
+
+    await updateScimUser(organizationId, userId, { role: "partner" });
+    expect(await memberRole(userId)).toBe("billing_admin,partner");
+  });
+
+  test("come back on reactivation", async () => {
+    const userId = await provision(`jane-${crypto.randomUUID()}@smithlaw.com`, "associate");
+    await updateScimGroupMembers(organizationId, "paralegal", { add: [userId] });
+
+    await updateScimUser(organizationId, userId, { active: false });
+    expect(await memberRole(userId)).toBeNull();
+
+    await updateScimUser(organizationId, userId, { active: true });
+    expect(await memberRole(userId)).toBe("associate,paralegal");
+  });
+});
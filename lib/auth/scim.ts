@@ -0,0 +1,620 @@
+/**
+ * SCIM 2.0 Provisioning
+ *
+ * Lets a firm's identity provider (Okta, Entra ID, ...) create, update and
+ * remove members instead of sending invitations. The HTTP endpoints live at
+ * /api/scim/v2/{Users,Groups} (see lib/auth/scim-api.ts); this module holds
+ * the organization-scoped operations behind them:
+ *
+ * - Bearer tokens: one or more per organization, stored hashed
+ * - Users: organization members (the `member` table), matched by email.
+ *   Only emails on a domain the organization has verified (SSO) can be
+ *   provisioned, and SCIM only edits the name and email of accounts the
+ *   organization's IdP created itself
+ * - Groups: one per LegalRole except owner - joining or leaving a group
+ *   adds or removes that role; custom roles given in the app are kept
+ * - Deprovisioning: removes the membership and revokes the user's sessions
+ *   in this organization (their other organizations are untouched).
+ *   Reactivation gives the previous roles back.
+ *
+ * Owners are never created, changed or removed over SCIM.
+ *
+ * Storage is pluggable like matter-access.ts: call `setScimStore()` at
+ * startup with a database-backed implementation.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import type { User } from "better-auth";
+import { listMemberCustomRoles } from "./custom-roles";
+import { auth } from "./index";
+import { isLegalRole, RoleHierarchy, type LegalRole } from "./roles";
+import { findVerifiedSsoConnection, getEmailDomain } from "./sso";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export interface ScimToken {
+  id: string;
+  organizationId: string;
+  /** SHA-256 of the token - the token itself is shown once */
+  tokenHash: string;
+  /** First characters of the token, to tell tokens apart in the UI */
+  prefix: string;
+  createdBy: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+/**
+ * What the IdP knows about a user it provisioned
+ * Kept after deprovisioning so the IdP can reactivate the user.
+ */
+export interface ScimIdentity {
+  organizationId: string;
+  userId: string;
+  externalId: string | null;
+  active: boolean;
+  /** The IdP created the account - only then can SCIM change its profile */
+  createdUser: boolean;
+  /** Roles held when deprovisioned, given back on reactivation */
+  previousRoles: string[];
+}
+
+/**
+ * Roles that can be assigned over SCIM, one group each
+ */
+export const ScimGroupRoles = RoleHierarchy.filter(
+  (role): role is Exclude<LegalRole, "owner"> => role !== "owner"
+);
+
+export type ScimGroupRole = (typeof ScimGroupRoles)[number];
+
+/**
+ * Role given to users the IdP creates without a group, and to members
+ * left without any role
+ */
+export const DEFAULT_SCIM_ROLE: ScimGroupRole = "staff";
+
+function isScimGroupRole(role: string): role is ScimGroupRole {
+  return (ScimGroupRoles as readonly string[]).includes(role);
+}
+
+export const ScimGroupNames: Record<ScimGroupRole, string> = {
+  client: "Clients",
+  staff: "Staff",
+  paralegal: "Paralegals",
+  associate: "Associates",
+  partner: "Partners",
+};
+
+/**
+ * Thrown for requests the SCIM API must refuse - maps to a SCIM error
+ */
+export class ScimError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 401 | 403 | 404 | 409,
+    public readonly scimType?: string
+  ) {
+    super(message);
+    this.name = "ScimError";
+  }
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export interface ScimStore {
+  listTokens(organizationId: string): Promise<ScimToken[]>;
+  findTokenByHash(tokenHash: string): Promise<ScimToken | null>;
+  saveToken(token: ScimToken): Promise<void>;
+  removeToken(organizationId: string, tokenId: string): Promise<void>;
+  getIdentity(organizationId: string, userId: string): Promise<ScimIdentity | null>;
+  listIdentities(organizationId: string): Promise<ScimIdentity[]>;
+  saveIdentity(identity: ScimIdentity): Promise<void>;
+  removeIdentity(organizationId: string, userId: string): Promise<void>;
+}
+
+/**
+ * In-memory store for development
+ * Data is lost on restart - replace it with a database-backed store.
+ */
+export function createMemoryScimStore(): ScimStore {
+  const tokens = new Map<string, ScimToken>();
+  const identities = new Map<string, ScimIdentity>();
+  const identityKey = (organizationId: string, userId: string) => `${organizationId}:${userId}`;
+
+  return {
+    async listTokens(organizationId) {
+      return [...tokens.values()].filter((token) => token.organizationId === organizationId);
+    },
+    async findTokenByHash(tokenHash) {
+      return [...tokens.values()].find((token) => token.tokenHash === tokenHash) ?? null;
+    },
+    async saveToken(token) {
+      tokens.set(token.id, token);
+    },
+    async removeToken(organizationId, tokenId) {
+      if (tokens.get(tokenId)?.organizationId === organizationId) {
+        tokens.delete(tokenId);
+      }
+    },
+    async getIdentity(organizationId, userId) {
+      return identities.get(identityKey(organizationId, userId)) ?? null;
+    },
+    async listIdentities(organizationId) {
+      return [...identities.values()].filter(
+        (identity) => identity.organizationId === organizationId
+      );
+    },
+    async saveIdentity(identity) {
+      identities.set(identityKey(identity.organizationId, identity.userId), identity);
+    },
+    async removeIdentity(organizationId, userId) {
+      identities.delete(identityKey(organizationId, userId));
+    },
+  };
+}
+
+let store: ScimStore = createMemoryScimStore();
+
+/**
+ * Replace the SCIM store (call once at startup)
+ */
+export function setScimStore(next: ScimStore): void {
+  store = next;
+}
+
+export function getScimStore(): ScimStore {
+  return store;
+}
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create a bearer token for the organization's IdP
+ * The plain token is only returned here - store it in the IdP right away.
+ */
+export async function createScimToken(
+  organizationId: string,
+  createdBy: string
+): Promise<{ token: string; record: ScimToken }> {
+  const token = `scim_${randomBytes(32).toString("base64url")}`;
+  const record: ScimToken = {
+    id: crypto.randomUUID(),
+    organizationId,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, 10),
+    createdBy,
+    createdAt: new Date(),
+    lastUsedAt: null,
+  };
+  await store.saveToken(record);
+  return { token, record };
+}
+
+/**
+ * Organization for an `Authorization: Bearer <token>` header, or null
+ */
+export async function authenticateScimToken(
+  authorization: string | null
+): Promise<string | null> {
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!token) return null;
+
+  const record = await store.findTokenByHash(hashToken(token));
+  if (!record) return null;
+
+  await store.saveToken({ ...record, lastUsedAt: new Date() });
+  return record.organizationId;
+}
+
+// ============================================================================
+// Groups
+// ============================================================================
+
+/**
+ * Map an IdP group to a role: "partner", "Partners", "PARTNER" all match
+ */
+export function resolveScimGroupRole(value: string): ScimGroupRole | null {
+  const name = value.trim().toLowerCase();
+  return (
+    ScimGroupRoles.find(
+      (role) => role === name || ScimGroupNames[role].toLowerCase() === name
+    ) ?? null
+  );
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+interface MemberRecord {
+  id: string;
+  organizationId: string;
+  userId: string;
+  role: string;
+  createdAt: Date;
+}
+
+/**
+ * A user as the organization's IdP sees it
+ * Any member row is active, whatever its roles; `roles` is empty once the
+ * user has been deprovisioned.
+ */
+export interface ScimMember {
+  user: User;
+  active: boolean;
+  /** Every role the member holds, custom roles included */
+  roles: string[];
+  externalId: string | null;
+  memberSince: Date | null;
+}
+
+export interface ScimUserInput {
+  email: string;
+  name: string;
+  externalId?: string | null;
+  role?: ScimGroupRole;
+  active?: boolean;
+}
+
+/**
+ * Whether the email's domain is verified by the organization (SSO)
+ */
+async function isVerifiedDomainFor(organizationId: string, email: string): Promise<boolean> {
+  const domain = getEmailDomain(email);
+  if (!domain) return false;
+  return (await findVerifiedSsoConnection(domain))?.organizationId === organizationId;
+}
+
+/**
+ * "associate,billing_admin" -> ["associate", "billing_admin"]
+ */
+function parseRoles(role: string): string[] {
+  return role
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+async function findMember(organizationId: string, userId: string) {
+  const { adapter } = await auth.$context;
+  return adapter.findOne<MemberRecord>({
+    model: "member",
+    where: [
+      { field: "organizationId", value: organizationId },
+      { field: "userId", value: userId },
+    ],
+  });
+}
+
+function toScimMember(
+  user: User,
+  member: MemberRecord | null,
+  identity: ScimIdentity | null
+): ScimMember {
+  return {
+    user,
+    active: member !== null,
+    roles: member ? parseRoles(member.role) : [],
+    externalId: identity?.externalId ?? null,
+    memberSince: member?.createdAt ?? null,
+  };
+}
+
+/**
+ * Members of the organization, plus users the IdP deprovisioned
+ */
+export async function listScimMembers(organizationId: string): Promise<ScimMember[]> {
+  const { adapter } = await auth.$context;
+  const [members, identities] = await Promise.all([
+    adapter.findMany<MemberRecord>({
+      model: "member",
+      where: [{ field: "organizationId", value: organizationId }],
+    }),
+    store.listIdentities(organizationId),
+  ]);
+
+  const userIds = [...new Set([...members.map((m) => m.userId), ...identities.map((i) => i.userId)])];
+  if (userIds.length === 0) return [];
+
+  const users = await adapter.findMany<User>({
+    model: "user",
+    where: [{ field: "id", operator: "in", value: userIds }],
+  });
+  const memberByUser = new Map(members.map((member) => [member.userId, member]));
+  const identityByUser = new Map(identities.map((identity) => [identity.userId, identity]));
+
+  return users.map((user) =>
+    toScimMember(user, memberByUser.get(user.id) ?? null, identityByUser.get(user.id) ?? null)
+  );
+}
+
+/**
+ * One user, or null if they were never in this organization
+ */
+export async function getScimMember(
+  organizationId: string,
+  userId: string
+): Promise<ScimMember | null> {
+  const { internalAdapter } = await auth.$context;
+  const [member, identity] = await Promise.all([
+    findMember(organizationId, userId),
+    store.getIdentity(organizationId, userId),
+  ]);
+  if (!member && !identity) return null;
+
+  const user = await internalAdapter.findUserById(userId);
+  return user ? toScimMember(user, member, identity) : null;
+}
+
+async function requireScimMember(organizationId: string, userId: string) {
+  const member = await getScimMember(organizationId, userId);
+  if (!member) throw new ScimError("User not found", 404);
+  return member;
+}
+
+/**
+ * Change a member's roles, creating the membership (with `rolesIfNew`) if
+ * there's none
+ * A member left without roles gets DEFAULT_SCIM_ROLE.
+ */
+async function setMembershipRoles(
+  organizationId: string,
+  userId: string,
+  edit: (roles: string[]) => string[],
+  rolesIfNew: string[] = []
+): Promise<void> {
+  const { adapter } = await auth.$context;
+  const member = await findMember(organizationId, userId);
+  const current = member ? parseRoles(member.role) : rolesIfNew;
+  if (current.includes("owner")) {
+    throw new ScimError("Owners are managed in the app, not by SCIM", 403);
+  }
+
+  const roles = [...new Set(edit(current))];
+  const role = (roles.length > 0 ? roles : [DEFAULT_SCIM_ROLE]).join(",");
+  if (!member) {
+    await adapter.create({
+      model: "member",
+      data: { organizationId, userId, role, createdAt: new Date() },
+    });
+  } else if (member.role !== role) {
+    await adapter.update({
+      model: "member",
+      where: [{ field: "id", value: member.id }],
+      update: { role },
+    });
+  }
+}
+
+/**
+ * Replace the roles SCIM has groups for with `role`, keeping custom roles
+ * (the user's own `roles` attribute states their one legal role)
+ */
+function withScimRole(roles: string[], role: ScimGroupRole): string[] {
+  return [...roles.filter((entry) => !isScimGroupRole(entry)), role];
+}
+
+/**
+ * Roles to give back on reactivation: the ones held before, minus custom
+ * roles deleted since
+ */
+async function restorableRoles(
+  organizationId: string,
+  identity: ScimIdentity | null
+): Promise<string[]> {
+  const roles = identity?.previousRoles ?? [];
+  const { adapter } = await auth.$context;
+  const customRoles = await listMemberCustomRoles(adapter, organizationId, roles.join(","));
+  return roles.filter(
+    (role) => isLegalRole(role) || customRoles.some((customRole) => customRole.role === role)
+  );
+}
+
+/**
+ * Remove the membership and end the user's sessions in this organization
+ * Returns the roles the member held.
+ */
+async function deprovision(organizationId: string, userId: string): Promise<string[]> {
+  const { adapter, internalAdapter } = await auth.$context;
+  const member = await findMember(organizationId, userId);
+  if (member && parseRoles(member.role).includes("owner")) {
+    throw new ScimError("Owners are managed in the app, not by SCIM", 403);
+  }
+
+  if (member) {
+    await adapter.delete({ model: "member", where: [{ field: "id", value: member.id }] });
+  }
+  const sessions: { token: string; activeOrganizationId?: string | null }[] =
+    await internalAdapter.listSessions(userId);
+  for (const session of sessions) {
+    if (session.activeOrganizationId === organizationId) {
+      await internalAdapter.deleteSession(session.token);
+    }
+  }
+  return member ? parseRoles(member.role) : [];
+}
+
+/**
+ * POST /Users - create the user if needed and add them to the organization
+ * Only emails on a domain the organization has verified can be provisioned
+ * (or users it provisioned before). An existing account is linked rather
+ * than duplicated - anyone off the firm's domains has to be invited, so no
+ * firm can take over another firm's users.
+ */
+export async function provisionScimUser(
+  organizationId: string,
+  input: ScimUserInput
+): Promise<ScimMember> {
+  // Identities are only kept for members (and former members), so nobody
+  // is linked to the organization without joining it
+  if (input.active === false) {
+    throw new ScimError("New users must be active", 400, "invalidValue");
+  }
+
+  const { internalAdapter } = await auth.$context;
+  const email = input.email.trim().toLowerCase();
+  const verifiedDomain = await isVerifiedDomainFor(organizationId, email);
+
+  const existing = await internalAdapter.findUserByEmail(email);
+  if (existing && (await findMember(organizationId, existing.user.id))) {
+    throw new ScimError(`${email} is already a member`, 409, "uniqueness");
+  }
+  // Users the organization provisioned before can always come back
+  const identity = existing ? await store.getIdentity(organizationId, existing.user.id) : null;
+  if (!verifiedDomain && !identity) {
+    if (existing) {
+      throw new ScimError(
+        `${email} already has an account - invite them from the members page`,
+        409,
+        "uniqueness"
+      );
+    }
+    throw new ScimError(
+      `${email} isn't on a domain this organization has verified - invite them instead`,
+      403
+    );
+  }
+
+  const user =
+    existing?.user ??
+    (await internalAdapter.createUser({
+      email,
+      name: input.name || email.split("@")[0],
+      // The firm's IdP only vouches for addresses on the firm's own domain
+      emailVerified: verifiedDomain,
+    }));
+
+  await setMembershipRoles(
+    organizationId,
+    user.id,
+    (roles) => (input.role ? withScimRole(roles, input.role) : roles),
+    await restorableRoles(organizationId, identity)
+  );
+  await store.saveIdentity({
+    organizationId,
+    userId: user.id,
+    externalId: input.externalId ?? null,
+    active: true,
+    createdUser: identity?.createdUser ?? !existing,
+    previousRoles: [],
+  });
+
+  return requireScimMember(organizationId, user.id);
+}
+
+/**
+ * PUT / PATCH /Users/:id - update profile, role or active state
+ * `active: false` deprovisions; `active: true` restores the membership.
+ * Name and email changes only apply to accounts the IdP created - a linked
+ * account belongs to the user, and may be in other organizations too.
+ */
+export async function updateScimUser(
+  organizationId: string,
+  userId: string,
+  changes: Partial<ScimUserInput>
+): Promise<ScimMember> {
+  const current = await requireScimMember(organizationId, userId);
+  const identity = await store.getIdentity(organizationId, userId);
+  const { internalAdapter } = await auth.$context;
+
+  const profile: Partial<User> = {};
+  if (identity?.createdUser) {
+    if (changes.name && changes.name !== current.user.name) profile.name = changes.name;
+    const email = changes.email?.trim().toLowerCase();
+    if (email && email !== current.user.email) {
+      if (!(await isVerifiedDomainFor(organizationId, email))) {
+        throw new ScimError(`${email} isn't on a domain this organization has verified`, 403);
+      }
+      const taken = await internalAdapter.findUserByEmail(email);
+      if (taken && taken.user.id !== userId) {
+        throw new ScimError(`${email} already has an account`, 409, "uniqueness");
+      }
+      profile.email = email;
+      profile.emailVerified = true;
+    }
+  }
+  if (Object.keys(profile).length > 0) {
+    await internalAdapter.updateUser(userId, profile);
+  }
+
+  // Reactivated members get their previous roles back
+  const active = changes.active ?? current.active;
+  let previousRoles = identity?.previousRoles ?? [];
+  if (!active) {
+    if (current.active) previousRoles = await deprovision(organizationId, userId);
+  } else if (changes.role || !current.active) {
+    const role = changes.role;
+    await setMembershipRoles(
+      organizationId,
+      userId,
+      (roles) => (role ? withScimRole(roles, role) : roles),
+      await restorableRoles(organizationId, identity)
+    );
+    previousRoles = [];
+  }
+
+  await store.saveIdentity({
+    organizationId,
+    userId,
+    externalId:
+      changes.externalId !== undefined ? changes.externalId : identity?.externalId ?? null,
+    active,
+    createdUser: identity?.createdUser ?? false,
+    previousRoles,
+  });
+
+  return requireScimMember(organizationId, userId);
+}
+
+/**
+ * DELETE /Users/:id - deprovision and forget the IdP link
+ */
+export async function removeScimUser(organizationId: string, userId: string): Promise<void> {
+  await requireScimMember(organizationId, userId);
+  await deprovision(organizationId, userId);
+  await store.removeIdentity(organizationId, userId);
+}
+
+/**
+ * PATCH / PUT /Groups/:id - move users into or out of a role's group
+ * Each group adds or removes its role alone; members keep their other
+ * roles, and fall back to the default role when left with none.
+ */
+export async function updateScimGroupMembers(
+  organizationId: string,
+  role: ScimGroupRole,
+  changes: { add?: string[]; remove?: string[]; replace?: string[] }
+): Promise<void> {
+  const members = await listScimMembers(organizationId);
+  const current = members.filter((m) => m.roles.includes(role)).map((m) => m.user.id);
+  const known = new Set(members.filter((m) => m.active).map((m) => m.user.id));
+
+  const add = changes.replace ?? changes.add ?? [];
+  const remove = changes.replace
+    ? current.filter((userId) => !changes.replace?.includes(userId))
+    : (changes.remove ?? []).filter((userId) => current.includes(userId));
+
+  for (const userId of add) {
+    if (!known.has(userId)) throw new ScimError(`User ${userId} not found`, 404);
+    await setMembershipRoles(organizationId, userId, (roles) => [...roles, role]);
+  }
+  for (const userId of remove) {
+    // Leaving a group doesn't remove anyone from the firm
+    await setMembershipRoles(organizationId, userId, (roles) =>
+      roles.filter((entry) => entry !== role)
+    );
+  }
+}
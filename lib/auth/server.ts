@@ -0,0 +1,597 @@
+/**
+ * Server-Side Auth Helpers
+ *
+ * Session, role and permission checks for route handlers, server actions
+ * and React Server Components. Lookups are cached per request, so calling
+ * several helpers in one render only hits Better Auth once.
+ *
+ * The `require*` helpers throw typed errors:
+ * - UnauthorizedError (401) - no valid session, or it ran out under the
+ *   firm's session policy (code SESSION_EXPIRED)
+ * - ForbiddenError (403) - signed in, but missing role/permission/org, the
+ *   organization is deleted, past its deadline for enrolling in 2FA, or a
+ *   sensitive action needs the password again (REAUTHENTICATION_REQUIRED)
+ *
+ * Usage in a route handler:
+ * export const POST = withAuth(async (request) => {
+ *   await requirePermission({ matter: ["update"] });
+ *   ...
+ * });
+ *
+ * Usage in a server component:
+ * const { user } = await redirectOnAuthError(() => requireRole("partner"));
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { APIError } from "better-auth/api";
+import { getSessionCookie } from "better-auth/cookies";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { cache } from "react";
+import { listMemberCustomRoles } from "./custom-roles";
+import { auth, type Auth } from "./index";
+import {
+  canAccessMatter,
+  canAccessMatterDocuments,
+  type DocumentAction,
+  type MatterAction,
+  type MatterActor,
+} from "./matter-access";
+import {
+  findOrganizationDeletion,
+  type OrganizationDeletion,
+} from "./organization-deletion";
+import {
+  getOrganizationSecuritySettings,
+  getTwoFactorStatus,
+  TWO_FACTOR_ENROLLMENT_PATH,
+  type TwoFactorStatus,
+} from "./organization-security";
+import type { PermissionStatement } from "./permissions";
+import { hasMinimumRole, isLegalRole, type LegalRole } from "./roles";
+import {
+  ACTIVITY_WRITE_INTERVAL_SECONDS,
+  DEFAULT_SESSION_POLICY,
+  type SessionDeadlines,
+} from "./session-policy";
+import { getSessionPolicyStatusFor, type SessionPolicyStatus } from "./session-status";
+
+export type ServerSession = Auth["$Infer"]["Session"];
+export type ServerUser = ServerSession["user"];
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Base class for auth failures, carrying the HTTP status to respond with
+ */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 401 | 403,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * No valid session (maps to 401)
+ */
+export class UnauthorizedError extends AuthError {
+  constructor(message = "Authentication required", code = "UNAUTHORIZED") {
+    super(message, 401, code);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * Signed in, but not allowed (maps to 403)
+ */
+export class ForbiddenError extends AuthError {
+  constructor(message = "You don't have access to this resource", code = "FORBIDDEN") {
+    super(message, 403, code);
+    this.name = "ForbiddenError";
+  }
+}
+
+// ============================================================================
+// Cached lookups
+// ============================================================================
+
+/**
+ * Current session, or null when signed out
+ */
+export const getSession = cache(async (): Promise<ServerSession | null> => {
+  try {
+    return await auth.api.getSession({ headers: await headers() });
+  } catch (error) {
+    // Signed out under the firm's session policy (see requireSession)
+    if (error instanceof APIError && error.body?.code === "SESSION_EXPIRED") return null;
+    throw error;
+  }
+});
+
+/**
+ * Current user, or null when signed out
+ */
+export async function getCurrentUser(): Promise<ServerUser | null> {
+  const session = await getSession();
+  return session?.user ?? null;
+}
+
+/**
+ * ID of the session's active organization, or null if none is set
+ */
+export async function getActiveOrganizationId(): Promise<string | null> {
+  const session = await getSession();
+  return session?.session.activeOrganizationId ?? null;
+}
+
+/**
+ * The current user's roles in each of their organizations, keyed by
+ * organization ID (for the organization switcher)
+ */
+export const getOrganizationRoles = cache(async (): Promise<Record<string, LegalRole[]>> => {
+  const session = await getSession();
+  if (!session) return {};
+  const { adapter } = await auth.$context;
+  const memberships = await adapter.findMany<{ organizationId: string; role: string }>({
+    model: "member",
+    where: [{ field: "userId", value: session.user.id }],
+  });
+  return Object.fromEntries(
+    memberships.map((member) => [member.organizationId, parseRoles(member.role)])
+  );
+});
+
+/**
+ * Membership in the active organization, or null if there is none
+ */
+const getActiveMember = cache(async () => {
+  try {
+    return await auth.api.getActiveMember({ headers: await headers() });
+  } catch {
+    return null;
+  }
+});
+
+/**
+ * An organization's security settings, read once per request
+ */
+const getActiveSecuritySettings = cache((organizationId: string) =>
+  getOrganizationSecuritySettings(organizationId)
+);
+
+/**
+ * The user's standing against the active organization's 2FA requirement,
+ * or null without an active membership
+ */
+export const getActiveTwoFactorStatus = cache(async (): Promise<TwoFactorStatus | null> => {
+  const session = await getSession();
+  const member = await getActiveMember();
+  if (!session || !member || member.organizationId !== session.session.activeOrganizationId) {
+    return null;
+  }
+  const settings = await getActiveSecuritySettings(member.organizationId);
+  return getTwoFactorStatus(session.user, member, settings);
+});
+
+/**
+ * The current session measured against the active organization's session
+ * policy (Better Auth's defaults without one), or null when signed out
+ */
+export const getSessionPolicyStatus = cache(async (): Promise<SessionPolicyStatus | null> => {
+  const session = await getSession();
+  if (!session) return null;
+  const { adapter } = await auth.$context;
+  return getSessionPolicyStatusFor(adapter, session.session);
+});
+
+/**
+ * The active organization's pending deletion, or null if it isn't deleted
+ */
+export const getActiveOrganizationDeletion = cache(
+  async (): Promise<OrganizationDeletion | null> => {
+    const organizationId = await getActiveOrganizationId();
+    if (!organizationId) return null;
+    const { adapter } = await auth.$context;
+    return findOrganizationDeletion(adapter, organizationId);
+  }
+);
+
+function parseRoles(role: string): LegalRole[] {
+  return role
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(isLegalRole);
+}
+
+// ============================================================================
+// Guards
+// ============================================================================
+
+/**
+ * Refuse members past their firm's deadline for enrolling in 2FA
+ */
+async function assertTwoFactorNotOverdue(): Promise<void> {
+  if ((await getActiveTwoFactorStatus())?.overdue) {
+    throw new ForbiddenError(
+      "Your organization requires two-factor authentication",
+      "TWO_FACTOR_REQUIRED"
+    );
+  }
+}
+
+/**
+ * Require a signed-in user
+ * Members past their firm's 2FA deadline are refused too, except where
+ * they enroll or manage their own session (`allowTwoFactorOverdue`).
+ */
+export async function requireSession(
+  options: { allowTwoFactorOverdue?: boolean } = {}
+): Promise<ServerSession> {
+  const session = await getSession();
+  if (!session) {
+    // A cookie without a session: signed out under the firm's session
+    // policy (the get-session hook in index.ts) or revoked elsewhere
+    if (getSessionCookie(await headers())) {
+      throw new UnauthorizedError("Your session has expired", "SESSION_EXPIRED");
+    }
+    throw new UnauthorizedError();
+  }
+
+  // Count this request as activity for the idle timeout
+  await recordActivity();
+  if (!options.allowTwoFactorOverdue) await assertTwoFactorNotOverdue();
+  return session;
+}
+
+/**
+ * Count this request as activity for the idle timeout and return when the
+ * session was last active
+ * Writes at most once per request, and once a minute per session
+ * (ACTIVITY_WRITE_INTERVAL_SECONDS) however many guards run.
+ */
+const recordActivity = cache(async (): Promise<Date | null> => {
+  const session = await getSession();
+  const status = await getSessionPolicyStatus();
+  if (!session || status?.lifetime.idleTimeoutMinutes == null) return null;
+  if (
+    status.lastActiveAt &&
+    Date.now() - status.lastActiveAt.getTime() < ACTIVITY_WRITE_INTERVAL_SECONDS * 1000
+  ) {
+    return status.lastActiveAt;
+  }
+  const lastActiveAt = new Date();
+  const { internalAdapter } = await auth.$context;
+  await internalAdapter.updateSession(session.session.token, { lastActiveAt });
+  return lastActiveAt;
+});
+
+/**
+ * Count the current session as active now (the idle timeout dialog calls
+ * this while the user is on the page) and return its new deadlines
+ */
+export async function recordSessionActivity(): Promise<
+  Pick<SessionDeadlines, "idleExpiresAt" | "absoluteExpiresAt">
+> {
+  await requireSession({ allowTwoFactorOverdue: true });
+  const status = await getSessionPolicyStatus();
+  const idleMinutes = status?.lifetime.idleTimeoutMinutes ?? null;
+  const lastActiveAt = await recordActivity();
+  return {
+    idleExpiresAt:
+      idleMinutes !== null && lastActiveAt
+        ? new Date(lastActiveAt.getTime() + idleMinutes * 60 * 1000)
+        : null,
+    absoluteExpiresAt: status?.absoluteExpiresAt ?? null,
+  };
+}
+
+/**
+ * Require a password confirmation within the firm's re-authentication
+ * window (or a fresh sign-in), for sensitive actions
+ * Wrap the form in <ReauthenticationGate> so the user is asked first.
+ *
+ * @example
+ * await requireRecentAuthentication();
+ * await scheduleOrganizationDeletion(adapter, organizationId, user.id);
+ */
+export async function requireRecentAuthentication(): Promise<ServerSession> {
+  const session = await requireSession();
+  const status = await getSessionPolicyStatus();
+  if (!status || status.reauthenticatedUntil <= new Date()) {
+    throw new ForbiddenError("Confirm your password to continue", "REAUTHENTICATION_REQUIRED");
+  }
+  return session;
+}
+
+/**
+ * What <ReauthenticationGate> needs: until when the last confirmation
+ * holds, and whether the user has a password to confirm with
+ */
+export async function getReauthenticationStatus(): Promise<{ until: Date; hasPassword: boolean }> {
+  const session = await requireSession();
+  const status = await getSessionPolicyStatus();
+  return {
+    until: status?.reauthenticatedUntil ?? new Date(0),
+    hasPassword: await hasPasswordCredential(session.user.id),
+  };
+}
+
+/** Wrong passwords in a row before the session is signed out */
+const MAX_REAUTHENTICATION_FAILURES = 5;
+
+/** Failed confirmations are forgotten this long after the last one */
+const REAUTHENTICATION_FAILURE_WINDOW_MINUTES = 15;
+
+/**
+ * Count a failed confirmation and return the session's failures so far
+ * Kept in Better Auth's verification table, so every server instance
+ * shares the count and stale entries expire.
+ */
+async function recordReauthenticationFailure(sessionId: string): Promise<number> {
+  const { internalAdapter } = await auth.$context;
+  const identifier = `reauthentication-failures:${sessionId}`;
+  const expiresAt = new Date(Date.now() + REAUTHENTICATION_FAILURE_WINDOW_MINUTES * 60 * 1000);
+  const existing = await internalAdapter.findVerificationValue(identifier);
+  if (!existing) {
+    await internalAdapter.createVerificationValue({ identifier, value: "1", expiresAt });
+    return 1;
+  }
+  const failures =
+    (new Date(existing.expiresAt) > new Date() ? Number(existing.value) || 0 : 0) + 1;
+  await internalAdapter.updateVerificationValue(existing.id, { value: String(failures), expiresAt });
+  return failures;
+}
+
+async function clearReauthenticationFailures(sessionId: string): Promise<void> {
+  const { internalAdapter } = await auth.$context;
+  await internalAdapter.deleteVerificationByIdentifier(`reauthentication-failures:${sessionId}`);
+}
+
+/**
+ * Whether the user can confirm with a password (SSO, magic link and
+ * passkey-only users sign in again instead)
+ */
+export async function hasPasswordCredential(userId: string): Promise<boolean> {
+  const { internalAdapter } = await auth.$context;
+  const accounts = await internalAdapter.findAccounts(userId);
+  return accounts.some((account) => account.providerId === "credential" && account.password);
+}
+
+/**
+ * Confirm the current user's password for sensitive actions
+ * Returns when the confirmation runs out. Too many wrong passwords sign
+ * the session out.
+ */
+export async function reauthenticate(password: string): Promise<Date> {
+  const session = await requireSession();
+  const context = await auth.$context;
+  const accounts = await context.internalAdapter.findAccounts(session.user.id);
+  const hash = accounts.find((account) => account.providerId === "credential")?.password;
+  if (!hash) {
+    throw new ForbiddenError("Sign in again to continue", "NO_PASSWORD");
+  }
+
+  if (!(await context.password.verify({ hash, password }))) {
+    const failures = await recordReauthenticationFailure(session.session.id);
+    if (failures >= MAX_REAUTHENTICATION_FAILURES) {
+      await clearReauthenticationFailures(session.session.id);
+      await context.internalAdapter.deleteSession(session.session.token);
+      throw new UnauthorizedError("Too many incorrect passwords", "SESSION_EXPIRED");
+    }
+    throw new ForbiddenError("Incorrect password", "INVALID_PASSWORD");
+  }
+
+  await clearReauthenticationFailures(session.session.id);
+  const reauthenticatedAt = new Date();
+  await context.internalAdapter.updateSession(session.session.token, { reauthenticatedAt });
+  const status = await getSessionPolicyStatus();
+  const minutes = status?.reauthenticationMinutes ?? DEFAULT_SESSION_POLICY.reauthenticationMinutes;
+  return new Date(reauthenticatedAt.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Require an active organization the user is a member of
+ *
+ * @param options.includeDeleted - also pass for a deleted organization
+ *   (for the page owners restore it from)
+ */
+export async function requireActiveOrganization(options: { includeDeleted?: boolean } = {}) {
+  // 2FA is checked below, after a deleted organization is reported
+  const session = await requireSession({ allowTwoFactorOverdue: true });
+  const organizationId = await getActiveOrganizationId();
+  if (!organizationId) {
+    throw new ForbiddenError("No active organization", "NO_ACTIVE_ORGANIZATION");
+  }
+
+  const member = await getActiveMember();
+  if (!member || member.organizationId !== organizationId) {
+    throw new ForbiddenError("Not a member of the active organization", "NOT_A_MEMBER");
+  }
+
+  if (!options.includeDeleted && (await getActiveOrganizationDeletion())) {
+    throw new ForbiddenError("This organization has been deleted", "ORGANIZATION_DELETED");
+  }
+
+  await assertTwoFactorNotOverdue();
+
+  const { adapter } = await auth.$context;
+  return {
+    session,
+    user: session.user,
+    organizationId,
+    member,
+    roles: parseRoles(member.role),
+    /** Organization-defined roles held (see lib/auth/custom-roles.ts) */
+    customRoles: await listMemberCustomRoles(adapter, organizationId, member.role),
+  };
+}
+
+/**
+ * Require at least `role` in the active organization
+ *
+ * @example
+ * await requireRole("partner"); // partners and owners pass
+ */
+export async function requireRole(role: LegalRole) {
+  const context = await requireActiveOrganization();
+  if (!context.roles.some((userRole) => hasMinimumRole(userRole, role))) {
+    throw new ForbiddenError(`Requires the ${role} role or higher`, "INSUFFICIENT_ROLE");
+  }
+  return context;
+}
+
+/**
+ * Require a permission statement in the active organization
+ *
+ * @example
+ * await requirePermission({ matter: ["update"] });
+ */
+export async function requirePermission(permission: PermissionStatement) {
+  const context = await requireActiveOrganization();
+  const result = await auth.api.hasPermission({
+    headers: await headers(),
+    body: { permissions: permission },
+  });
+  if (!result.success) {
+    throw new ForbiddenError("Missing required permission", "MISSING_PERMISSION");
+  }
+  return context;
+}
+
+/**
+ * The current user as a matter actor, for scoping list queries
+ *
+ * @example
+ * const scope = await getMatterQueryScope(await requireMatterActor());
+ */
+export async function requireMatterActor(): Promise<MatterActor> {
+  const { user, organizationId, roles, customRoles } = await requireActiveOrganization();
+  return { userId: user.id, organizationId, roles, customRoles };
+}
+
+/**
+ * Require access to a specific matter in the active organization
+ * Combines the role statement with the user's matter assignments.
+ *
+ * @example
+ * await requireMatterAccess(params.id, "update");
+ */
+export async function requireMatterAccess(matterId: string, action: MatterAction) {
+  const context = await requireActiveOrganization();
+  const allowed = await canAccessMatter(
+    {
+      userId: context.user.id,
+      organizationId: context.organizationId,
+      roles: context.roles,
+      customRoles: context.customRoles,
+    },
+    matterId,
+    action
+  );
+  if (!allowed) {
+    throw new ForbiddenError("You don't have access to this matter", "MATTER_ACCESS_DENIED");
+  }
+  return context;
+}
+
+/**
+ * Require access to a matter's documents in the active organization
+ * Ethical walls apply here too, whatever the user's role.
+ *
+ * @example
+ * await requireMatterDocumentAccess(params.id, "read");
+ */
+export async function requireMatterDocumentAccess(matterId: string, action: DocumentAction) {
+  const context = await requireActiveOrganization();
+  const allowed = await canAccessMatterDocuments(
+    {
+      userId: context.user.id,
+      organizationId: context.organizationId,
+      roles: context.roles,
+      customRoles: context.customRoles,
+    },
+    matterId,
+    action
+  );
+  if (!allowed) {
+    throw new ForbiddenError("You don't have access to this matter", "MATTER_ACCESS_DENIED");
+  }
+  return context;
+}
+
+// ============================================================================
+// Error mapping
+// ============================================================================
+
+/**
+ * Convert an AuthError to a JSON response, or null for any other error
+ */
+export function authErrorResponse(error: unknown): Response | null {
+  if (!(error instanceof AuthError)) return null;
+  return Response.json(
+    { error: error.message, code: error.code },
+    { status: error.status }
+  );
+}
+
+/**
+ * Wrap a route handler so auth errors become 401/403 responses
+ */
+export function withAuth<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return async (...args) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      const response = authErrorResponse(error);
+      if (response) return response;
+      throw error;
+    }
+  };
+}
+
+/**
+ * Run guards in a server component, redirecting instead of throwing
+ * - 401 goes to /login (with a callback URL if given, and "expired" for
+ *   sessions the firm's policy ended)
+ * - 403 for missing 2FA goes to 2FA enrollment
+ * - 403 for a deleted organization goes to its settings (to restore it)
+ * - any other 403 goes to /forbidden
+ */
+export async function redirectOnAuthError<T>(
+  fn: () => Promise<T>,
+  callbackUrl?: string
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      const params = new URLSearchParams();
+      if (callbackUrl) params.set("callbackUrl", callbackUrl);
+      if (error.code === "SESSION_EXPIRED") params.set("reason", "expired");
+      redirect(params.size > 0 ? `/login?${params}` : "/login");
+    }
+    if (error instanceof ForbiddenError && error.code === "TWO_FACTOR_REQUIRED") {
+      redirect(
+        callbackUrl
+          ? `${TWO_FACTOR_ENROLLMENT_PATH}?callbackUrl=${encodeURIComponent(callbackUrl)}`
+          : TWO_FACTOR_ENROLLMENT_PATH
+      );
+    }
+    if (error instanceof ForbiddenError && error.code === "ORGANIZATION_DELETED") {
+      redirect("/settings/organization");
+    }
+    if (error instanceof ForbiddenError) {
+      redirect("/forbidden");
+    }
+    throw error;
+  }
+}
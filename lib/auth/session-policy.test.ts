@@ -0,0 +1,147 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_SESSION_POLICY,
+  getReauthenticatedUntil,
+  getSessionDeadlines,
+  hasSessionLimits,
+  normalizeSessionPolicy,
+  resolveSessionLifetime,
+  SessionPolicyError,
+  validateSessionPolicy,
+  type SessionPolicy,
+} from "./session-policy";
+
+const policy: SessionPolicy = {
+  default: { idleTimeoutMinutes: 60, maxLifetimeHours: 12 },
+  roles: {
+    client: { idleTimeoutMinutes: 15, maxLifetimeHours: 4 },
+    partner: { idleTimeoutMinutes: null },
+  },
+  reauthenticationMinutes: 10,
+};
+
+const signedIn = new Date("2026-03-02T09:00:00Z");
+
+function minutesAfter(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+describe("resolveSessionLifetime", () => {
+  test("uses the firm default for members without an override", () => {
+    expect(resolveSessionLifetime(policy, ["associate"])).toEqual(policy.default);
+    expect(resolveSessionLifetime(policy, [])).toEqual(policy.default);
+  });
+
+  test("falls back to the default for fields a role leaves out", () => {
+    expect(resolveSessionLifetime(policy, ["partner"])).toEqual({
+      idleTimeoutMinutes: null,
+      maxLifetimeHours: 12,
+    });
+  });
+
+  test("applies the strictest limit across a member's roles", () => {
+    expect(resolveSessionLifetime(policy, ["partner", "client"])).toEqual({
+      idleTimeoutMinutes: 15,
+      maxLifetimeHours: 4,
+    });
+  });
+});
+
+describe("getSessionDeadlines", () => {
+  const lifetime = { idleTimeoutMinutes: 15, maxLifetimeHours: 4 };
+
+  test("counts idle time from the last activity", () => {
+    const session = {
+      createdAt: signedIn,
+      updatedAt: signedIn,
+      lastActiveAt: minutesAfter(signedIn, 30),
+    };
+
+    expect(getSessionDeadlines(session, lifetime, minutesAfter(signedIn, 40))).toEqual({
+      idleExpiresAt: minutesAfter(signedIn, 45),
+      absoluteExpiresAt: minutesAfter(signedIn, 240),
+      expired: null,
+    });
+    expect(getSessionDeadlines(session, lifetime, minutesAfter(signedIn, 45)).expired).toBe("idle");
+  });
+
+  test("falls back to updatedAt for sessions without recorded activity", () => {
+    const session = { createdAt: signedIn, updatedAt: minutesAfter(signedIn, 5) };
+    expect(getSessionDeadlines(session, lifetime, signedIn).idleExpiresAt).toEqual(
+      minutesAfter(signedIn, 20)
+    );
+  });
+
+  test("ends active sessions at the max lifetime", () => {
+    const now = minutesAfter(signedIn, 240);
+    const session = { createdAt: signedIn, updatedAt: signedIn, lastActiveAt: now };
+    expect(getSessionDeadlines(session, lifetime, now).expired).toBe("lifetime");
+  });
+
+  test("has no deadlines without limits", () => {
+    const session = { createdAt: signedIn, updatedAt: signedIn };
+    expect(
+      getSessionDeadlines(session, DEFAULT_SESSION_POLICY.default, minutesAfter(signedIn, 10_000))
+    ).toEqual({ idleExpiresAt: null, absoluteExpiresAt: null, expired: null });
+  });
+});
+
+describe("getReauthenticatedUntil", () => {
+  test("counts from sign-in", () => {
+    expect(getReauthenticatedUntil({ createdAt: signedIn }, policy)).toEqual(
+      minutesAfter(signedIn, 10)
+    );
+  });
+
+  test("counts from the last password confirmation", () => {
+    const session = { createdAt: signedIn, reauthenticatedAt: minutesAfter(signedIn, 60) };
+    expect(getReauthenticatedUntil(session, policy)).toEqual(minutesAfter(signedIn, 70));
+  });
+});
+
+describe("hasSessionLimits", () => {
+  test("is false for Better Auth's defaults", () => {
+    expect(hasSessionLimits(DEFAULT_SESSION_POLICY)).toBe(false);
+    expect(hasSessionLimits(normalizeSessionPolicy(undefined))).toBe(false);
+  });
+
+  test("is true when only one role is limited", () => {
+    const limited = normalizeSessionPolicy({ roles: { client: { idleTimeoutMinutes: 15 } } });
+    expect(hasSessionLimits(limited)).toBe(true);
+  });
+});
+
+describe("validateSessionPolicy", () => {
+  test("accepts a policy within range", () => {
+    expect(validateSessionPolicy(policy)).toBe(policy);
+  });
+
+  test("lists every out-of-range value", () => {
+    const invalid: SessionPolicy = {
+      default: { idleTimeoutMinutes: 2, maxLifetimeHours: 1.5 },
+      roles: { client: { maxLifetimeHours: 48 } },
+      reauthenticationMinutes: 0,
+    };
+
+    try {
+      validateSessionPolicy(invalid);
+      throw new Error("Expected a SessionPolicyError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(SessionPolicyError);
+      expect((error as SessionPolicyError).issues).toEqual([
+        "Firm default idle timeout must be a whole number from 5 to 720",
+        "Firm default max lifetime must be a whole number from 1 to 24",
+        "client (role) max lifetime must be a whole number from 1 to 24",
+        "Re-authentication window must be a whole number from 1 to 720",
+      ]);
+    }
+  });
+
+  test("rejects unknown roles", () => {
+    const unknownRole = {
+      ...policy,
+      roles: { intern: { idleTimeoutMinutes: 30 } },
+    } as unknown as SessionPolicy;
+    expect(() => validateSessionPolicy(unknownRole)).toThrow('Unknown role "intern"');
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Session Policies
+ *
+ * How long a firm lets sessions last, set by owners on /admin/security and
+ * stored as `sessionPolicy` in the organization's security settings
+ * (organization-security.ts):
+ *
+ * - idle timeout: signed out after this many minutes without activity
+ *   (for shared workstations). The protected layout warns first.
+ * - max lifetime: signed out this many hours after signing in, however
+ *   active (never longer than Better Auth's own SESSION_EXPIRES_IN)
+ * - re-authentication: sensitive actions (deleting the organization,
+ *   changing security settings, ...) need a password confirmed within
+ *   this many minutes
+ *
+ * Each legal role can override the firm default, e.g. shorter sessions
+ * for clients. A member with several roles gets the strictest of them.
+ *
+ * Pure functions - safe to import on the client.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { isLegalRole, type LegalRole } from "./roles";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/** Better Auth's `session.expiresIn` - no policy can outlast it */
+export const SESSION_EXPIRES_IN_SECONDS = 60 * 60 * 24;
+
+export const MIN_IDLE_TIMEOUT_MINUTES = 5;
+export const MAX_IDLE_TIMEOUT_MINUTES = 60 * 12;
+export const MAX_SESSION_LIFETIME_HOURS = SESSION_EXPIRES_IN_SECONDS / 60 / 60;
+export const MIN_REAUTHENTICATION_MINUTES = 1;
+export const MAX_REAUTHENTICATION_MINUTES = 60 * 12;
+
+/**
+ * Seconds of warning before an idle sign-out
+ */
+export const IDLE_WARNING_SECONDS = 60;
+
+/**
+ * Activity is recorded on the session at most this often
+ */
+export const ACTIVITY_WRITE_INTERVAL_SECONDS = 60;
+
+export interface SessionLifetime {
+  /** Null for no idle timeout */
+  idleTimeoutMinutes: number | null;
+  /** Null for Better Auth's default (SESSION_EXPIRES_IN_SECONDS) */
+  maxLifetimeHours: number | null;
+}
+
+export interface SessionPolicy {
+  /** Applies to every member whose roles don't override it */
+  default: SessionLifetime;
+  /** Per legal role; a field left out falls back to the default */
+  roles: Partial<Record<LegalRole, Partial<SessionLifetime>>>;
+  /** How long a password confirmation covers sensitive actions */
+  reauthenticationMinutes: number;
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  default: { idleTimeoutMinutes: null, maxLifetimeHours: null },
+  roles: {},
+  reauthenticationMinutes: 15,
+};
+
+/**
+ * Fill in anything a stored policy is missing
+ */
+export function normalizeSessionPolicy(stored: Partial<SessionPolicy> | undefined): SessionPolicy {
+  return {
+    default: { ...DEFAULT_SESSION_POLICY.default, ...stored?.default },
+    roles: { ...stored?.roles },
+    reauthenticationMinutes:
+      stored?.reauthenticationMinutes ?? DEFAULT_SESSION_POLICY.reauthenticationMinutes,
+  };
+}
+
+/**
+ * Whether the policy limits sessions at all (for the firm or any role)
+ * Without limits, sessions only end at Better Auth's own expiry.
+ */
+export function hasSessionLimits(policy: SessionPolicy): boolean {
+  return [policy.default, ...Object.values(policy.roles)].some(
+    (lifetime) => lifetime?.idleTimeoutMinutes != null || lifetime?.maxLifetimeHours != null
+  );
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export class SessionPolicyError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(issues.join(". "));
+    this.name = "SessionPolicyError";
+  }
+}
+
+function checkRange(
+  issues: string[],
+  label: string,
+  value: number | null | undefined,
+  min: number,
+  max: number
+) {
+  if (value === null || value === undefined) return;
+  if (!Number.isInteger(value) || value < min || value > max) {
+    issues.push(`${label} must be a whole number from ${min} to ${max}`);
+  }
+}
+
+/**
+ * Throw a SessionPolicyError listing every out-of-range value
+ */
+export function validateSessionPolicy(policy: SessionPolicy): SessionPolicy {
+  const issues: string[] = [];
+  const lifetimes: [string, Partial<SessionLifetime>][] = [
+    ["Firm default", policy.default],
+    ...Object.entries(policy.roles).map(
+      ([role, lifetime]): [string, Partial<SessionLifetime>] => [`${role} (role)`, lifetime ?? {}]
+    ),
+  ];
+
+  for (const [role] of Object.entries(policy.roles)) {
+    if (!isLegalRole(role)) issues.push(`Unknown role "${role}"`);
+  }
+  for (const [label, lifetime] of lifetimes) {
+    checkRange(
+      issues,
+      `${label} idle timeout`,
+      lifetime.idleTimeoutMinutes,
+      MIN_IDLE_TIMEOUT_MINUTES,
+      MAX_IDLE_TIMEOUT_MINUTES
+    );
+    checkRange(
+      issues,
+      `${label} max lifetime`,
+      lifetime.maxLifetimeHours,
+      1,
+      MAX_SESSION_LIFETIME_HOURS
+    );
+  }
+  checkRange(
+    issues,
+    "Re-authentication window",
+    policy.reauthenticationMinutes,
+    MIN_REAUTHENTICATION_MINUTES,
+    MAX_REAUTHENTICATION_MINUTES
+  );
+
+  if (issues.length > 0) throw new SessionPolicyError(issues);
+  return policy;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+function strictest(values: (number | null)[]): number | null {
+  const limits = values.filter((value): value is number => value !== null);
+  return limits.length > 0 ? Math.min(...limits) : null;
+}
+
+/**
+ * The lifetime that applies to a member with these roles
+ * Each role uses its override or the default; the shortest limit wins.
+ *
+ * @example
+ * resolveSessionLifetime(policy, ["client"]); // { idleTimeoutMinutes: 15, maxLifetimeHours: 4 }
+ */
+export function resolveSessionLifetime(
+  policy: SessionPolicy,
+  roles: LegalRole[]
+): SessionLifetime {
+  if (roles.length === 0) return policy.default;
+  const lifetimes = roles.map((role) => ({ ...policy.default, ...policy.roles[role] }));
+  return {
+    idleTimeoutMinutes: strictest(lifetimes.map((lifetime) => lifetime.idleTimeoutMinutes)),
+    maxLifetimeHours: strictest(lifetimes.map((lifetime) => lifetime.maxLifetimeHours)),
+  };
+}
+
+export interface SessionDeadlines {
+  /** When the session ends without further activity, if it can */
+  idleExpiresAt: Date | null;
+  /** When the session ends however active, if the policy caps it */
+  absoluteExpiresAt: Date | null;
+  /** Why the session has already ended, or null if it hasn't */
+  expired: "idle" | "lifetime" | null;
+}
+
+/**
+ * When a session ends under a lifetime
+ * Activity falls back to `updatedAt` for sessions that predate the policy.
+ */
+export function getSessionDeadlines(
+  session: { createdAt: Date | string; updatedAt: Date | string; lastActiveAt?: Date | string | null },
+  lifetime: SessionLifetime,
+  now: Date = new Date()
+): SessionDeadlines {
+  const lastActive = new Date(session.lastActiveAt ?? session.updatedAt).getTime();
+  const idleExpiresAt =
+    lifetime.idleTimeoutMinutes === null
+      ? null
+      : new Date(lastActive + lifetime.idleTimeoutMinutes * 60 * 1000);
+  const absoluteExpiresAt =
+    lifetime.maxLifetimeHours === null
+      ? null
+      : new Date(new Date(session.createdAt).getTime() + lifetime.maxLifetimeHours * 60 * 60 * 1000);
+
+  let expired: SessionDeadlines["expired"] = null;
+  if (absoluteExpiresAt && absoluteExpiresAt <= now) expired = "lifetime";
+  else if (idleExpiresAt && idleExpiresAt <= now) expired = "idle";
+  return { idleExpiresAt, absoluteExpiresAt, expired };
+}
+
+/**
+ * Until when sensitive actions are allowed without confirming the
+ * password again - counted from sign-in or the last confirmation
+ */
+export function getReauthenticatedUntil(
+  session: { createdAt: Date | string; reauthenticatedAt?: Date | string | null },
+  policy: SessionPolicy
+): Date {
+  const confirmedAt = Math.max(
+    new Date(session.createdAt).getTime(),
+    session.reauthenticatedAt ? new Date(session.reauthenticatedAt).getTime() : 0
+  );
+  return new Date(confirmedAt + policy.reauthenticationMinutes * 60 * 1000);
+}
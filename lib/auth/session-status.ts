@@ -0,0 +1,164 @@
+/**
+ * Session Policy Status
+ *
+ * Measures a session against its active organization's session policy
+ * (session-policy.ts). Reads the session row itself: activity and password
+ * confirmations change faster than the cookie cache refreshes.
+ *
+ * Takes the adapter as a parameter so the get-session hook in
+ * lib/auth/index.ts can sign expired sessions out wherever a session is
+ * read. lib/auth/server.ts uses it for deadlines and re-authentication.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import type { DBAdapter } from "better-auth";
+import { readOrganizationMetadata } from "./organization-metadata";
+import { isLegalRole, type LegalRole } from "./roles";
+import {
+  DEFAULT_SESSION_POLICY,
+  getReauthenticatedUntil,
+  getSessionDeadlines,
+  normalizeSessionPolicy,
+  resolveSessionLifetime,
+  type SessionDeadlines,
+  type SessionLifetime,
+  type SessionPolicy,
+} from "./session-policy";
+
+/**
+ * Session fields written for the session policy (see session.additionalFields)
+ */
+interface SessionPolicyFields {
+  id: string;
+  token: string;
+  createdAt: Date;
+  updatedAt: Date;
+  activeOrganizationId?: string | null;
+  lastActiveAt?: Date | null;
+  reauthenticatedAt?: Date | null;
+}
+
+export interface SessionPolicyStatus extends Omit<SessionDeadlines, "expired"> {
+  lifetime: SessionLifetime;
+  /** Sensitive actions need the password again after this */
+  reauthenticatedUntil: Date;
+  reauthenticationMinutes: number;
+  /** "revoked" when the session was signed out elsewhere */
+  expired: SessionDeadlines["expired"] | "revoked";
+  lastActiveAt: Date | null;
+}
+
+/** How long an organization's policy is reused before it's read again */
+const POLICY_CACHE_SECONDS = 60;
+
+/**
+ * Session policies by organization ID (per server instance, so a change
+ * made on another instance applies within POLICY_CACHE_SECONDS)
+ */
+const policyCache = new Map<string, { policy: SessionPolicy; expiresAt: number }>();
+
+/**
+ * An organization's session policy, read at most once a minute
+ *
+ * @example
+ * const policy = await getOrganizationSessionPolicy(adapter, organizationId);
+ * if (!hasSessionLimits(policy)) return;
+ */
+export async function getOrganizationSessionPolicy(
+  adapter: DBAdapter,
+  organizationId: string
+): Promise<SessionPolicy> {
+  const cached = policyCache.get(organizationId);
+  if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+  const metadata = await readOrganizationMetadata(adapter, organizationId);
+  const security = metadata.security as { sessionPolicy?: Partial<SessionPolicy> } | undefined;
+  const policy = normalizeSessionPolicy(security?.sessionPolicy);
+  policyCache.set(organizationId, { policy, expiresAt: Date.now() + POLICY_CACHE_SECONDS * 1000 });
+  return policy;
+}
+
+/**
+ * Drop a cached policy after it changes (or its organization is purged)
+ */
+export function forgetOrganizationSessionPolicy(organizationId: string): void {
+  policyCache.delete(organizationId);
+}
+
+function parseRoles(role: string): LegalRole[] {
+  return role
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(isLegalRole);
+}
+
+/**
+ * The policy for the session's active organization (Better Auth's
+ * defaults without one), resolved for the member's roles
+ */
+async function findSessionPolicy(
+  adapter: DBAdapter,
+  session: { userId: string; activeOrganizationId?: string | null }
+): Promise<{ policy: SessionPolicy; roles: LegalRole[] }> {
+  const member = session.activeOrganizationId
+    ? await adapter.findOne<{ role: string }>({
+        model: "member",
+        where: [
+          { field: "organizationId", value: session.activeOrganizationId },
+          { field: "userId", value: session.userId },
+        ],
+      })
+    : null;
+  if (!member || !session.activeOrganizationId) {
+    return { policy: DEFAULT_SESSION_POLICY, roles: [] };
+  }
+
+  return {
+    policy: await getOrganizationSessionPolicy(adapter, session.activeOrganizationId),
+    roles: parseRoles(member.role),
+  };
+}
+
+/**
+ * Where a session stands under its organization's session policy
+ * The organization comes from the stored row - a cached session may
+ * predate switching organizations.
+ *
+ * @example
+ * const status = await getSessionPolicyStatusFor(adapter, session.session);
+ * if (status.expired) await internalAdapter.deleteSession(session.session.token);
+ */
+export async function getSessionPolicyStatusFor(
+  adapter: DBAdapter,
+  session: { id: string; userId: string }
+): Promise<SessionPolicyStatus> {
+  const stored = await adapter.findOne<SessionPolicyFields>({
+    model: "session",
+    where: [{ field: "id", value: session.id }],
+  });
+  const { policy, roles } = await findSessionPolicy(adapter, {
+    userId: session.userId,
+    activeOrganizationId: stored?.activeOrganizationId,
+  });
+  const lifetime = resolveSessionLifetime(policy, roles);
+
+  if (!stored) {
+    return {
+      lifetime,
+      idleExpiresAt: null,
+      absoluteExpiresAt: null,
+      expired: "revoked",
+      reauthenticatedUntil: new Date(0),
+      reauthenticationMinutes: policy.reauthenticationMinutes,
+      lastActiveAt: null,
+    };
+  }
+  return {
+    lifetime,
+    ...getSessionDeadlines(stored, lifetime),
+    reauthenticatedUntil: getReauthenticatedUntil(stored, policy),
+    reauthenticationMinutes: policy.reauthenticationMinutes,
+    lastActiveAt: stored.lastActiveAt ? new Date(stored.lastActiveAt) : null,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Session Summaries
+ *
+ * What the sessions list on /settings/security shows for each signed-in
+ * device: the parsed browser and system (devices.ts) and an approximate
+ * location from the local GeoIP database (geoip.ts). Revoking uses Better
+ * Auth's own endpoints; an admin signing a member out everywhere uses
+ * `internalAdapter.deleteSessions()`, like SCIM deprovisioning.
+ *
+ * Sessions are read through the cookie cache (`session.cookieCache` in
+ * lib/auth/index.ts), so a revoked device can keep working for up to five
+ * minutes.
+ *
+ * Server-only.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import { describeDevice, parseUserAgent, type DeviceInfo } from "./devices";
+import { describeLocation, lookupLocation } from "./geoip";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * The stored session fields a summary is built from
+ */
+export interface StoredSession {
+  id: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: DeviceInfo;
+  /** e.g. "Chrome 131 on macOS" */
+  deviceLabel: string;
+  ipAddress: string | null;
+  /** e.g. "Chicago, Illinois, United States" - null without GeoIP */
+  location: string | null;
+  signedInAt: Date;
+  /** Refreshed at most hourly (`session.updateAge`), so approximate */
+  lastActiveAt: Date;
+  expiresAt: Date;
+  /** The session making this request */
+  current: boolean;
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Describe a user's sessions, this device first, then most recently active
+ */
+export async function summarizeSessions(
+  sessions: StoredSession[],
+  currentSessionId: string
+): Promise<SessionSummary[]> {
+  const summaries = await Promise.all(
+    sessions.map(async (session): Promise<SessionSummary> => {
+      const device = parseUserAgent(session.userAgent);
+      return {
+        id: session.id,
+        device,
+        deviceLabel: describeDevice(device),
+        ipAddress: session.ipAddress || null,
+        location: describeLocation(await lookupLocation(session.ipAddress)),
+        signedInAt: new Date(session.createdAt),
+        lastActiveAt: new Date(session.updatedAt),
+        expiresAt: new Date(session.expiresAt),
+        current: session.id === currentSessionId,
+      };
+    })
+  );
+
+  return summaries.sort(
+    (a, b) =>
+      Number(b.current) - Number(a.current) || b.lastActiveAt.getTime() - a.lastActiveAt.getTime()
+  );
+}
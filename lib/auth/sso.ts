@@ -0,0 +1,352 @@
+/**
+ * Enterprise SSO (SAML / OIDC per organization)
+ *
+ * Connections themselves (issuer, client credentials, certificates) are
+ * stored by the @better-auth/sso plugin in its `ssoProvider` table. This
+ * module keeps the firm-level settings Better Auth doesn't have:
+ *
+ * - Domain routing: "you@firm.com" -> the connection of the firm that has
+ *   proven it owns firm.com (DNS TXT record). Unverified claims are never
+ *   routed to and don't stop another firm from claiming the domain.
+ * - Just-in-time provisioning: first SSO sign-in joins the organization
+ *   with the connection's default LegalRole
+ * - SSO-only enforcement: password sign-in, sign-up and reset are refused
+ *   for the domain once the firm has proven it owns it (DNS TXT record)
+ *
+ * The settings are kept in the organization's metadata under `sso`, next
+ * to the plugin's ssoProvider row, so enforcement survives restarts
+ * (lib/auth/index.ts installs createDatabaseSsoSettingsStore). Storage is
+ * pluggable like matter-access.ts: `setSsoSettingsStore()` replaces it.
+ *
+ * @see skills/auth/SKILL.md for detailed documentation
+ */
+
+import type { DBAdapter } from "better-auth";
+import { readOrganizationMetadata, writeOrganizationMetadataKey } from "./organization-metadata";
+import { isLegalRole, type LegalRole } from "./roles";
+
+// ============================================================================
+// Model
+// ============================================================================
+
+export interface SsoConnectionSettings {
+  /** Matches `ssoProvider.providerId` */
+  providerId: string;
+  organizationId: string;
+  /** Email domain routed to this connection, e.g. "smithlaw.com" */
+  domain: string;
+  /** Role given to members created on first SSO sign-in */
+  defaultRole: LegalRole;
+  /** Refuse password sign-in for the domain (needs a verified domain) */
+  enforceSso: boolean;
+  /** Published as a DNS TXT record to prove domain ownership */
+  verificationToken: string;
+  domainVerifiedAt: Date | null;
+}
+
+/**
+ * Lowest internal role - SSO users can be promoted after they join
+ */
+export const DEFAULT_SSO_ROLE: LegalRole = "staff";
+
+/**
+ * TXT record name prefix: `legal-app-sso-verification=<token>`
+ */
+export const SSO_VERIFICATION_PREFIX = "legal-app-sso-verification";
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export interface SsoSettingsStore {
+  get(providerId: string): Promise<SsoConnectionSettings | null>;
+  listByDomain(domain: string): Promise<SsoConnectionSettings[]>;
+  listForOrganization(organizationId: string): Promise<SsoConnectionSettings[]>;
+  save(settings: SsoConnectionSettings): Promise<void>;
+  remove(providerId: string): Promise<void>;
+}
+
+/**
+ * In-memory store for tests
+ * Data is lost on restart, which would silently lift SSO enforcement.
+ */
+export function createMemorySsoSettingsStore(): SsoSettingsStore {
+  const connections = new Map<string, SsoConnectionSettings>();
+
+  return {
+    async get(providerId) {
+      return connections.get(providerId) ?? null;
+    },
+    async listByDomain(domain) {
+      return [...connections.values()].filter((settings) => settings.domain === domain);
+    },
+    async listForOrganization(organizationId) {
+      return [...connections.values()].filter(
+        (settings) => settings.organizationId === organizationId
+      );
+    },
+    async save(settings) {
+      connections.set(settings.providerId, settings);
+    },
+    async remove(providerId) {
+      connections.delete(providerId);
+    },
+  };
+}
+
+/**
+ * A connection's settings as kept in organization metadata
+ * The organization and domain come from its ssoProvider row.
+ */
+interface StoredSsoSettings {
+  defaultRole: LegalRole;
+  enforceSso: boolean;
+  verificationToken: string;
+  domainVerifiedAt: string | null;
+}
+
+interface SsoProviderRow {
+  providerId: string;
+  organizationId?: string | null;
+  domain: string;
+}
+
+async function readStoredSettings(
+  adapter: DBAdapter,
+  organizationId: string
+): Promise<Record<string, StoredSsoSettings>> {
+  const metadata = await readOrganizationMetadata(adapter, organizationId);
+  return (metadata.sso as Record<string, StoredSsoSettings> | undefined) ?? {};
+}
+
+/**
+ * Store backed by the ssoProvider table and organization metadata
+ * Connections without an organization, or without settings, are skipped.
+ * Save a connection's settings after registering it, and remove them
+ * before deleting its ssoProvider row.
+ */
+export function createDatabaseSsoSettingsStore(
+  getAdapter: () => Promise<DBAdapter>
+): SsoSettingsStore {
+  const findConnections = async (
+    field: keyof SsoProviderRow,
+    value: string
+  ): Promise<SsoConnectionSettings[]> => {
+    const adapter = await getAdapter();
+    const providers = await adapter.findMany<SsoProviderRow>({
+      model: "ssoProvider",
+      where: [{ field, value }],
+    });
+
+    const connections: SsoConnectionSettings[] = [];
+    for (const provider of providers) {
+      if (!provider.organizationId) continue;
+      const stored = (await readStoredSettings(adapter, provider.organizationId))[
+        provider.providerId
+      ];
+      if (!stored) continue;
+      connections.push({
+        providerId: provider.providerId,
+        organizationId: provider.organizationId,
+        domain: normalizeDomain(provider.domain),
+        defaultRole: stored.defaultRole,
+        enforceSso: stored.enforceSso,
+        verificationToken: stored.verificationToken,
+        domainVerifiedAt: stored.domainVerifiedAt ? new Date(stored.domainVerifiedAt) : null,
+      });
+    }
+    return connections;
+  };
+
+  return {
+    async get(providerId) {
+      return (await findConnections("providerId", providerId))[0] ?? null;
+    },
+    async listByDomain(domain) {
+      return findConnections("domain", domain);
+    },
+    async listForOrganization(organizationId) {
+      return findConnections("organizationId", organizationId);
+    },
+    async save(settings) {
+      const adapter = await getAdapter();
+      const stored = await readStoredSettings(adapter, settings.organizationId);
+      await writeOrganizationMetadataKey(adapter, settings.organizationId, "sso", {
+        ...stored,
+        [settings.providerId]: {
+          defaultRole: settings.defaultRole,
+          enforceSso: settings.enforceSso,
+          verificationToken: settings.verificationToken,
+          domainVerifiedAt: settings.domainVerifiedAt?.toISOString() ?? null,
+        } satisfies StoredSsoSettings,
+      });
+    },
+    async remove(providerId) {
+      const adapter = await getAdapter();
+      const provider = await adapter.findOne<SsoProviderRow>({
+        model: "ssoProvider",
+        where: [{ field: "providerId", value: providerId }],
+      });
+      if (!provider?.organizationId) return;
+
+      const stored = { ...(await readStoredSettings(adapter, provider.organizationId)) };
+      delete stored[providerId];
+      await writeOrganizationMetadataKey(adapter, provider.organizationId, "sso", stored);
+    },
+  };
+}
+
+let store: SsoSettingsStore = createMemorySsoSettingsStore();
+
+/**
+ * Replace the SSO settings store (call once at startup)
+ */
+export function setSsoSettingsStore(next: SsoSettingsStore): void {
+  store = next;
+}
+
+export function getSsoSettingsStore(): SsoSettingsStore {
+  return store;
+}
+
+// ============================================================================
+// Domains
+// ============================================================================
+
+/**
+ * "https://SmithLaw.com/" -> "smithlaw.com"
+ */
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/[/:].*$/, "")
+    .replace(/\.$/, "");
+}
+
+export function getEmailDomain(email: string): string | null {
+  const domain = email.trim().split("@")[1];
+  return domain ? normalizeDomain(domain) : null;
+}
+
+/**
+ * Settings for a new connection, with a fresh verification token
+ */
+export function createSsoConnectionSettings(input: {
+  providerId: string;
+  organizationId: string;
+  domain: string;
+  defaultRole?: LegalRole;
+}): SsoConnectionSettings {
+  return {
+    providerId: input.providerId,
+    organizationId: input.organizationId,
+    domain: normalizeDomain(input.domain),
+    defaultRole: input.defaultRole ?? DEFAULT_SSO_ROLE,
+    enforceSso: false,
+    verificationToken: crypto.randomUUID().replace(/-/g, ""),
+    domainVerifiedAt: null,
+  };
+}
+
+/**
+ * The connection that has verified the domain, or null
+ * Only one connection can hold a verified domain at a time.
+ */
+export async function findVerifiedSsoConnection(
+  domain: string
+): Promise<SsoConnectionSettings | null> {
+  const connections = await store.listByDomain(normalizeDomain(domain));
+  return connections.find((settings) => settings.domainVerifiedAt !== null) ?? null;
+}
+
+/**
+ * Check the domain's TXT records for the connection's verification token
+ * Marks the domain verified on success. Fails if another connection has
+ * already verified the domain.
+ */
+export async function verifySsoDomain(providerId: string): Promise<boolean> {
+  const settings = await store.get(providerId);
+  if (!settings) return false;
+
+  const verified = await findVerifiedSsoConnection(settings.domain);
+  if (verified) return verified.providerId === providerId;
+
+  const { resolveTxt } = await import("node:dns/promises");
+  const expected = `${SSO_VERIFICATION_PREFIX}=${settings.verificationToken}`;
+  const records = await resolveTxt(settings.domain).catch(() => [] as string[][]);
+  if (!records.some((chunks) => chunks.join("") === expected)) return false;
+
+  await store.save({ ...settings, domainVerifiedAt: new Date() });
+  return true;
+}
+
+// ============================================================================
+// Routing and enforcement
+// ============================================================================
+
+export interface SsoRoute {
+  providerId: string;
+  /** Password sign-in is refused for this email */
+  enforced: boolean;
+}
+
+/**
+ * What the login page learns about an email's domain - SSO sign-in starts
+ * from the email, so the connection itself stays server-side
+ */
+export type SsoLoginRoute = Pick<SsoRoute, "enforced">;
+
+/**
+ * Which SSO connection (if any) an email should sign in with
+ * Only verified domains are routed.
+ */
+export async function lookupSsoForEmail(email: string): Promise<SsoRoute | null> {
+  const domain = getEmailDomain(email);
+  if (!domain) return null;
+
+  const settings = await findVerifiedSsoConnection(domain);
+  if (!settings) return null;
+  return { providerId: settings.providerId, enforced: settings.enforceSso };
+}
+
+export async function isSsoRequiredForEmail(email: string): Promise<boolean> {
+  return (await lookupSsoForEmail(email))?.enforced ?? false;
+}
+
+// ============================================================================
+// Just-in-time provisioning
+// ============================================================================
+
+/**
+ * Add an SSO user to the connection's organization on first sign-in
+ * Existing members keep their role.
+ */
+export async function provisionSsoMember(
+  adapter: DBAdapter,
+  input: { userId: string; providerId: string; organizationId: string }
+): Promise<void> {
+  const existing = await adapter.findOne({
+    model: "member",
+    where: [
+      { field: "organizationId", value: input.organizationId },
+      { field: "userId", value: input.userId },
+    ],
+  });
+  if (existing) return;
+
+  const settings = await store.get(input.providerId);
+  const role =
+    settings && isLegalRole(settings.defaultRole) ? settings.defaultRole : DEFAULT_SSO_ROLE;
+
+  await adapter.create({
+    model: "member",
+    data: {
+      organizationId: input.organizationId,
+      userId: input.userId,
+      role,
+      createdAt: new Date(),
+    },
+  });
+}
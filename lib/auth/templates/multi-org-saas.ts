@@ -67,6 +67,16 @@ export const invitationStatusEnum = pgEnum("invitation_status", [
   "expired",
 ]);
 
+/**
+ * How a user is attached to a matter (see lib/auth/matter-access.ts)
+ */
+export const matterAssignmentRoleEnum = pgEnum("matter_assignment_role", [
+  "owner",
+  "assigned_attorney",
+  "assigned_paralegal",
+  "client_contact",
+]);
+
 // =============================================================================
 // CORE TABLES (Required by better-auth)
 // =============================================================================
@@ -224,12 +234,115 @@ export const invitation = pgTable("invitation", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// =============================================================================
+// MATTER ACCESS TABLES (Optional - backs lib/auth/matter-access.ts)
+// =============================================================================
+
+/**
+ * Matter assignments - who may work on which matter
+ * 
+ * Associates, paralegals and clients only see matters they are assigned
+ * to. Point `matterId` at your own matters table once you have one.
+ */
+export const matterAssignment = pgTable("matter_assignment", {
+  id: text("id").primaryKey(),
+  matterId: text("matter_id").notNull(),
+  organizationId: text("organization_id")
+    .notNull()
+    .references(() => organization.id, { onDelete: "cascade" }),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  role: matterAssignmentRoleEnum("role").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * Ethical walls - conflict screens that override role grants
+ * 
+ * Exactly one of userId / groupId and one of matterId / clientId is set.
+ * See lib/auth/ethical-walls.ts.
+ */
+export const ethicalWall = pgTable("ethical_wall", {
+  id: text("id").primaryKey(),
+  organizationId: text("organization_id")
+    .notNull()
+    .references(() => organization.id, { onDelete: "cascade" }),
+  userId: text("user_id").references(() => user.id, { onDelete: "cascade" }),
+  groupId: text("group_id"),
+  matterId: text("matter_id"),
+  clientId: text("client_id"),
+  reason: text("reason").notNull(),
+  createdBy: text("created_by")
+    .notNull()
+    .references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * SSO connections - managed by the @better-auth/sso plugin
+ * 
+ * oidcConfig / samlConfig hold the provider's JSON config.
+ */
+export const ssoProvider = pgTable("sso_provider", {
+  id: text("id").primaryKey(),
+  issuer: text("issuer").notNull(),
+  oidcConfig: text("oidc_config"),
+  samlConfig: text("saml_config"),
+  userId: text("user_id").references(() => user.id, { onDelete: "cascade" }),
+  providerId: text("provider_id").notNull().unique(),
+  organizationId: text("organization_id").references(() => organization.id, {
+    onDelete: "cascade",
+  }),
+  domain: text("domain").notNull(),
+});
+
+/**
+ * SCIM bearer tokens - one or more per organization, stored hashed
+ * 
+ * See lib/auth/scim.ts.
+ */
+export const scimToken = pgTable("scim_token", {
+  id: text("id").primaryKey(),
+  organizationId: text("organization_id")
+    .notNull()
+    .references(() => organization.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(),
+  createdBy: text("created_by")
+    .notNull()
+    .references(() => user.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
+/**
+ * Users provisioned by an organization's IdP
+ * 
+ * Kept after deactivation so the IdP can reactivate the user.
+ */
+export const scimIdentity = pgTable("scim_identity", {
+  organizationId: text("organization_id")
+    .notNull()
+    .references(() => organization.id, { onDelete: "cascade" }),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  externalId: text("external_id"),
+  active: boolean("active").notNull().default(true),
+  // The IdP created the account - only then can SCIM change its profile
+  createdUser: boolean("created_user").notNull().default(false),
+  // Comma-separated roles held when deactivated, given back on reactivation
+  previousRoles: text("previous_roles"),
+});
+
 // =============================================================================
 // HELPER TYPES
 // =============================================================================
 
 export type MemberRole = "owner" | "partner" | "associate" | "paralegal" | "staff" | "client";
 export type InvitationStatus = "pending" | "accepted" | "rejected" | "expired";
+export type MatterAssignmentRole = "owner" | "assigned_attorney" | "assigned_paralegal" | "client_contact";
 
 /**
  * Role hierarchy for permission checks
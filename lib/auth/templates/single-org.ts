@@ -47,6 +47,9 @@ import { pgTable, text, timestamp, boolean, pgEnum } from "drizzle-orm/pg-core";
  * - 'of_counsel' for contract attorneys
  * - 'intern' for law students
  * - 'it_admin' for technical staff without legal access
+ *
+ * Or let the firm define these itself at /admin/roles without a migration
+ * (custom roles, see lib/auth/custom-roles.ts).
  */
 export const roleEnum = pgEnum("user_role", [
   "owner",
@@ -0,0 +1,113 @@
+/**
+ * Mailer
+ *
+ * Pluggable email delivery for auth flows (invitations, 2FA codes,
+ * verification, password reset). Pick a transport with EMAIL_TRANSPORT:
+ *
+ * - "case-dev": case.dev Email API (needs CASE_API_KEY)
+ * - "smtp": Any SMTP server (needs SMTP_HOST, optionally SMTP_PORT/USER/PASS)
+ * - "file": Writes each email to .outbox/ for local development
+ * - "memory": Keeps emails in memory, for tests
+ *
+ * Without EMAIL_TRANSPORT, the first configured transport is used:
+ * case.dev if CASE_API_KEY is set, then SMTP if SMTP_HOST is set, then
+ * the file outbox outside production.
+ *
+ * @see lib/email/templates.ts for the message bodies
+ */
+
+import { createCaseDevTransport } from "./transports/case-dev";
+import { createFileOutbox, createMemoryOutbox } from "./transports/outbox";
+import { createSmtpTransport } from "./transports/smtp";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Defaults to EMAIL_FROM */
+  from?: string;
+  replyTo?: string;
+}
+
+export interface Mailer {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export const EmailTransports = ["case-dev", "smtp", "file", "memory"] as const;
+
+export type EmailTransport = (typeof EmailTransports)[number];
+
+/**
+ * Default sender address
+ */
+export function getDefaultFrom(): string {
+  return (
+    process.env.EMAIL_FROM ||
+    `${process.env.BETTER_AUTH_APP_NAME || "Legal App"} <noreply@localhost>`
+  );
+}
+
+function resolveTransport(): EmailTransport | null {
+  const configured = process.env.EMAIL_TRANSPORT?.trim();
+  if (configured) {
+    if (!EmailTransports.includes(configured as EmailTransport)) {
+      throw new Error(
+        `EMAIL_TRANSPORT "${configured}" must be one of: ${EmailTransports.join(", ")}`
+      );
+    }
+    return configured as EmailTransport;
+  }
+  if (process.env.CASE_API_KEY) return "case-dev";
+  if (process.env.SMTP_HOST) return "smtp";
+  if (process.env.NODE_ENV !== "production") return "file";
+  return null;
+}
+
+/**
+ * Build a mailer from environment variables
+ */
+export function createMailer(): Mailer {
+  switch (resolveTransport()) {
+    case "case-dev":
+      return createCaseDevTransport();
+    case "smtp":
+      return createSmtpTransport();
+    case "file":
+      return createFileOutbox();
+    case "memory":
+      return createMemoryOutbox();
+    case null:
+      return {
+        async send() {
+          throw new Error(
+            "No email transport configured. Set EMAIL_TRANSPORT, CASE_API_KEY or SMTP_HOST."
+          );
+        },
+      };
+  }
+}
+
+let mailer: Mailer | null = null;
+
+/**
+ * The app-wide mailer (created from env on first use)
+ */
+export function getMailer(): Mailer {
+  mailer ??= createMailer();
+  return mailer;
+}
+
+/**
+ * Replace the app-wide mailer, e.g. with a memory outbox in tests
+ */
+export function setMailer(next: Mailer): void {
+  mailer = next;
+}
+
+/**
+ * Send an email with the app-wide mailer
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await getMailer().send({ from: getDefaultFrom(), ...message });
+}
@@ -0,0 +1,238 @@
+/**
+ * Email Templates
+ *
+ * HTML and plain-text bodies for auth emails. Every template returns a
+ * subject, html and text, ready to spread into `sendEmail()`.
+ *
+ * @example
+ * await sendEmail({ to: user.email, ...passwordResetEmail({ name, url }) });
+ */
+
+import { isLegalRole, RoleDescriptions } from "@/lib/auth/roles";
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function appName(): string {
+  return process.env.BETTER_AUTH_APP_NAME || "Legal App";
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Shared HTML shell - inline styles only, since mail clients drop <style>
+ */
+function layout(options: {
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  code?: string;
+  footer: string;
+}): string {
+  const { heading, paragraphs, action, code, footer } = options;
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;color:#171717;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;">
+      <tr><td>
+        <h1 style="margin:0 0 16px;font-size:20px;font-weight:600;">${escapeHtml(heading)}</h1>
+        ${paragraphs
+          .map((text) => `<p style="margin:0 0 16px;font-size:14px;line-height:1.6;">${escapeHtml(text)}</p>`)
+          .join("\n        ")}
+        ${
+          code
+            ? `<p style="margin:0 0 16px;font-size:28px;font-weight:600;letter-spacing:6px;font-family:monospace;">${escapeHtml(code)}</p>`
+            : ""
+        }
+        ${
+          action
+            ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="display:inline-block;background:#171717;color:#ffffff;text-decoration:none;padding:10px 20px;border-radius:999px;font-size:14px;font-weight:500;">${escapeHtml(action.label)}</a></p>
+        <p style="margin:0 0 16px;font-size:12px;color:#737373;word-break:break-all;">${escapeHtml(action.url)}</p>`
+            : ""
+        }
+        <p style="margin:24px 0 0;font-size:12px;color:#737373;">${escapeHtml(footer)}</p>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+}
+
+/**
+ * Organization invitation
+ */
+export function invitationEmail(options: {
+  organizationName: string;
+  inviterName: string;
+  role: string;
+  url: string;
+}): EmailContent {
+  const { organizationName, inviterName, role, url } = options;
+  const subject = `${inviterName} invited you to ${organizationName}`;
+  const paragraphs = [
+    `${inviterName} invited you to join ${organizationName} on ${appName()} as ${role}.`,
+    ...(isLegalRole(role)
+      ? [`${role[0].toUpperCase()}${role.slice(1)}: ${RoleDescriptions[role]}.`]
+      : []),
+  ];
+  const footer = "If you weren't expecting this invitation, you can ignore this email.";
+
+  return {
+    subject,
+    html: layout({
+      heading: `Join ${organizationName}`,
+      paragraphs,
+      action: { label: "Accept invitation", url },
+      footer,
+    }),
+    text: [...paragraphs, `Accept the invitation: ${url}`, footer].join("\n\n"),
+  };
+}
+
+/**
+ * Offer to take over ownership of an organization
+ */
+export function ownershipTransferEmail(options: {
+  organizationName: string;
+  fromName: string;
+  url: string;
+}): EmailContent {
+  const { organizationName, fromName, url } = options;
+  const subject = `${fromName} wants to make you an owner of ${organizationName}`;
+  const paragraphs = [
+    `${fromName} asked you to take over ownership of ${organizationName} on ${appName()}.`,
+    `Owners have full control, including deleting the organization. If you accept, ${fromName} becomes a partner. The offer expires in 7 days.`,
+  ];
+  const footer = "If you don't want to be an owner, decline the offer or ignore this email.";
+
+  return {
+    subject,
+    html: layout({
+      heading: `Become an owner of ${organizationName}`,
+      paragraphs,
+      action: { label: "Review the offer", url },
+      footer,
+    }),
+    text: [...paragraphs, `Review the offer: ${url}`, footer].join("\n\n"),
+  };
+}
+
+/**
+ * Two-factor one-time code
+ */
+export function otpEmail(options: { name?: string; code: string }): EmailContent {
+  const { name, code } = options;
+  const subject = `Your ${appName()} sign-in code`;
+  const paragraphs = [
+    name ? `Hi ${name},` : "Hi,",
+    "Use this code to finish signing in. It expires in a few minutes.",
+  ];
+  const footer = "If you didn't try to sign in, change your password right away.";
+
+  return {
+    subject,
+    html: layout({ heading: "Your sign-in code", paragraphs, code, footer }),
+    text: [...paragraphs, code, footer].join("\n\n"),
+  };
+}
+
+/**
+ * Email address verification
+ */
+export function verificationEmail(options: { name?: string; url: string }): EmailContent {
+  const { name, url } = options;
+  const subject = `Verify your email for ${appName()}`;
+  const paragraphs = [
+    name ? `Hi ${name},` : "Hi,",
+    "Confirm your email address to finish setting up your account. This link expires in 24 hours.",
+  ];
+  const footer = "If you didn't create an account, you can ignore this email.";
+
+  return {
+    subject,
+    html: layout({
+      heading: "Verify your email",
+      paragraphs,
+      action: { label: "Verify email", url },
+      footer,
+    }),
+    text: [...paragraphs, `Verify your email: ${url}`, footer].join("\n\n"),
+  };
+}
+
+/**
+ * Password reset link
+ */
+export function passwordResetEmail(options: { name?: string; url: string }): EmailContent {
+  const { name, url } = options;
+  const subject = `Reset your ${appName()} password`;
+  const paragraphs = [
+    name ? `Hi ${name},` : "Hi,",
+    "We received a request to reset your password. This link expires in one hour.",
+  ];
+  const footer =
+    "If you didn't request a reset, you can ignore this email - your password won't change.";
+
+  return {
+    subject,
+    html: layout({
+      heading: "Reset your password",
+      paragraphs,
+      action: { label: "Reset password", url },
+      footer,
+    }),
+    text: [...paragraphs, `Reset your password: ${url}`, footer].join("\n\n"),
+  };
+}
+
+/**
+ * Passwordless sign-in link (magic link)
+ */
+export function signInLinkEmail(options: { url: string }): EmailContent {
+  const { url } = options;
+  const subject = `Sign in to ${appName()}`;
+  const paragraphs = [
+    "Hi,",
+    "Click the button below to sign in. The link works once and expires in 10 minutes.",
+  ];
+  const footer = "If you didn't try to sign in, you can ignore this email.";
+
+  return {
+    subject,
+    html: layout({
+      heading: `Sign in to ${appName()}`,
+      paragraphs,
+      action: { label: "Sign in", url },
+      footer,
+    }),
+    text: [...paragraphs, `Sign in: ${url}`, footer].join("\n\n"),
+  };
+}
+
+/**
+ * Passwordless sign-in code (email OTP)
+ */
+export function signInCodeEmail(options: { code: string }): EmailContent {
+  const { code } = options;
+  const subject = `Your ${appName()} sign-in code`;
+  const paragraphs = [
+    "Hi,",
+    "Enter this code to sign in. It works once and expires in 10 minutes.",
+  ];
+  const footer = "If you didn't try to sign in, you can ignore this email.";
+
+  return {
+    subject,
+    html: layout({ heading: "Your sign-in code", paragraphs, code, footer }),
+    text: [...paragraphs, code, footer].join("\n\n"),
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * case.dev Email Transport
+ *
+ * Sends through the case.dev Email API using CASE_API_KEY.
+ * Override the endpoint with CASE_EMAIL_API_URL if needed.
+ */
+
+import type { EmailMessage, Mailer } from "../mailer";
+
+const DEFAULT_ENDPOINT = "https://api.case.dev/email/v1/send";
+
+export function createCaseDevTransport(
+  apiKey = process.env.CASE_API_KEY,
+  endpoint = process.env.CASE_EMAIL_API_URL || DEFAULT_ENDPOINT
+): Mailer {
+  return {
+    async send(message: EmailMessage) {
+      if (!apiKey) {
+        throw new Error("CASE_API_KEY is required for the case.dev email transport");
+      }
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: message.to,
+          reply_to: message.replyTo,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(
+          `case.dev email failed (${response.status})${detail ? `: ${detail}` : ""}`
+        );
+      }
+    },
+  };
+}
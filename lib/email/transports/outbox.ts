@@ -0,0 +1,60 @@
+/**
+ * Outbox Transports
+ *
+ * Capture emails instead of delivering them.
+ * - File outbox: writes .outbox/<time>-<subject>.{json,html} for local dev
+ * - Memory outbox: keeps messages in an array for tests
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EmailMessage, Mailer } from "../mailer";
+
+export interface MemoryOutbox extends Mailer {
+  readonly messages: EmailMessage[];
+  /** Most recent message sent to an address */
+  latest(to: string): EmailMessage | undefined;
+  clear(): void;
+}
+
+export function createMemoryOutbox(): MemoryOutbox {
+  const messages: EmailMessage[] = [];
+
+  return {
+    messages,
+    async send(message) {
+      messages.push(message);
+    },
+    latest(to) {
+      return messages.filter((message) => message.to === to).at(-1);
+    },
+    clear() {
+      messages.length = 0;
+    },
+  };
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+}
+
+export function createFileOutbox(
+  directory = path.join(process.cwd(), ".outbox")
+): Mailer {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const name = `${Date.now()}-${slugify(message.subject)}`;
+      await writeFile(
+        path.join(directory, `${name}.json`),
+        JSON.stringify(message, null, 2)
+      );
+      await writeFile(path.join(directory, `${name}.html`), message.html);
+      console.log(`[Email] ${message.subject} -> ${message.to} (.outbox/${name}.html)`);
+    },
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * SMTP Transport
+ *
+ * Sends through any SMTP server (Postmark, SES, Mailgun, Office 365...).
+ *
+ * - SMTP_HOST (required)
+ * - SMTP_PORT (default 587; 465 uses implicit TLS)
+ * - SMTP_USER / SMTP_PASS (optional)
+ */
+
+import nodemailer from "nodemailer";
+import type { EmailMessage, Mailer } from "../mailer";
+
+export function createSmtpTransport(): Mailer {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST is required for the SMTP email transport");
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    async send(message: EmailMessage) {
+      await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+    },
+  };
+}
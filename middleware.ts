@@ -16,7 +16,7 @@
  *
  * When you're ready to add auth:
  * 1. Set up your database (see skills/auth/SKILL.md)
- * 2. Add routes to protectedRoutes array below
+ * 2. Add routes to protectedRoutes in auth.config.ts
  * 3. That's it - the login/signup pages already exist
  *
  * @see skills/auth/SKILL.md for detailed documentation
@@ -25,106 +25,77 @@
 import { getSessionCookie } from "better-auth/cookies";
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import authConfig from "./auth.config";
+import { createRoutePolicy, type RouteDecision } from "@/lib/auth/route-policy";
+import { isEmailVerificationRequired } from "@/lib/auth/email-verification";
+import {
+  AuthUnavailableError,
+  clearSessionCookies,
+  getVerifiedSession,
+  PATHNAME_HEADER,
+  satisfiesRouteGuards,
+} from "@/lib/auth/middleware-session";
 
 /**
- * CONFIGURATION
- * 
- * Adjust these settings based on your app's needs.
+ * Route policy, validated once at startup
+ * Edit auth.config.ts (or the AUTH_* env vars) to change protection.
  */
+const routePolicy = createRoutePolicy(authConfig);
+const requireEmailVerification = isEmailVerificationRequired();
 
-/**
- * Auth mode determines the overall protection strategy:
- * - "disabled": No route protection (for MVPs, prototypes)
- * - "public-by-default": Only protect routes in `protectedRoutes`
- * - "private-by-default": Protect everything except `publicRoutes`
- */
-const AUTH_MODE: "disabled" | "public-by-default" | "private-by-default" = "public-by-default";
+function redirectToLogin(request: NextRequest) {
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("callbackUrl", request.nextUrl.pathname);
+  return NextResponse.redirect(loginUrl);
+}
 
 /**
- * Routes that require authentication (used in "public-by-default" mode)
- * Add routes that should only be accessible to logged-in users
+ * The cookie is there but the session isn't valid anymore
+ * Clear the stale cookies so the user isn't stuck in a redirect loop.
  */
-const protectedRoutes = [
-  "/dashboard",
-  "/settings",
-  "/account",
-  "/admin",
-];
+function redirectExpired(request: NextRequest) {
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("callbackUrl", request.nextUrl.pathname);
+  loginUrl.searchParams.set("reason", "expired");
+  return clearSessionCookies(request, NextResponse.redirect(loginUrl));
+}
 
 /**
- * Routes that don't require authentication (used in "private-by-default" mode)
- * Add marketing pages, public content, etc.
+ * Signed in, but the email isn't verified yet - show "check your inbox"
  */
-const publicRoutes = [
-  "/",
-  "/login",
-  "/signup",
-  "/forgot-password",
-  "/reset-password",
-  "/api/auth",      // Better Auth API routes (required)
-  "/verify-email",
-  "/accept-invite",
-];
+function redirectUnverified(request: NextRequest) {
+  const verifyUrl = new URL("/verify-email", request.url);
+  verifyUrl.searchParams.set("callbackUrl", request.nextUrl.pathname);
+  return NextResponse.redirect(verifyUrl);
+}
 
 /**
- * Routes that should never require auth regardless of mode
- * (e.g., health checks, webhooks with their own auth)
+ * Better Auth couldn't validate the session - refuse without clearing
+ * cookies, so the user is still signed in once it recovers
  */
-const alwaysPublicRoutes = [
-  "/api/auth",      // Better Auth API (required)
-  "/api/health",
-  "/api/webhooks",
-];
-
-// ============================================================================
-// Implementation
-// ============================================================================
-
-function matchesRoute(pathname: string, routes: string[]): boolean {
-  return routes.some(
-    (route) => pathname === route || pathname.startsWith(`${route}/`)
-  );
+function authUnavailable() {
+  return new NextResponse("Sign-in is temporarily unavailable. Please try again shortly.", {
+    status: 503,
+    headers: { "retry-after": "5" },
+  });
 }
 
-function isProtectedRoute(pathname: string): boolean {
-  return matchesRoute(pathname, protectedRoutes);
-}
-
-function isPublicRoute(pathname: string): boolean {
-  return matchesRoute(pathname, publicRoutes);
-}
-
-function isAlwaysPublicRoute(pathname: string): boolean {
-  return matchesRoute(pathname, alwaysPublicRoutes);
+/**
+ * Continue to the route, passing the path on for server components
+ */
+function next(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.set(PATHNAME_HEADER, request.nextUrl.pathname);
+  return NextResponse.next({ request: { headers } });
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
+  const decision = routePolicy.resolve(pathname);
 
-  // Always allow certain routes regardless of auth mode
-  if (isAlwaysPublicRoute(pathname)) {
-    return NextResponse.next();
-  }
-
-  // Handle based on auth mode
-  switch (AUTH_MODE) {
-    case "disabled":
-      // No protection - all routes accessible
-      return NextResponse.next();
-
-    case "public-by-default":
-      // Only protect specific routes
-      if (!isProtectedRoute(pathname)) {
-        return NextResponse.next();
-      }
-      break;
-
-    case "private-by-default":
-      // Protect everything except public routes
-      if (isPublicRoute(pathname)) {
-        return NextResponse.next();
-      }
-      break;
+  // Public routes (per auth mode, overrides and always-public routes)
+  if (decision.access === "public") {
+    return next(request);
   }
 
   // Check for Better Auth session cookie
@@ -132,15 +103,53 @@ export function middleware(request: NextRequest) {
 
   if (!sessionCookie) {
     // No session - redirect to login
-    const loginUrl = new URL("/login", request.url);
-    loginUrl.searchParams.set("callbackUrl", pathname);
-    return NextResponse.redirect(loginUrl);
+    return redirectToLogin(request);
+  }
+
+  try {
+    return await checkSession(request, decision);
+  } catch (error) {
+    if (error instanceof AuthUnavailableError) return authUnavailable();
+    throw error;
+  }
+}
+
+/**
+ * Validate the session and route guards where the policy asks for it
+ */
+async function checkSession(request: NextRequest, decision: RouteDecision) {
+  const hasGuards = Boolean(decision.role || decision.permission);
+
+  // Verified mode (and role/permission guarded routes) validate the session
+  // Email verification mode needs the user record, so it validates too
+  if (
+    routePolicy.config.sessionValidation === "verified" ||
+    hasGuards ||
+    requireEmailVerification
+  ) {
+    const session = await getVerifiedSession(request);
+    if (!session) {
+      return redirectExpired(request);
+    }
+    if (requireEmailVerification && !session.user.emailVerified) {
+      return redirectUnverified(request);
+    }
+  }
+
+  // Role/permission guarded routes also need the active organization role
+  if (hasGuards) {
+    if (!(await satisfiesRouteGuards(request, decision))) {
+      // Authenticated but under-privileged - show 403 instead of login
+      return NextResponse.rewrite(new URL("/forbidden", request.url), {
+        status: 403,
+      });
+    }
   }
 
   // Session exists - allow access
-  // Note: This only checks cookie presence, not validity
+  // Note: In "cookie" mode this only checks cookie presence, not validity
   // Full session validation happens in your API routes/server components
-  return NextResponse.next();
+  return next(request);
 }
 
 /**